@@ -0,0 +1,21 @@
+/**
+ * Example quality gate plugin: fail when more tests were skipped than the policy allows
+ * Enable it by listing this file under "plugins" in the quality gate policy
+ */
+module.exports = {
+  id: 'max-skipped-tests',
+  name: 'Max Skipped Tests',
+  run(context) {
+    const maxSkipped = context.threshold ?? 0;
+    const skipped = context.testResults.skipped;
+    const passed = skipped <= maxSkipped;
+
+    return {
+      passed,
+      message: passed
+        ? `${skipped} test(s) skipped (limit ${maxSkipped})`
+        : `${skipped} test(s) skipped, more than the limit of ${maxSkipped}`,
+      details: { skipped, maxSkipped },
+    };
+  },
+};
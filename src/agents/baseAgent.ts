@@ -1,12 +1,42 @@
-import OpenAI from 'openai';
+import { z } from 'zod';
+import {
+  getLLMProvider,
+  getCassette,
+  getUsageLedger,
+  getConcurrencyLimiter,
+  getResponseCache,
+  getContextWindow,
+  countConversationTokens,
+  dropOldestMessages,
+  pendingTurnStart,
+  withTimeout,
+  withIdleTimeout,
+  isRetryableError,
+  computeBackoffMs,
+  getRetryAfterMs,
+  getErrorStatus,
+  sleep,
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMToolCall,
+  ToolDefinition,
+} from '../llm';
 import { getEnvConfig } from '../utils/env';
 import { getLogger } from '../utils/logger';
+import { getAgentProgress } from './progress';
+import { getPromptRegistry, renderTemplate } from './promptRegistry';
 
 const logger = getLogger();
 
-export interface AgentMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+export interface AgentMessage extends LLMMessage {
+  /**
+   * Pinned messages survive context trimming (system prompt, RAG context)
+   */
+  pinned?: boolean;
 }
 
 export interface AgentResponse {
@@ -18,28 +48,34 @@ export interface AgentResponse {
   };
 }
 
-export interface ToolDefinition {
-  name: string;
-  description: string;
-  parameters: Record<string, unknown>;
+export type { ToolDefinition } from '../llm';
+
+/**
+ * A tool the model can call during `chatWithTools`
+ */
+export interface AgentTool extends ToolDefinition {
+  handler: (args: Record<string, unknown>) => Promise<string>;
 }
 
+/**
+ * Tool results are truncated to keep page snapshots and logs from flooding the context
+ */
+const MAX_TOOL_RESULT_LENGTH = 8000;
+
 /**
  * Base Agent class with LLM integration
  */
 export abstract class BaseAgent {
-  protected openai: OpenAI;
+  protected provider: LLMProvider;
   protected model: string;
   protected messages: AgentMessage[] = [];
   protected systemPrompt: string;
   protected name: string;
+  protected tools = new Map<string, AgentTool>();
 
-  constructor(name: string, systemPrompt: string) {
-    const config = getEnvConfig();
-    this.openai = new OpenAI({
-      apiKey: config.openai.apiKey,
-    });
-    this.model = config.openai.model;
+  constructor(name: string, systemPrompt: string, provider: LLMProvider = getLLMProvider()) {
+    this.provider = provider;
+    this.model = provider.defaultModel;
     this.name = name;
     this.systemPrompt = systemPrompt;
 
@@ -47,9 +83,10 @@ export abstract class BaseAgent {
     this.messages.push({
       role: 'system',
       content: systemPrompt,
+      pinned: true,
     });
 
-    logger.info(`${this.name} initialized`);
+    logger.info(`${this.name} initialized`, { provider: provider.name, model: this.model });
   }
 
   /**
@@ -58,10 +95,15 @@ export abstract class BaseAgent {
   protected async chat(userMessage: string, options: {
     temperature?: number;
     maxTokens?: number;
+    responseFormat?: 'text' | 'json';
+    pinned?: boolean;
   } = {}): Promise<AgentResponse> {
+    const maxTokens = options.maxTokens ?? 4000;
+
     this.messages.push({
       role: 'user',
       content: userMessage,
+      pinned: options.pinned,
     });
 
     logger.debug(`${this.name} sending message to LLM`, {
@@ -69,17 +111,17 @@ export abstract class BaseAgent {
     });
 
     try {
-      const response = await this.openai.chat.completions.create({
+      await this.manageContext(maxTokens);
+
+      const response = await this.complete({
         model: this.model,
-        messages: this.messages.map(msg => ({
-          role: msg.role,
-          content: msg.content,
-        })),
+        messages: this.toRequestMessages(),
         temperature: options.temperature ?? 0.7,
-        max_tokens: options.maxTokens ?? 4000,
+        maxTokens,
+        responseFormat: options.responseFormat,
       });
 
-      const assistantMessage = response.choices[0].message.content || '';
+      const assistantMessage = response.content;
 
       this.messages.push({
         role: 'assistant',
@@ -88,23 +130,387 @@ export abstract class BaseAgent {
 
       logger.debug(`${this.name} received response from LLM`, {
         responseLength: assistantMessage.length,
-        tokens: response.usage?.total_tokens,
+        tokens: response.usage?.totalTokens,
       });
 
       return {
         content: assistantMessage,
-        usage: response.usage ? {
-          promptTokens: response.usage.prompt_tokens,
-          completionTokens: response.usage.completion_tokens,
-          totalTokens: response.usage.total_tokens,
-        } : undefined,
+        usage: response.usage,
       };
     } catch (error) {
-      logger.error(`${this.name} LLM request failed`, { error });
+      logger.error(`${this.name} LLM request failed`, { provider: this.provider.name, error });
       throw error;
     }
   }
 
+  /**
+   * Send a message and let the model call registered tools until it produces an answer
+   * Each tool result is fed back to the model; after `maxIterations` rounds the model is
+   * asked to answer with what it has
+   */
+  protected async chatWithTools(userMessage: string, options: {
+    temperature?: number;
+    maxTokens?: number;
+    maxIterations?: number;
+  } = {}): Promise<AgentResponse> {
+    const { temperature = 0.5, maxTokens = 4000, maxIterations = 10 } = options;
+    const tools: ToolDefinition[] = [...this.tools.values()].map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    this.messages.push({ role: 'user', content: userMessage });
+
+    for (let iteration = 0; iteration <= maxIterations; iteration++) {
+      if (iteration === maxIterations) {
+        this.messages.push({
+          role: 'user',
+          content: 'Tool budget exhausted. Stop calling tools and answer with what you have.',
+        });
+      }
+
+      // Tool results can be large, so the conversation is fitted again before every round
+      await this.manageContext(maxTokens);
+
+      const response = await this.complete({
+        model: this.model,
+        messages: this.toRequestMessages(),
+        temperature,
+        maxTokens,
+        tools,
+      });
+
+      if (response.usage) {
+        usage.promptTokens += response.usage.promptTokens;
+        usage.completionTokens += response.usage.completionTokens;
+        usage.totalTokens += response.usage.totalTokens;
+      }
+
+      const toolCalls = iteration < maxIterations ? response.toolCalls : undefined;
+      this.messages.push({ role: 'assistant', content: response.content, toolCalls });
+
+      if (!toolCalls || toolCalls.length === 0) {
+        return { content: response.content, usage };
+      }
+
+      for (const call of toolCalls) {
+        this.messages.push({
+          role: 'tool',
+          content: await this.runTool(call),
+          toolCallId: call.id,
+        });
+      }
+    }
+
+    // Unreachable: the final iteration never executes tool calls
+    throw new Error(`${this.name} tool loop ended without an answer`);
+  }
+
+  /**
+   * Register a tool for `chatWithTools`
+   */
+  protected registerTool(tool: AgentTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Remove all registered tools
+   */
+  protected clearTools(): void {
+    this.tools.clear();
+  }
+
+  /**
+   * Execute a tool call, turning failures into a result the model can react to
+   */
+  private async runTool(call: LLMToolCall): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return `Error: unknown tool "${call.name}"`;
+    }
+    if (call.argumentsError) {
+      logger.warn(`${this.name} sent malformed arguments to tool ${call.name}`, {
+        error: call.argumentsError,
+      });
+      return `Error: ${call.argumentsError}. Call ${call.name} again with a valid JSON object.`;
+    }
+
+    logger.info(`${this.name} calling tool ${call.name}`, { args: call.arguments });
+
+    try {
+      const result = await tool.handler(call.arguments);
+      return result.length > MAX_TOOL_RESULT_LENGTH
+        ? `${result.substring(0, MAX_TOOL_RESULT_LENGTH)}\n... (truncated)`
+        : result;
+    } catch (error) {
+      logger.warn(`${this.name} tool ${call.name} failed`, { error });
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Strip agent-only fields from the conversation before sending it
+   */
+  private toRequestMessages(): LLMMessage[] {
+    return this.messages.map(({ role, content, toolCalls, toolCallId }) => ({
+      role,
+      content,
+      toolCalls,
+      toolCallId,
+    }));
+  }
+
+  /**
+   * Send a message and validate the JSON response against a zod schema
+   * Invalid JSON or schema violations are sent back to the model as corrections,
+   * up to `maxRetries` times (LLM_STRUCTURED_RETRIES by default)
+   * @throws {Error} if the response is still invalid after all retries
+   */
+  protected async chatStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: {
+      temperature?: number;
+      maxTokens?: number;
+      maxRetries?: number;
+    } = {}
+  ): Promise<T> {
+    const { maxRetries = getEnvConfig().llm.structuredRetries, ...chatOptions } = options;
+    let message = prompt;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const response = await this.chat(message, { ...chatOptions, responseFormat: 'json' });
+      const parsed = this.parseJSON(response.content);
+
+      if (parsed === null) {
+        errors = ['Response is not valid JSON'];
+      } else {
+        const result = schema.safeParse(parsed);
+        if (result.success) {
+          return result.data;
+        }
+        errors = result.error.errors.map(
+          (err) => `${err.path.length > 0 ? err.path.join('.') : '(root)'}: ${err.message}`
+        );
+      }
+
+      logger.warn(`${this.name} structured response failed validation`, {
+        attempt: attempt + 1,
+        errors: errors.slice(0, 10),
+      });
+
+      message = `
+Your previous response did not match the required JSON structure.
+
+Validation errors:
+${errors.slice(0, 20).map((err) => `- ${err}`).join('\n')}
+
+Return the complete corrected JSON only, with no commentary.
+`;
+    }
+
+    throw new Error(
+      `${this.name} structured response invalid after ${maxRetries + 1} attempt(s): ${errors.join('; ')}`
+    );
+  }
+
+  /**
+   * Shrink the conversation to fit the model context window before a request
+   * The window minus the completion budget must hold the whole conversation; older
+   * unpinned turns are summarized (LLM_CONTEXT_STRATEGY=summarize) and/or dropped
+   */
+  private async manageContext(maxTokens: number): Promise<void> {
+    const { contextStrategy, contextWindows } = getEnvConfig().llm;
+    const budget = getContextWindow(this.model, contextWindows) - maxTokens;
+    const tokensBefore = countConversationTokens(this.messages);
+
+    if (contextStrategy === 'none' || tokensBefore <= budget) {
+      return;
+    }
+
+    if (contextStrategy === 'summarize') {
+      await this.summarizeOlderMessages(budget);
+    }
+
+    // Dropping is also the fallback when a summary alone does not free enough room
+    this.messages = dropOldestMessages(this.messages, budget);
+
+    logger.info(`${this.name} trimmed conversation to fit context window`, {
+      strategy: contextStrategy,
+      tokensBefore,
+      tokensAfter: countConversationTokens(this.messages),
+      budget,
+    });
+  }
+
+  /**
+   * Replace older unpinned turns with an LLM-written summary
+   * The pending turn (the latest request, or tool call and its results) is kept verbatim
+   */
+  private async summarizeOlderMessages(budget: number): Promise<void> {
+    const start = pendingTurnStart(this.messages);
+    const pending = this.messages.slice(start);
+    const history = this.messages.slice(0, start);
+    const older = history.filter((msg) => !msg.pinned);
+
+    if (older.length < 2) {
+      return;
+    }
+
+    // The transcript itself has to fit in the window, so keep only its most recent part
+    const transcript = older
+      .map((msg) => `[${msg.role}]\n${msg.content}`)
+      .join('\n\n')
+      .slice(-Math.max(budget, 1000) * 4);
+
+    const response = await this.complete({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You condense conversation history for another assistant. Keep decisions, ' +
+            'identifiers, file names, scenario ids and open questions. Drop pleasantries.',
+        },
+        {
+          role: 'user',
+          content: `Summarize the following conversation in under 500 words.\n\n${transcript}`,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 1500,
+    });
+
+    this.messages = [
+      ...history.filter((msg) => msg.pinned),
+      { role: 'user', content: `Summary of the earlier conversation:\n${response.content}` },
+      ...pending,
+    ];
+
+    logger.debug(`${this.name} summarized ${older.length} older messages`);
+  }
+
+  /**
+   * Run a completion through the configured cassette (record/replay) or the provider
+   * Live calls are streamed when the provider supports it, publishing progress events
+   * @throws {BudgetExceededError} if the run is over its token or cost budget
+   */
+  private async complete(request: LLMRequest): Promise<LLMResponse> {
+    const cassette = getCassette();
+
+    if (cassette.mode === 'replay') {
+      return cassette.replay(request, this.provider);
+    }
+
+    // Cached responses are served before the budget check since they cost nothing
+    const cache = getResponseCache();
+    const cached = cache.get(request, this.provider);
+    if (cached) {
+      if (cassette.mode === 'record') {
+        cassette.record(request, this.provider, cached);
+      }
+      return cached;
+    }
+
+    const ledger = getUsageLedger();
+    ledger.assertWithinBudget();
+
+    const response = await this.completeWithRetries(request);
+    cache.set(request, this.provider, response);
+
+    if (cassette.mode === 'record') {
+      cassette.record(request, this.provider, response);
+    }
+
+    // Replayed responses cost nothing, so only live calls count against the budget
+    if (response.usage) {
+      ledger.record(this.name, response.model, response.usage);
+    }
+
+    return response;
+  }
+
+  /**
+   * Call the provider with per-call timeouts and exponential backoff on transient
+   * errors, moving on to the configured fallback models once retries are exhausted
+   */
+  private async completeWithRetries(request: LLMRequest): Promise<LLMResponse> {
+    const { llm } = getEnvConfig();
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxRetries: llm.maxRetries };
+    const models = [request.model, ...llm.fallbackModels.filter((model) => model !== request.model)];
+    const ledger = getUsageLedger();
+    let lastError: unknown;
+
+    for (const [index, model] of models.entries()) {
+      if (index > 0) {
+        logger.warn(`${this.name} falling back to model ${model}`, { previousModel: models[index - 1] });
+        ledger.recordRetry(this.name, models[index - 1]);
+      }
+
+      for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+        try {
+          return await getConcurrencyLimiter().run(() =>
+            this.callProvider({ ...request, model }, llm.timeoutMs)
+          );
+        } catch (error) {
+          if (!isRetryableError(error)) {
+            throw error;
+          }
+          lastError = error;
+
+          if (attempt === policy.maxRetries) {
+            break;
+          }
+
+          const delayMs = computeBackoffMs(attempt, policy, getRetryAfterMs(error));
+          logger.warn(`${this.name} LLM call failed, retrying in ${delayMs}ms`, {
+            model,
+            attempt: attempt + 1,
+            maxRetries: policy.maxRetries,
+            status: getErrorStatus(error),
+            error: error instanceof Error ? error.message : String(error),
+          });
+          ledger.recordRetry(this.name, model);
+          await sleep(delayMs);
+        }
+      }
+    }
+
+    logger.error(`${this.name} LLM call failed after retries`, { models });
+    throw lastError;
+  }
+
+  /**
+   * Single provider call, streamed when the provider supports it and no tools are offered
+   * Streamed calls time out after `timeoutMs` without a chunk, other calls after `timeoutMs` in total
+   */
+  private async callProvider(request: LLMRequest, timeoutMs: number): Promise<LLMResponse> {
+    const stream = this.provider.stream?.bind(this.provider);
+    if (stream && getEnvConfig().llm.stream && !request.tools) {
+      const tracker = getAgentProgress().track(this.name, request.model);
+      let response: LLMResponse;
+      try {
+        response = await withIdleTimeout(
+          (signal, touch) =>
+            stream({ ...request, signal }, (delta) => {
+              touch();
+              tracker.push(delta);
+            }),
+          timeoutMs
+        );
+      } catch (error) {
+        tracker.end(undefined, error);
+        throw error;
+      }
+      tracker.end(response.usage);
+      return response;
+    }
+    return withTimeout((signal) => this.provider.complete({ ...request, signal }), timeoutMs);
+  }
+
+
   /**
    * Reset conversation history
    */
@@ -112,17 +518,20 @@ export abstract class BaseAgent {
     this.messages = [{
       role: 'system',
       content: this.systemPrompt,
+      pinned: true,
     }];
     logger.debug(`${this.name} conversation reset`);
   }
 
   /**
    * Add context to the conversation
+   * Pinned context is never dropped or summarized when the conversation is trimmed
    */
-  protected addContext(context: string): void {
+  protected addContext(context: string, pinned: boolean = false): void {
     this.messages.push({
       role: 'user',
       content: context,
+      pinned,
     });
   }
 
@@ -134,14 +543,19 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Format a prompt with template variables
+   * Format a prompt with {{template}} variables
+   * @throws {PromptVariableError} if the template references a variable that is not supplied
    */
   protected formatPrompt(template: string, variables: Record<string, string>): string {
-    let formatted = template;
-    for (const [key, value] of Object.entries(variables)) {
-      formatted = formatted.replace(new RegExp(`{{${key}}}`, 'g'), value);
-    }
-    return formatted;
+    return renderTemplate(template, variables);
+  }
+
+  /**
+   * Render a prompt template from the registry (see prompts/)
+   * @throws {PromptVariableError} if the template references a variable that is not supplied
+   */
+  protected renderPrompt(id: string, variables: Record<string, string> = {}): string {
+    return renderTemplate(getPromptRegistry().get(id).content, variables, id);
   }
 
   /**
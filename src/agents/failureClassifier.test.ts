@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { classifyByHeuristics, FAILURE_CATEGORIES } from './failureClassifier';
+import type { TestCaseResult } from '../utils/scenarioResults';
+import type { TraceFailureDigest } from '../utils/traceReader';
+
+const failed = (error: string): TestCaseResult => ({
+  title: 'CART-001 adds an item',
+  file: 'cart.spec.ts',
+  tags: [],
+  status: 'failed',
+  duration: 1000,
+  error,
+});
+
+const withRequests = (...statuses: number[]): TraceFailureDigest => ({
+  tracePath: 'trace.zip',
+  consoleErrors: [],
+  networkFailures: statuses.map((status) => ({
+    method: 'POST',
+    url: 'http://localhost/api/cart',
+    status,
+  })),
+});
+
+describe('classifyByHeuristics', () => {
+  const cases: Array<[string, TestCaseResult, TraceFailureDigest | undefined, object]> = [
+    [
+      'selector-drift',
+      failed(
+        "Error: locator.click: Timeout 5000ms exceeded.\nCall log:\n  - waiting for getByRole('button', { name: 'Add to cart' })"
+      ),
+      undefined,
+      { category: 'selector-drift', kind: 'test-bug', confidence: 'high' },
+    ],
+    [
+      'timing',
+      failed('Error: locator.click: element is not visible'),
+      undefined,
+      { category: 'timing', kind: 'test-bug', confidence: 'high' },
+    ],
+    [
+      'assertion-mismatch',
+      failed(
+        'Error: expect(locator).toHaveText(expected)\nExpected: "2 items"\nReceived: "1 item"'
+      ),
+      undefined,
+      { category: 'assertion-mismatch', kind: 'product-bug', confidence: 'low' },
+    ],
+    [
+      'backend-error',
+      failed('Error: expect(locator).toBeVisible() failed'),
+      withRequests(200, 502),
+      { category: 'backend-error', kind: 'product-bug', confidence: 'high' },
+    ],
+    [
+      'environment',
+      failed('Error: page.goto: net::ERR_CONNECTION_REFUSED at http://localhost:3000/'),
+      undefined,
+      { category: 'environment', kind: 'environment', confidence: 'high' },
+    ],
+    [
+      'test-data-collision',
+      failed('Error: user with email qa@example.com already exists'),
+      undefined,
+      { category: 'test-data-collision', kind: 'test-bug', confidence: 'high' },
+    ],
+    [
+      'unknown',
+      failed('Error: something unexpected happened'),
+      undefined,
+      { category: 'unknown', kind: 'test-bug', confidence: 'low' },
+    ],
+  ];
+
+  it('has a case for every category', () => {
+    expect(cases.map(([category]) => category).sort()).toEqual([...FAILURE_CATEGORIES].sort());
+  });
+
+  it.each(cases)('classifies %s', (_category, test, digest, expected) => {
+    expect(classifyByHeuristics(test, digest)).toMatchObject({ ...expected, source: 'heuristic' });
+  });
+
+  it('treats rejected credentials as an environment issue before any other error', () => {
+    expect(
+      classifyByHeuristics(failed('Error: expect(locator).toBeVisible() failed'), withRequests(401))
+    ).toMatchObject({
+      category: 'environment',
+      kind: 'environment',
+    });
+  });
+
+  it('reads the failing action log from the trace digest', () => {
+    const digest: TraceFailureDigest = {
+      tracePath: 'trace.zip',
+      consoleErrors: [],
+      networkFailures: [],
+      failingAction: { name: 'locator.fill', log: ['  element is not editable'] },
+    };
+
+    expect(classifyByHeuristics(failed('Test timeout of 30000ms exceeded.'), digest)).toMatchObject(
+      {
+        category: 'timing',
+        confidence: 'high',
+      }
+    );
+  });
+});
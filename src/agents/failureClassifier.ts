@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import type { TestCaseResult } from '../utils/scenarioResults';
+import type { TraceFailureDigest } from '../utils/traceReader';
+
+export type FailureCategory =
+  | 'selector-drift'
+  | 'timing'
+  | 'assertion-mismatch'
+  | 'backend-error'
+  | 'environment'
+  | 'test-data-collision'
+  | 'unknown';
+
+/**
+ * Who has to act on a failure: the test code, the product, or whoever runs the environment
+ */
+export type FailureKind = 'test-bug' | 'product-bug' | 'environment';
+
+export const FAILURE_CATEGORIES: FailureCategory[] = [
+  'selector-drift',
+  'timing',
+  'assertion-mismatch',
+  'backend-error',
+  'environment',
+  'test-data-collision',
+  'unknown',
+];
+
+/**
+ * Usual kind of each category; the model may decide otherwise for assertion mismatches,
+ * where only the requirement tells whether the app or the expectation is wrong
+ * Unknown failures count as test bugs so that repair still gets a chance at them
+ */
+export const CATEGORY_KINDS: Record<FailureCategory, FailureKind> = {
+  'selector-drift': 'test-bug',
+  timing: 'test-bug',
+  'assertion-mismatch': 'product-bug',
+  'backend-error': 'product-bug',
+  environment: 'environment',
+  'test-data-collision': 'test-bug',
+  unknown: 'test-bug',
+};
+
+export interface FailureClassification {
+  category: FailureCategory;
+  kind: FailureKind;
+  /**
+   * high: a heuristic matched an unambiguous error; low: a guess the model should confirm
+   */
+  confidence: 'high' | 'low';
+  source: 'heuristic' | 'llm';
+  reason: string;
+}
+
+interface HeuristicRule {
+  category: FailureCategory;
+  confidence: 'high' | 'low';
+  reason: string;
+  matches: (error: string, digest?: TraceFailureDigest) => boolean;
+}
+
+const hasStatus = (digest: TraceFailureDigest | undefined, check: (status: number) => boolean) =>
+  !!digest?.networkFailures.some((request) => request.status !== undefined && check(request.status));
+
+/**
+ * Checked in order; the first match wins
+ */
+const RULES: HeuristicRule[] = [
+  {
+    category: 'environment',
+    confidence: 'high',
+    reason: 'The application or browser could not be reached',
+    matches: (error) =>
+      /net::ERR_(?:CONNECTION_REFUSED|NAME_NOT_RESOLVED|INTERNET_DISCONNECTED|CONNECTION_RESET|ADDRESS_UNREACHABLE)|ECONNREFUSED|ENOTFOUND|Executable doesn't exist/i.test(
+        error
+      ),
+  },
+  {
+    category: 'environment',
+    confidence: 'high',
+    reason: 'Requests were rejected as unauthenticated (401/403); check credentials and stored auth state',
+    matches: (error, digest) =>
+      hasStatus(digest, (status) => status === 401 || status === 403) ||
+      /\b401 Unauthorized\b|\b403 Forbidden\b|storageState/i.test(error),
+  },
+  {
+    category: 'backend-error',
+    confidence: 'high',
+    reason: 'The backend answered with a server error (5xx)',
+    matches: (error, digest) =>
+      hasStatus(digest, (status) => status >= 500) ||
+      /\b5\d\d\b[^\n]*(?:Internal Server Error|Bad Gateway|Service Unavailable|Gateway Timeout)/i.test(error),
+  },
+  {
+    category: 'test-data-collision',
+    confidence: 'high',
+    reason: 'The test data already exists, probably left over from another run or test',
+    matches: (error, digest) =>
+      hasStatus(digest, (status) => status === 409) ||
+      /already (?:exists|registered|taken|in use)|duplicate (?:key|entry)|unique constraint/i.test(error),
+  },
+  {
+    category: 'timing',
+    confidence: 'high',
+    reason: 'The element was found but was not ready for the action',
+    matches: (error) =>
+      /element is not (?:visible|stable|enabled|editable)|intercepts pointer events|(?:element (?:is|was) )?detached from the DOM/i.test(
+        error
+      ),
+  },
+  {
+    category: 'selector-drift',
+    confidence: 'high',
+    reason: 'The locator no longer matches exactly one element',
+    matches: (error) =>
+      /strict mode violation/i.test(error) ||
+      (/Timeout \d+ms exceeded/i.test(error) &&
+        /waiting for (?:locator|getBy)/i.test(error) &&
+        !/locator resolved to/i.test(error)),
+  },
+  {
+    // An assertion on a missing element: the locator may be stale, or the app may not render it
+    category: 'selector-drift',
+    confidence: 'low',
+    reason: 'An asserted element was not found on the page',
+    matches: (error) => /element\(s\) not found|resolved to 0 elements/i.test(error),
+  },
+  {
+    category: 'timing',
+    confidence: 'low',
+    reason: 'A wait or navigation timed out',
+    matches: (error) =>
+      /Timeout \d+ms exceeded|Test timeout of|has been closed|navigation .*interrupted/i.test(error),
+  },
+  {
+    category: 'assertion-mismatch',
+    confidence: 'low',
+    reason: 'The page did not show what the assertion expected',
+    matches: (error) => /expect\(|\bExpected\b|\bReceived\b/.test(error),
+  },
+];
+
+/**
+ * Classify a failure from its error text and trace digest alone
+ */
+export function classifyByHeuristics(
+  test: TestCaseResult,
+  digest?: TraceFailureDigest
+): FailureClassification {
+  const error = [test.error, digest?.failingAction?.error, ...(digest?.failingAction?.log ?? [])]
+    .filter(Boolean)
+    .join('\n');
+  const rule = RULES.find((candidate) => candidate.matches(error, digest));
+
+  if (!rule) {
+    return {
+      category: 'unknown',
+      kind: CATEGORY_KINDS.unknown,
+      confidence: 'low',
+      source: 'heuristic',
+      reason: 'No known failure pattern matched',
+    };
+  }
+  return {
+    category: rule.category,
+    kind: CATEGORY_KINDS[rule.category],
+    confidence: rule.confidence,
+    source: 'heuristic',
+    reason: rule.reason,
+  };
+}
+
+/**
+ * Answer expected from the classify-failures prompt; `index` is the 1-based failure number
+ */
+export const failureClassificationsSchema = z.object({
+  classifications: z.array(
+    z.object({
+      index: z.number().int().positive(),
+      category: z.enum(FAILURE_CATEGORIES as [FailureCategory, ...FailureCategory[]]),
+      kind: z.enum(['test-bug', 'product-bug', 'environment']),
+      reason: z.string(),
+    })
+  ),
+});
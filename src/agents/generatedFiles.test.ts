@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GENERATED_FILE_MARKER, GeneratedFileWriter, isGeneratedFile } from './generatedFiles';
+
+const options = { generator: 'SDET Agent', promptsVersion: '1.6.0', runId: 'run-1' };
+
+describe('GeneratedFileWriter', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'generated-'));
+    process.chdir(dir);
+    fs.mkdirSync('tests/e2e', { recursive: true });
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes files with the generated header and records their diff', () => {
+    const writer = new GeneratedFileWriter(options);
+
+    expect(writer.write('tests/e2e', 'login.spec.ts', 'test code')).toEqual({
+      file: 'tests/e2e/login.spec.ts',
+      action: 'created',
+    });
+
+    const content = fs.readFileSync('tests/e2e/login.spec.ts', 'utf-8');
+    expect(content).toBe(
+      `${GENERATED_FILE_MARKER}SDET Agent (prompts v1.6.0, run run-1)\ntest code\n`
+    );
+    expect(isGeneratedFile('tests/e2e/login.spec.ts')).toBe(true);
+    expect(fs.readFileSync(writer.diffPath, 'utf-8')).toMatch(
+      /^--- \/dev\/null\n\+\+\+ b\/tests\/e2e\/login\.spec\.ts\n[\s\S]*\+test code\n$/
+    );
+  });
+
+  it('rejects paths that leave the target directory', () => {
+    const writer = new GeneratedFileWriter(options);
+
+    for (const fileName of [
+      '../../escape.ts',
+      path.join(dir, 'abs.ts'),
+      '.',
+      'nested/../../up.ts',
+    ]) {
+      expect(writer.write('tests/e2e', fileName, 'x').action).toBe('rejected');
+    }
+    expect(fs.existsSync('escape.ts')).toBe(false);
+    expect(fs.existsSync('tests/up.ts')).toBe(false);
+  });
+
+  it('allows subdirectories inside the target directory', () => {
+    const writer = new GeneratedFileWriter(options);
+
+    expect(writer.write('tests/e2e', 'checkout/cart.spec.ts', 'x')).toEqual({
+      file: 'tests/e2e/checkout/cart.spec.ts',
+      action: 'created',
+    });
+  });
+
+  it('rejects collisions with hand-written files, directories and earlier files of the run', () => {
+    fs.writeFileSync('tests/e2e/manual.spec.ts', 'hand-written\n');
+    fs.mkdirSync('tests/e2e/folder.spec.ts');
+    const writer = new GeneratedFileWriter(options);
+
+    expect(writer.write('tests/e2e', 'manual.spec.ts', 'x')).toMatchObject({
+      action: 'rejected',
+      reason: 'an existing file not generated by the agent has that name',
+    });
+    expect(writer.write('tests/e2e', 'folder.spec.ts', 'x')).toMatchObject({ action: 'rejected' });
+
+    writer.write('tests/e2e', 'twice.spec.ts', 'first');
+    expect(writer.write('tests/e2e', 'twice.spec.ts', 'second')).toMatchObject({
+      action: 'rejected',
+      reason: 'generated twice in the same response',
+    });
+    expect(fs.readFileSync('tests/e2e/manual.spec.ts', 'utf-8')).toBe('hand-written\n');
+  });
+
+  it('updates generated files and ignores the header when nothing else changed', () => {
+    new GeneratedFileWriter(options).write('tests/e2e', 'login.spec.ts', 'v1');
+    const nextRun = new GeneratedFileWriter({ ...options, runId: 'run-2' });
+
+    expect(nextRun.write('tests/e2e', 'login.spec.ts', 'v1').action).toBe('unchanged');
+    expect(nextRun.write('tests/e2e', 'other.spec.ts', 'x').action).toBe('created');
+
+    const thirdRun = new GeneratedFileWriter({ ...options, runId: 'run-3' });
+    expect(thirdRun.write('tests/e2e', 'login.spec.ts', 'v2').action).toBe('updated');
+  });
+
+  it('only records the diff in a dry run', () => {
+    const writer = new GeneratedFileWriter({ ...options, dryRun: true });
+
+    expect(writer.write('tests/e2e', 'login.spec.ts', 'x').action).toBe('created');
+    expect(fs.existsSync('tests/e2e/login.spec.ts')).toBe(false);
+    expect(fs.existsSync(writer.diffPath)).toBe(true);
+  });
+});
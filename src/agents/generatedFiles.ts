@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLogger } from '../utils/logger';
+import { createUnifiedDiff } from '../utils/textDiff';
+
+const logger = getLogger();
+
+/**
+ * Where the diffs of generated files are kept, relative to the working directory
+ */
+export const GENERATED_DIFFS_DIR = '.agentic/generated';
+
+/**
+ * Marker the SDET Agent writes at the top of generated files; files without it are never
+ * overwritten or repaired
+ */
+export const GENERATED_FILE_MARKER = '// Generated by ';
+
+export type GeneratedFileAction = 'created' | 'updated' | 'unchanged' | 'rejected';
+
+export interface GeneratedFileResult {
+  /**
+   * Path relative to the working directory (the requested name when rejected)
+   */
+  file: string;
+  action: GeneratedFileAction;
+  /**
+   * Why a file was rejected
+   */
+  reason?: string;
+}
+
+export interface GeneratedFileWriterOptions {
+  /**
+   * Name stamped into the header, e.g. "SDET Agent"
+   */
+  generator: string;
+  promptsVersion: string;
+  runId: string;
+  /**
+   * Compute results and diffs without touching the target files
+   */
+  dryRun?: boolean;
+}
+
+export function isGeneratedFile(filePath: string): boolean {
+  return fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8').startsWith(GENERATED_FILE_MARKER);
+}
+
+function toRelative(filePath: string): string {
+  return path.relative(process.cwd(), filePath).split(path.sep).join('/');
+}
+
+/**
+ * Writes model-generated files into a target directory, refusing paths that leave it and
+ * existing files the agent did not generate; every change is appended to the run's diff
+ */
+export class GeneratedFileWriter {
+  readonly results: GeneratedFileResult[] = [];
+  private options: GeneratedFileWriterOptions;
+
+  constructor(options: GeneratedFileWriterOptions) {
+    this.options = options;
+  }
+
+  get dryRun(): boolean {
+    return this.options.dryRun ?? false;
+  }
+
+  /**
+   * Diff of every file written (or, in a dry run, that would be written) in this run,
+   * relative to the working directory
+   */
+  get diffPath(): string {
+    return `${GENERATED_DIFFS_DIR}/${this.options.runId}.diff`;
+  }
+
+  header(): string {
+    const { generator, promptsVersion, runId } = this.options;
+    return `${GENERATED_FILE_MARKER}${generator} (prompts v${promptsVersion}, run ${runId})\n`;
+  }
+
+  /**
+   * Add a later edit of a generated file (e.g. a fix for a type error) to the run's diff
+   * @param before - Previous content, or null when the file is new
+   */
+  recordEdit(file: string, before: string | null, after: string): void {
+    fs.mkdirSync(GENERATED_DIFFS_DIR, { recursive: true });
+    fs.appendFileSync(this.diffPath, createUnifiedDiff(file, before, after));
+  }
+
+  /**
+   * Write one file, stamped with the generated header
+   * @param baseDir - Directory the file must stay inside
+   * @param fileName - Name the model gave the file, relative to baseDir (may contain subdirectories)
+   */
+  write(baseDir: string, fileName: string, code: string): GeneratedFileResult {
+    const result = this.prepare(baseDir, fileName, code);
+    this.results.push(result);
+
+    if (result.action === 'rejected') {
+      logger.warn(`Refusing to write generated file ${fileName}: ${result.reason}`);
+    } else if (result.action !== 'unchanged') {
+      logger.info(`${this.dryRun ? 'Would write' : 'Wrote'} generated file: ${result.file} (${result.action})`);
+    }
+    return result;
+  }
+
+  private prepare(baseDir: string, fileName: string, code: string): GeneratedFileResult {
+    const root = path.resolve(baseDir);
+    const target = path.resolve(root, fileName);
+    const inside = path.relative(root, target);
+
+    if (path.isAbsolute(fileName) || inside === '' || inside.startsWith('..') || path.isAbsolute(inside)) {
+      return { file: fileName, action: 'rejected', reason: `path is outside ${toRelative(root)}` };
+    }
+
+    const file = toRelative(target);
+    if (this.results.some((earlier) => earlier.file === file && earlier.action !== 'rejected')) {
+      return { file, action: 'rejected', reason: 'generated twice in the same response' };
+    }
+
+    const exists = fs.existsSync(target);
+    if (exists && fs.statSync(target).isDirectory()) {
+      return { file, action: 'rejected', reason: 'a directory with that name exists' };
+    }
+    if (exists && !isGeneratedFile(target)) {
+      return { file, action: 'rejected', reason: 'an existing file not generated by the agent has that name' };
+    }
+
+    // The model sometimes copies the header of a file it was shown
+    const body = code.startsWith(GENERATED_FILE_MARKER) ? code.slice(code.indexOf('\n') + 1) : code;
+    const content = this.header() + (body.endsWith('\n') ? body : `${body}\n`);
+    const previous = exists ? fs.readFileSync(target, 'utf-8') : null;
+
+    // The header changes with every run, so compare what follows it
+    if (previous !== null && previous.slice(previous.indexOf('\n') + 1) === content.slice(content.indexOf('\n') + 1)) {
+      return { file, action: 'unchanged' };
+    }
+
+    this.recordEdit(file, previous, content);
+
+    if (!this.dryRun) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+    }
+    return { file, action: exists ? 'updated' : 'created' };
+  }
+}
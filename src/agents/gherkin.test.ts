@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { exportGherkin, GherkinParseError, importGherkin } from './gherkin';
+import type { TestScenario } from './qaAgent';
+
+const scenarios: TestScenario[] = [
+  {
+    id: 'AC-001',
+    title: 'Sign in with valid credentials',
+    priority: 'p0',
+    tags: ['@p0', '@smoke'],
+    given: ['a registered user', 'the login page is open'],
+    when: ['they sign in'],
+    then: ['the dashboard is shown'],
+    testData: { user: { email: 'user@example.com', remember: true }, attempts: 1 },
+    citations: ['AUTH-1', 'login.md'],
+  },
+  {
+    id: 'AC-002',
+    title: 'Sign in with a wrong password',
+    priority: 'p1',
+    tags: ['@p1', '@negative'],
+    given: ['a registered user'],
+    when: ['they sign in with a wrong password'],
+    then: ['an error | with a pipe is shown'],
+    citations: [],
+  },
+];
+
+describe('exportGherkin', () => {
+  it('writes ids and priorities as tags, citations as comments and test data as Examples', () => {
+    const feature = exportGherkin('Login', scenarios, 'Generated for a test');
+
+    expect(feature).toContain('# Generated for a test\nFeature: Login');
+    expect(feature).toContain(
+      '  # Citations: AUTH-1, login.md\n  @id:AC-001 @p0 @smoke\n  Scenario Outline:'
+    );
+    expect(feature).toContain('    Given a registered user\n    And the login page is open');
+    expect(feature).toContain('      | user.email | user.remember | attempts |');
+    expect(feature).toContain(
+      '  @id:AC-002 @p1 @negative\n  Scenario: Sign in with a wrong password'
+    );
+  });
+});
+
+describe('importGherkin', () => {
+  it('round-trips exported scenarios', () => {
+    expect(importGherkin(exportGherkin('Login', scenarios))).toEqual({
+      featureName: 'Login',
+      scenarios,
+    });
+  });
+
+  it('keeps strings that look like other values as strings', () => {
+    const testData = {
+      zip: '12345',
+      flag: 'true',
+      quoted: '"SAVE10"',
+      padded: ' x ',
+      count: 3,
+      enabled: false,
+      none: null,
+      ids: [1, 2],
+    };
+    const feature = exportGherkin('Data', [{ ...scenarios[0], testData }]);
+
+    expect(feature).toContain('| "12345" | "true" |');
+    expect(importGherkin(feature).scenarios[0].testData).toEqual(testData);
+  });
+
+  it('applies Background steps and feature tags, and numbers scenarios without ids', () => {
+    const feature = importGherkin(`
+@checkout
+Feature: Checkout
+
+  Background:
+    Given a signed-in user
+
+  @P2
+  Scenario: Apply a coupon
+    Given a cart with items
+      | sku | qty |
+      | A-1 | 2   |
+    When they apply "SAVE10"
+    Then the total is reduced
+    But shipping is unchanged
+`);
+
+    expect(feature.scenarios).toEqual([
+      {
+        id: 'SC-001',
+        title: 'Apply a coupon',
+        priority: 'p2',
+        tags: ['@checkout', '@P2'],
+        given: ['a signed-in user', 'a cart with items\n| sku | qty |\n| A-1 | 2   |'],
+        when: ['they apply "SAVE10"'],
+        then: ['the total is reduced', 'shipping is unchanged'],
+        citations: [],
+      },
+    ]);
+  });
+
+  it('keeps several Examples rows', () => {
+    const feature = importGherkin(`
+Feature: Search
+  Scenario Outline: Search for <term>
+    When they search for <term>
+    Then <count> results are shown
+
+    Examples:
+      | term  | count |
+      | shoes | 12    |
+      | hats  | 0     |
+`);
+
+    expect(feature.scenarios[0].testData).toEqual({
+      examples: [
+        { term: 'shoes', count: 12 },
+        { term: 'hats', count: 0 },
+      ],
+    });
+  });
+
+  it('reports malformed files with their line', () => {
+    expect(() => importGherkin('Scenario: no feature\n  Given nothing')).toThrow(GherkinParseError);
+    expect(() =>
+      importGherkin(
+        'Feature: F\n  Scenario Outline: S\n    Examples:\n      | a | b |\n      | 1 |\n'
+      )
+    ).toThrow('Examples row has 1 cells, expected 2 (line 5)');
+  });
+});
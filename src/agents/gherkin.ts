@@ -0,0 +1,365 @@
+import type { TestScenario } from './qaAgent';
+
+/**
+ * Result of importing a Gherkin .feature file
+ */
+export interface GherkinFeature {
+  featureName: string;
+  scenarios: TestScenario[];
+}
+
+/**
+ * Thrown when a .feature file cannot be imported
+ */
+export class GherkinParseError extends Error {
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'GherkinParseError';
+  }
+}
+
+const ID_TAG_PREFIX = '@id:';
+const PRIORITY_TAG_REGEX = /^@(p[0-2])$/i;
+const CITATIONS_COMMENT_REGEX = /^#\s*Citations:\s*(.*)$/i;
+const STEP_REGEX = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+const SCENARIO_REGEX = /^(Scenario Outline|Scenario Template|Scenario|Example):\s*(.*)$/;
+
+type StepKind = 'given' | 'when' | 'then';
+
+function toTag(value: string): string {
+  const tag = value.replace(/\s+/g, '-');
+  return tag.startsWith('@') ? tag : `@${tag}`;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\n/g, '\\n');
+}
+
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  const body = line.trim().replace(/^\|/, '');
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      const next = body[++i];
+      current += next === 'n' ? '\n' : next;
+    } else if (char === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Value of an Examples cell: JSON literals (numbers, booleans, null, arrays, objects and
+ * quoted strings) are parsed, everything else stays a string
+ */
+function parseCell(raw: string): unknown {
+  if (/^(true|false|null|-?\d+(\.\d+)?|\[.*\]|\{.*\}|".*")$/.test(raw)) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
+
+/**
+ * Flatten nested test data into dotted column names, e.g. input.email
+ * Strings are written as they are unless they would read back as something else
+ * (e.g. "12345", "true" or surrounding spaces), in which case they are quoted
+ */
+function flattenTestData(data: Record<string, unknown>, prefix = ''): Record<string, string> {
+  const row: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(row, flattenTestData(value as Record<string, unknown>, column));
+    } else {
+      const plain = typeof value === 'string' && value.trim() === value && parseCell(value) === value;
+      row[column] = plain ? value : JSON.stringify(value);
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Inverse of flattenTestData
+ */
+function unflattenRow(columns: string[], cells: string[]): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  columns.forEach((column, index) => {
+    const value = parseCell(cells[index] ?? '');
+
+    const keys = column.split('.');
+    let target = data;
+    for (const key of keys.slice(0, -1)) {
+      if (typeof target[key] !== 'object' || target[key] === null) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  });
+
+  return data;
+}
+
+function formatSteps(keyword: string, steps: string[]): string[] {
+  return steps.map((step, index) => {
+    const [first, ...rest] = step.split('\n');
+    const lines = [`    ${index === 0 ? keyword : 'And'} ${first}`];
+
+    // Data tables and doc strings captured on import are kept as they are,
+    // any other multi-line text becomes a doc string
+    const isStepArgument =
+      rest.length > 0 && (rest.every((line) => line.startsWith('|')) || /^("""|```)/.test(rest[0]));
+    const argument = rest.length === 0 || isStepArgument ? rest : ['"""', ...rest, '"""'];
+    lines.push(...argument.map((line) => `      ${line}`));
+    return lines.join('\n');
+  });
+}
+
+/**
+ * Export scenarios to a Cucumber .feature file
+ * Scenario ids and priorities become tags (@id:AC-001, @p0), citations become comments
+ * and test data becomes a single-row Examples table with dotted column names
+ */
+export function exportGherkin(featureName: string, scenarios: TestScenario[], header?: string): string {
+  const lines: string[] = [];
+
+  if (header) {
+    lines.push(`# ${header}`);
+  }
+  lines.push(`Feature: ${featureName}`);
+
+  for (const scenario of scenarios) {
+    const tags = [
+      `${ID_TAG_PREFIX}${scenario.id.replace(/\s+/g, '-')}`,
+      `@${scenario.priority}`,
+      ...scenario.tags.map(toTag).filter((tag) => tag.toLowerCase() !== `@${scenario.priority}`),
+    ];
+    const examples =
+      scenario.testData && Object.keys(scenario.testData).length > 0
+        ? flattenTestData(scenario.testData)
+        : null;
+
+    lines.push('');
+    if (scenario.citations.length > 0) {
+      lines.push(`  # Citations: ${scenario.citations.join(', ')}`);
+    }
+    lines.push(`  ${[...new Set(tags)].join(' ')}`);
+    lines.push(`  ${examples ? 'Scenario Outline' : 'Scenario'}: ${scenario.title}`);
+    lines.push(...formatSteps('Given', scenario.given));
+    lines.push(...formatSteps('When', scenario.when));
+    lines.push(...formatSteps('Then', scenario.then));
+
+    if (examples) {
+      const columns = Object.keys(examples);
+      lines.push('');
+      lines.push('    Examples:');
+      lines.push(`      | ${columns.map(escapeCell).join(' | ')} |`);
+      lines.push(`      | ${columns.map((column) => escapeCell(examples[column])).join(' | ')} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Import a Cucumber .feature file (English keywords) into test scenarios
+ * Background steps are prepended to every scenario's Given steps, feature tags are
+ * inherited, and step data tables and doc strings are kept as continuation lines
+ * @throws {GherkinParseError} if the file has no Feature or malformed Examples tables
+ */
+export function importGherkin(content: string): GherkinFeature {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const feature: GherkinFeature = { featureName: '', scenarios: [] };
+
+  let featureTags: string[] = [];
+  let pendingTags: string[] = [];
+  let pendingCitations: string[] = [];
+  const background: string[] = [];
+  let current: (TestScenario & { steps: Record<StepKind, string[]> }) | null = null;
+  let inBackground = false;
+  let lastKind: StepKind = 'given';
+  let lastSteps: string[] | null = null;
+  let exampleColumns: string[] | null = null;
+  let exampleRows: Record<string, unknown>[] = [];
+  let docString: { delimiter: string; indent: number } | null = null;
+
+  const finishScenario = () => {
+    if (!current) {
+      return;
+    }
+    if (exampleRows.length === 1) {
+      current.testData = exampleRows[0];
+    } else if (exampleRows.length > 1) {
+      current.testData = { examples: exampleRows };
+    }
+
+    const { steps, ...scenario } = current;
+    feature.scenarios.push({
+      ...scenario,
+      given: [...background, ...steps.given],
+      when: steps.when,
+      then: steps.then,
+    });
+    current = null;
+    exampleColumns = null;
+    exampleRows = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const line = raw.trim();
+    const lineNumber = i + 1;
+
+    // Doc strings are appended verbatim to the step they belong to
+    if (docString) {
+      if (line === docString.delimiter) {
+        lastSteps![lastSteps!.length - 1] += `\n${line}`;
+        docString = null;
+      } else {
+        lastSteps![lastSteps!.length - 1] += `\n${raw.slice(Math.min(docString.indent, raw.search(/\S|$/)))}`;
+      }
+      continue;
+    }
+
+    if (line === '') {
+      continue;
+    }
+
+    if (line.startsWith('#')) {
+      const citations = CITATIONS_COMMENT_REGEX.exec(line);
+      if (citations) {
+        pendingCitations = citations[1]
+          .split(',')
+          .map((citation) => citation.trim())
+          .filter(Boolean);
+      }
+      continue;
+    }
+
+    if (line.startsWith('@')) {
+      pendingTags.push(...line.split(/\s+/).filter((tag) => tag.startsWith('@')));
+      continue;
+    }
+
+    if (line.startsWith('Feature:')) {
+      feature.featureName = line.slice('Feature:'.length).trim();
+      featureTags = pendingTags;
+      pendingTags = [];
+      continue;
+    }
+
+    if (line.startsWith('Background:')) {
+      finishScenario();
+      inBackground = true;
+      lastKind = 'given';
+      continue;
+    }
+
+    if (line.startsWith('Rule:')) {
+      finishScenario();
+      inBackground = false;
+      pendingTags = [];
+      continue;
+    }
+
+    const scenarioMatch = SCENARIO_REGEX.exec(line);
+    if (scenarioMatch) {
+      finishScenario();
+      inBackground = false;
+
+      const tags = [...featureTags, ...pendingTags];
+      const idTag = tags.find((tag) => tag.startsWith(ID_TAG_PREFIX));
+      const priorityTag = tags.map((tag) => PRIORITY_TAG_REGEX.exec(tag)).find(Boolean);
+
+      current = {
+        id: idTag
+          ? idTag.slice(ID_TAG_PREFIX.length)
+          : `SC-${String(feature.scenarios.length + 1).padStart(3, '0')}`,
+        title: scenarioMatch[2],
+        priority: (priorityTag?.[1].toLowerCase() as TestScenario['priority']) || 'p1',
+        tags: [...new Set(tags.filter((tag) => !tag.startsWith(ID_TAG_PREFIX)))],
+        given: [],
+        when: [],
+        then: [],
+        citations: pendingCitations,
+        steps: { given: [], when: [], then: [] },
+      };
+      pendingTags = [];
+      pendingCitations = [];
+      lastKind = 'given';
+      lastSteps = null;
+      continue;
+    }
+
+    if (line.startsWith('Examples:') || line.startsWith('Scenarios:')) {
+      if (!current) {
+        throw new GherkinParseError('Examples outside of a scenario', lineNumber);
+      }
+      exampleColumns = [];
+      lastSteps = null;
+      pendingTags = [];
+      continue;
+    }
+
+    if (line.startsWith('|')) {
+      if (exampleColumns) {
+        const cells = splitRow(line);
+        if (exampleColumns.length === 0) {
+          exampleColumns = cells;
+        } else if (cells.length !== exampleColumns.length) {
+          throw new GherkinParseError(
+            `Examples row has ${cells.length} cells, expected ${exampleColumns.length}`,
+            lineNumber
+          );
+        } else {
+          exampleRows.push(unflattenRow(exampleColumns, cells));
+        }
+      } else if (lastSteps && lastSteps.length > 0) {
+        // Step data table
+        lastSteps[lastSteps.length - 1] += `\n${line}`;
+      }
+      continue;
+    }
+
+    if ((line.startsWith('"""') || line.startsWith('```')) && lastSteps && lastSteps.length > 0) {
+      docString = { delimiter: line.slice(0, 3), indent: raw.search(/\S/) };
+      lastSteps[lastSteps.length - 1] += `\n${line}`;
+      continue;
+    }
+
+    const stepMatch = STEP_REGEX.exec(line);
+    if (stepMatch && (current || inBackground)) {
+      const [, keyword, text] = stepMatch;
+      if (keyword === 'Given' || keyword === 'When' || keyword === 'Then') {
+        lastKind = keyword.toLowerCase() as StepKind;
+      }
+      lastSteps = inBackground ? background : current!.steps[lastKind];
+      lastSteps.push(text);
+    }
+
+    // Anything else is free-form description text
+  }
+
+  finishScenario();
+
+  if (!feature.featureName) {
+    throw new GherkinParseError('No "Feature:" found', 1);
+  }
+
+  return feature;
+}
@@ -1,7 +1,15 @@
 import { getQAAgent, QAInput, QAOutput } from './qaAgent';
-import { getSDETAgent, SDETInput, SDETOutput } from './sdetAgent';
+import { getSDETAgent, SDETExecution, SDETImplementation, SDETInput, SDETOutput } from './sdetAgent';
 import { getLogger, logPhase, logSuccess, logError } from '../utils/logger';
-import { getEnvConfig } from '../utils/env';
+import { EnvConfig, getBaseUrlForEnv, getEnvConfig, TestEnvType } from '../utils/env';
+import { formatDiagnostics, typeCheckFiles } from '../utils/typeCheck';
+import { getQualityGates, QualityGateResult } from '../utils/qualityGates';
+import { getResponseCache, getUsageLedger, UsageSummary } from '../llm';
+import { checkFileDrift, createRunId, getRunStore, hashFiles, RunState } from './runStore';
+import { markScenariosForReview, summarizeReview, syncReviewedScenarios } from './scenarioReview';
+import { loadScenarioFile } from './scenarioArtifact';
+import { ScenarioFilter } from './scenarioFilter';
+import * as fs from 'fs';
 
 const logger = getLogger();
 
@@ -10,13 +18,69 @@ export interface OrchestratorInput {
   ragSourcesPath?: string;
   featureName: string;
   mode?: 'full' | 'qa-only' | 'sdet-only';
+  /**
+   * Merge new scenarios into the feature's existing plan instead of replacing it
+   */
+  incremental?: boolean;
+  /**
+   * Pause after scenario design so a reviewer can edit and approve the scenarios,
+   * then continue with `resume(runId)`
+   */
+  review?: boolean;
+  /**
+   * Existing scenarios file (.scenarios.md or .scenarios.json); required in sdet-only mode,
+   * where it replaces Phase 1
+   */
+  scenariosPath?: string;
+  /**
+   * Application URL for the SDET Agent; defaults to the URL of `testEnv`
+   */
+  baseUrl?: string;
+  /**
+   * Test environment whose URL to use when no baseUrl is given (defaults to TEST_ENV's)
+   */
+  testEnv?: TestEnvType;
+  /**
+   * Only implement the matching scenarios
+   */
+  scenarioFilter?: ScenarioFilter;
+  /**
+   * Stop after implementation without writing the generated files; their diff is still written
+   */
+  dryRun?: boolean;
+}
+
+export interface ResumeOptions {
+  /**
+   * Only implement scenarios marked approved; by default everything not rejected is
+   */
+  approvedOnly?: boolean;
+  /**
+   * Re-run from this phase instead of continuing after the last completed one;
+   * cannot skip ahead of phases that have not completed yet
+   */
+  fromPhase?: Phase;
 }
 
 export interface OrchestratorOutput {
+  runId?: string;
   phase: number;
   qaOutput?: QAOutput;
   sdetOutput?: SDETOutput;
+  /**
+   * Generated code of a dry run, which stops before the tests are executed
+   */
+  implementation?: SDETImplementation;
+  /**
+   * Results of the Phase 5 quality gates
+   */
+  qualityGates?: QualityGateResult;
+  usage?: UsageSummary;
   success: boolean;
+  /**
+   * The run stopped at the review checkpoint and waits for `resume(runId)`
+   */
+  awaitingReview?: boolean;
   message: string;
 }
 
@@ -36,6 +100,10 @@ export enum Phase {
 export class Orchestrator {
   private qaAgent = getQAAgent();
   private sdetAgent = getSDETAgent();
+  private qualityGates = getQualityGates();
+  private ledger = getUsageLedger();
+  private cache = getResponseCache();
+  private runStore = getRunStore();
   private currentPhase: Phase = Phase.INIT;
 
   constructor() {
@@ -52,92 +120,372 @@ export class Orchestrator {
       mode: input.mode || 'full',
     });
 
-    const config = getEnvConfig();
+    const now = new Date().toISOString();
+    const state: RunState = {
+      runId: createRunId(),
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      input,
+      fileHashes: {},
+    };
+
+    return this.runPhases(state, Phase.INIT);
+  }
+
+  /**
+   * Resume a saved run, by default after its last completed phase
+   * A run paused for review picks up edits to the scenarios markdown, and scenarios
+   * marked rejected are not implemented. `fromPhase` re-runs an earlier phase and
+   * everything after it, reusing the saved outputs of the phases before it
+   */
+  async resume(runId: string, options: ResumeOptions = {}): Promise<OrchestratorOutput> {
+    let state: RunState;
+    try {
+      state = this.runStore.load(runId);
+    } catch (error) {
+      return { runId, phase: this.currentPhase, success: false, message: (error as Error).message };
+    }
+
+    const nextPhase = state.completedPhase === undefined ? Phase.INIT : state.completedPhase + 1;
+    const fromPhase = options.fromPhase ?? nextPhase;
+
+    let problem: string | undefined;
+    if (state.status === 'completed' && options.fromPhase === undefined) {
+      problem = `Run ${runId} already completed; pass a phase to re-run from`;
+    } else if (fromPhase > nextPhase) {
+      problem =
+        `Run ${runId} cannot resume from Phase ${fromPhase} (${Orchestrator.getPhaseName(fromPhase)}): ` +
+        `the last completed phase is ${state.completedPhase ?? 'none'}`;
+    } else if (fromPhase > Phase.PR_CREATION) {
+      problem = `Run ${runId} has no phases left to run`;
+    }
+    if (problem) {
+      return { runId, phase: state.completedPhase ?? Phase.INIT, success: false, message: problem };
+    }
+
+    // Hand-fixed generated code is fine to resume with, deleted files are not
+    const drift = checkFileDrift(state.fileHashes);
+    if (drift.modified.length > 0) {
+      logger.warn('Generated files changed since they were recorded', { files: drift.modified });
+    }
+    const stillNeeded = drift.missing.filter((file) =>
+      fromPhase > Phase.IMPLEMENTATION || (fromPhase > Phase.SCENARIO_DESIGN && /\.scenarios\./.test(file))
+    );
+    if (stillNeeded.length > 0) {
+      return {
+        runId,
+        phase: state.completedPhase ?? Phase.INIT,
+        success: false,
+        message: `Cannot resume run ${runId} from Phase ${fromPhase}, files are missing: ${stillNeeded.join(', ')}`,
+      };
+    }
+
+    logger.info('Resuming run', {
+      runId,
+      featureName: state.input.featureName,
+      fromPhase: Orchestrator.getPhaseName(fromPhase),
+    });
+
+    return this.runPhases(state, fromPhase, options.approvedOnly);
+  }
+
+  /**
+   * Run the workflow from a phase to the end, saving the run manifest after every phase
+   */
+  private async runPhases(
+    state: RunState,
+    fromPhase: Phase,
+    approvedOnly?: boolean
+  ): Promise<OrchestratorOutput> {
+    const { runId, input } = state;
     const mode = input.mode || 'full';
+    const config = getEnvConfig();
+    const resumedAfterReview = state.status === 'awaiting-review';
+
+    // A resumed run keeps what its earlier phases spent, so the budget covers the whole run
+    this.ledger.reset(state.usage);
+    this.cache.resetStats();
+    state = this.saveRun({ ...state, status: 'running', message: undefined });
 
     try {
+      this.ledger.assertWithinBudget();
+
       // Phase 0: Initialize
-      logPhase('Phase 0', 'Initialize & Plan');
-      this.currentPhase = Phase.INIT;
-      await this.phaseInit(input);
+      if (fromPhase <= Phase.INIT) {
+        logPhase('Phase 0', 'Initialize & Plan');
+        this.setPhase(Phase.INIT);
+        await this.phaseInit(input);
+        state = this.checkpoint(state, Phase.INIT);
+      }
+
+      // Phase 1 in sdet-only mode: the scenarios already exist
+      if (fromPhase <= Phase.SCENARIO_DESIGN && mode === 'sdet-only') {
+        logPhase('Phase 1', 'Scenario Design (existing scenarios)');
+        this.setPhase(Phase.SCENARIO_DESIGN);
+        // Markdown edited since the artifact was written is synced so later phases see the edits
+        const scenarios = input.scenariosPath!.endsWith('.md')
+          ? syncReviewedScenarios(input.scenariosPath!)
+          : loadScenarioFile(input.scenariosPath!);
+        logSuccess('Phase 1', `Using ${scenarios.length} scenarios from ${input.scenariosPath}`);
+        state = this.checkpoint(
+          { ...state, implementation: undefined, execution: undefined },
+          Phase.SCENARIO_DESIGN
+        );
+      }
 
       // Phase 1: QA Agent - Scenario Design
-      logPhase('Phase 1', 'Scenario Design (QA Agent)');
-      this.currentPhase = Phase.SCENARIO_DESIGN;
-      const qaOutput = await this.phaseScenarioDesign(input);
-      logSuccess('Phase 1', `Generated ${qaOutput.scenariosPath}`);
-
-      // Stop if QA-only mode
-      if (mode === 'qa-only') {
-        return {
-          phase: this.currentPhase,
-          qaOutput,
-          success: true,
-          message: 'QA Agent completed successfully. Scenarios generated.',
-        };
+      if (fromPhase <= Phase.SCENARIO_DESIGN && mode !== 'sdet-only') {
+        logPhase('Phase 1', 'Scenario Design (QA Agent)');
+        this.setPhase(Phase.SCENARIO_DESIGN);
+        const qaOutput = await this.phaseScenarioDesign(input);
+        logSuccess('Phase 1', `Generated ${qaOutput.scenariosPath}`);
+        state = this.checkpoint(
+          { ...state, qaOutput, implementation: undefined, execution: undefined },
+          Phase.SCENARIO_DESIGN
+        );
+
+        // Stop if QA-only mode
+        if (mode === 'qa-only') {
+          this.logCacheStats();
+          this.saveRun({ ...state, status: 'completed' });
+          return {
+            runId,
+            phase: this.currentPhase,
+            qaOutput,
+            usage: this.ledger.getSummary(),
+            success: true,
+            message: 'QA Agent completed successfully. Scenarios generated.',
+          };
+        }
+
+        // Review checkpoint: persist the run and wait for a human to approve the scenarios
+        if (input.review) {
+          return this.pauseForReview(state, qaOutput);
+        }
+      }
+
+      const { qaOutput } = state;
+      const scenariosPath = qaOutput?.scenariosJsonPath ?? input.scenariosPath!;
+
+      // Pick up review edits before any code is generated from the scenarios
+      if (fromPhase > Phase.SCENARIO_DESIGN && fromPhase <= Phase.IMPLEMENTATION) {
+        this.checkReview(qaOutput?.scenariosPath ?? input.scenariosPath!, approvedOnly, resumedAfterReview);
       }
 
       // Phase 2: Setup (implicit, handled by SDET)
-      logPhase('Phase 2', 'Repository & Tooling Setup');
-      this.currentPhase = Phase.SETUP;
-      await this.phaseSetup();
+      if (fromPhase <= Phase.SETUP) {
+        logPhase('Phase 2', 'Repository & Tooling Setup');
+        this.setPhase(Phase.SETUP);
+        await this.phaseSetup();
+        state = this.checkpoint(state, Phase.SETUP);
+      }
 
       // Phase 3: SDET Agent - Implementation
-      logPhase('Phase 3', 'Test Implementation (SDET Agent)');
-      this.currentPhase = Phase.IMPLEMENTATION;
-      const sdetOutput = await this.phaseImplementation(input.featureName, qaOutput, config.testEnv.baseUrl);
-      logSuccess('Phase 3', `Implemented ${sdetOutput.testFiles.length} test files`);
+      if (fromPhase <= Phase.IMPLEMENTATION) {
+        logPhase('Phase 3', 'Test Implementation (SDET Agent)');
+        this.setPhase(Phase.IMPLEMENTATION);
+        const implementation = await this.phaseImplementation(
+          input.featureName,
+          scenariosPath,
+          this.resolveBaseUrl(input, config),
+          { approvedOnly, filter: input.scenarioFilter, runId, dryRun: input.dryRun }
+        );
+
+        // Dry run: nothing was written, so there is nothing to execute
+        if (implementation.dryRun) {
+          const fileCount = implementation.pomFiles.length + implementation.testFiles.length;
+          const message = `Dry run: ${fileCount} files would be written, review ${implementation.diffPath}`;
+          this.logCacheStats();
+          this.saveRun({ ...state, status: 'completed', message });
+          return {
+            runId,
+            phase: this.currentPhase,
+            qaOutput,
+            implementation,
+            usage: this.ledger.getSummary(),
+            success: true,
+            message,
+          };
+        }
+
+        logSuccess('Phase 3', `Implemented ${implementation.testFiles.length} test files`);
+        state = this.checkpoint({ ...state, implementation, execution: undefined }, Phase.IMPLEMENTATION);
+      }
 
       // Phase 4: Execution & Debugging
-      logPhase('Phase 4', 'Test Execution & Debugging');
-      this.currentPhase = Phase.EXECUTION;
-      await this.phaseExecution(sdetOutput);
-      logSuccess('Phase 4', `Tests executed: ${sdetOutput.testResults.passed} passed, ${sdetOutput.testResults.failed} failed`);
+      if (fromPhase <= Phase.EXECUTION) {
+        logPhase('Phase 4', 'Test Execution & Debugging');
+        this.setPhase(Phase.EXECUTION);
+        const execution = await this.phaseExecution(input.featureName, scenariosPath, state.implementation!);
+        logSuccess('Phase 4', `Tests executed: ${execution.testResults.passed} passed, ${execution.testResults.failed} failed`);
+        state = this.checkpoint({ ...state, execution }, Phase.EXECUTION);
+      }
+
+      const sdetOutput: SDETOutput = { ...state.implementation!, ...state.execution! };
+      let qualityGates: QualityGateResult | undefined;
 
       // Phase 5: Validation
-      logPhase('Phase 5', 'Quality Gates & Validation');
-      this.currentPhase = Phase.VALIDATION;
-      const validationPassed = await this.phaseValidation(sdetOutput);
-      
-      if (!validationPassed) {
-        return {
-          phase: this.currentPhase,
-          qaOutput,
-          sdetOutput,
-          success: false,
-          message: 'Quality gates not passed. Please review test results and fix failures.',
-        };
+      if (fromPhase <= Phase.VALIDATION) {
+        logPhase('Phase 5', 'Quality Gates & Validation');
+        this.setPhase(Phase.VALIDATION);
+        qualityGates = await this.phaseValidation(input, scenariosPath, sdetOutput, approvedOnly);
+
+        if (!qualityGates.passed) {
+          const failed = qualityGates.gates.filter((g) => !g.passed && g.severity === 'block');
+          const message = `Quality gates not passed:\n${failed
+            .map((g) => `  - ${g.name}: ${g.message}`)
+            .join('\n')}`;
+          this.saveRun({ ...state, status: 'failed', message });
+          return {
+            runId,
+            phase: this.currentPhase,
+            qaOutput,
+            sdetOutput,
+            qualityGates,
+            usage: this.ledger.getSummary(),
+            success: false,
+            message,
+          };
+        }
+        logSuccess('Phase 5', qualityGates.summary);
+        state = this.checkpoint(state, Phase.VALIDATION);
       }
-      logSuccess('Phase 5', 'Quality gates passed');
 
       // Phase 6: PR Creation (optional, requires GitHub integration)
       logPhase('Phase 6', 'PR Creation (Optional)');
-      this.currentPhase = Phase.PR_CREATION;
+      this.setPhase(Phase.PR_CREATION);
       // PR creation will be handled by PR workflow in Phase 7 implementation
       logSuccess('Phase 6', 'Ready for PR creation via prWorkflow');
+      state = this.checkpoint(state, Phase.PR_CREATION);
+
+      const usage = this.ledger.getSummary();
+      logger.info('LLM usage for run', {
+        calls: usage.total.calls,
+        totalTokens: usage.total.totalTokens,
+        costUsd: usage.total.costUsd.toFixed(4),
+        retries: usage.total.retries,
+      });
+      this.logCacheStats();
+
+      const message = 'Agentic workflow completed successfully!';
+      this.saveRun({ ...state, status: 'completed', message });
 
       return {
+        runId,
         phase: this.currentPhase,
         qaOutput,
         sdetOutput,
+        qualityGates,
+        usage,
         success: true,
-        message: 'Agentic workflow completed successfully!',
+        message,
       };
-
     } catch (error) {
       logError('Orchestrator', error as Error, {
+        runId,
         phase: this.currentPhase,
         featureName: input.featureName,
       });
 
+      const message = `Workflow failed at Phase ${this.currentPhase}: ${error instanceof Error ? error.message : String(error)}`;
+      this.saveRun({ ...state, status: 'failed', message });
+
       return {
+        runId,
         phase: this.currentPhase,
+        usage: this.ledger.getSummary(),
         success: false,
-        message: `Workflow failed at Phase ${this.currentPhase}: ${error instanceof Error ? error.message : String(error)}`,
+        message: `${message} (resume with: agentic-playwright run --resume ${runId})`,
       };
     }
   }
 
+  /**
+   * Save the run manifest with the LLM usage so far
+   */
+  private saveRun(state: RunState): RunState {
+    return this.runStore.save({ ...state, usage: this.ledger.getSummary() });
+  }
+
+  /**
+   * Record a completed phase and the hashes of the files generated so far
+   */
+  private checkpoint(state: RunState, phase: Phase): RunState {
+    const files = [
+      ...(state.qaOutput ? [state.qaOutput.scenariosPath, state.qaOutput.scenariosJsonPath] : []),
+      ...(state.input.scenariosPath ? [state.input.scenariosPath] : []),
+      ...(state.implementation?.pomFiles ?? []),
+      ...(state.implementation?.testFiles ?? []),
+    ];
+    return this.saveRun({ ...state, completedPhase: phase, fileHashes: hashFiles(files) });
+  }
+
+  /**
+   * Persist the run after scenario design and stop for review
+   */
+  private pauseForReview(state: RunState, qaOutput: QAOutput): OrchestratorOutput {
+    markScenariosForReview(qaOutput.scenariosPath);
+    // Re-hash: the review markers just changed the scenario files
+    const paused = this.checkpoint(state, Phase.SCENARIO_DESIGN);
+    this.saveRun({ ...paused, status: 'awaiting-review' });
+
+    logger.info('Run paused for scenario review', { runId: state.runId, scenariosPath: qaOutput.scenariosPath });
+    this.logCacheStats();
+
+    return {
+      runId: state.runId,
+      phase: this.currentPhase,
+      qaOutput,
+      usage: this.ledger.getSummary(),
+      success: true,
+      awaitingReview: true,
+      message:
+        `Scenarios are ready for review in ${qaOutput.scenariosPath}. ` +
+        `Mark scenarios approved or rejected, then resume with: agentic-playwright resume ${state.runId}`,
+    };
+  }
+
+  /**
+   * Sync review edits into the scenarios artifact and make sure something is left to implement
+   */
+  private checkReview(scenariosPath: string, approvedOnly: boolean | undefined, afterReview: boolean): void {
+    const review = summarizeReview(
+      scenariosPath.endsWith('.md') ? syncReviewedScenarios(scenariosPath) : loadScenarioFile(scenariosPath)
+    );
+    if (afterReview) {
+      logger.info('Scenario review', {
+        approved: review.approved.length,
+        rejected: review.rejected.length,
+        pending: review.pending.length,
+      });
+    }
+
+    const remaining = approvedOnly
+      ? review.approved.length
+      : review.approved.length + review.pending.length;
+    if (remaining === 0) {
+      throw new Error(
+        approvedOnly ? 'No scenarios are marked approved' : 'All scenarios were rejected during review'
+      );
+    }
+  }
+
+  /**
+   * Log response cache hit stats for the run
+   */
+  private logCacheStats(): void {
+    if (!this.cache.isEnabled()) {
+      return;
+    }
+    const stats = this.cache.getStats();
+    const lookups = stats.hits + stats.misses + stats.expired;
+    logger.info('LLM response cache', {
+      ...stats,
+      hitRate: lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : 'n/a',
+    });
+  }
+
   /**
    * Phase 0: Initialize
    */
@@ -150,16 +498,33 @@ export class Orchestrator {
     // Validate environment
     const config = getEnvConfig();
     logger.info('Environment validated', {
-      testEnv: config.testEnv.env,
-      baseUrl: config.testEnv.baseUrl,
+      testEnv: input.testEnv || config.testEnv.env,
+      baseUrl: this.resolveBaseUrl(input, config),
     });
 
     // Check gate: Required inputs present
-    if (!input.userPrompt || !input.featureName) {
+    if (input.mode === 'sdet-only') {
+      if (!input.featureName || !input.scenariosPath) {
+        throw new Error('Missing required inputs for sdet-only mode: featureName and scenariosPath');
+      }
+      if (!fs.existsSync(input.scenariosPath)) {
+        throw new Error(`Scenarios file not found: ${input.scenariosPath}`);
+      }
+    } else if (!input.userPrompt || !input.featureName) {
       throw new Error('Missing required inputs: userPrompt and featureName');
     }
   }
 
+  /**
+   * Application URL for the run: explicit baseUrl, else the URL of the chosen environment
+   */
+  private resolveBaseUrl(input: OrchestratorInput, config: EnvConfig): string {
+    if (input.baseUrl) {
+      return input.baseUrl;
+    }
+    return input.testEnv ? getBaseUrlForEnv(input.testEnv, config) : config.testEnv.baseUrl;
+  }
+
   /**
    * Phase 1: Scenario Design (QA Agent)
    */
@@ -178,6 +543,7 @@ export class Orchestrator {
       userPrompt: input.userPrompt,
       ragSources,
       featureName: input.featureName,
+      incremental: input.incremental,
     };
 
     const qaOutput = await this.qaAgent.execute(qaInput);
@@ -225,68 +591,108 @@ export class Orchestrator {
    */
   private async phaseImplementation(
     featureName: string,
-    qaOutput: QAOutput,
-    baseUrl: string
-  ): Promise<SDETOutput> {
-    logger.info('Starting implementation phase');
+    scenariosPath: string,
+    baseUrl: string,
+    options: { approvedOnly?: boolean; filter?: ScenarioFilter; runId?: string; dryRun?: boolean } = {}
+  ): Promise<SDETImplementation> {
+    logger.info('Starting implementation phase', { scenariosPath, baseUrl });
 
     const sdetInput: SDETInput = {
       featureName,
-      scenariosPath: qaOutput.scenariosPath,
+      scenariosPath,
       baseUrl,
+      approvedOnly: options.approvedOnly,
+      filter: options.filter,
+      runId: options.runId,
+      dryRun: options.dryRun,
     };
 
-    const sdetOutput = await this.sdetAgent.execute(sdetInput);
+    const implementation = await this.sdetAgent.implement(sdetInput);
 
     // Gate: Test files created
-    if (sdetOutput.testFiles.length === 0) {
+    if (implementation.testFiles.length === 0) {
       throw new Error('SDET Agent failed to generate test files');
     }
 
-    return sdetOutput;
+    return implementation;
   }
 
   /**
    * Phase 4: Execution
    */
-  private async phaseExecution(sdetOutput: SDETOutput): Promise<void> {
-    logger.info('Execution phase completed by SDET Agent', {
-      passed: sdetOutput.testResults.passed,
-      failed: sdetOutput.testResults.failed,
-    });
+  private async phaseExecution(
+    featureName: string,
+    scenariosPath: string,
+    implementation: SDETImplementation
+  ): Promise<SDETExecution> {
+    logger.info('Starting execution phase');
+
+    // Gate: Generated code type-checks (checked again here since it may have been fixed by hand)
+    const typeErrors = typeCheckFiles([...implementation.pomFiles, ...implementation.testFiles]);
+    if (typeErrors.length > 0) {
+      throw new Error(`Generated code does not type-check:\n${formatDiagnostics(typeErrors)}`);
+    }
+
+    const execution = await this.sdetAgent.runTests(
+      featureName,
+      loadScenarioFile(scenariosPath),
+      implementation.testFiles
+    );
 
-    // The SDET agent already executed tests, so we just validate the results exist
-    if (!sdetOutput.testResults) {
+    // Gate: Test results available
+    if (!execution.testResults) {
       throw new Error('No test results available');
     }
+
+    logger.info('Execution phase completed by SDET Agent', {
+      passed: execution.testResults.passed,
+      failed: execution.testResults.failed,
+    });
+
+    return execution;
   }
 
   /**
    * Phase 5: Validation (Quality Gates)
+   * Runs the gates of the quality gate policy against the scenarios that were implemented;
+   * spec-lint checks the files generated in this run
    */
-  private async phaseValidation(sdetOutput: SDETOutput): Promise<boolean> {
-    logger.info('Running quality gate validation');
-
-    const gates = {
-      allTestsPassing: sdetOutput.testResults.failed === 0,
-      stableRuns: sdetOutput.stableRuns >= 2,
-      hasTests: sdetOutput.testResults.total > 0,
-    };
-
-    logger.info('Quality gates check', gates);
+  private async phaseValidation(
+    input: OrchestratorInput,
+    scenariosPath: string,
+    sdetOutput: SDETOutput,
+    approvedOnly?: boolean
+  ): Promise<QualityGateResult> {
+    const scenarios = await this.sdetAgent.loadScenarios(scenariosPath, {
+      approvedOnly,
+      filter: input.scenarioFilter,
+    });
 
-    // All gates must pass
-    const allPassed = Object.values(gates).every(g => g === true);
+    const result = await this.qualityGates.validate(scenarios, sdetOutput.testResults, {
+      env: input.testEnv,
+      stableRuns: sdetOutput.stableRuns,
+      generatedFiles: [...sdetOutput.pomFiles, ...sdetOutput.testFiles],
+    });
 
-    if (!allPassed) {
-      logger.warn('Quality gates failed', {
-        failedTests: sdetOutput.testResults.failed,
-        stableRuns: sdetOutput.stableRuns,
-        totalTests: sdetOutput.testResults.total,
-      });
+    for (const gate of result.gates) {
+      const details = { gate: gate.id, severity: gate.severity, message: gate.message };
+      if (gate.passed) {
+        logger.info('Quality gate passed', details);
+      } else {
+        // Details carry what to fix, e.g. the file and line of each spec lint issue
+        logger.warn('Quality gate failed', { ...details, details: gate.details });
+      }
     }
 
-    return allPassed;
+    return result;
+  }
+
+  /**
+   * Enter a phase, attributing subsequent LLM usage to it
+   */
+  private setPhase(phase: Phase): void {
+    this.currentPhase = phase;
+    this.ledger.setPhase(Orchestrator.getPhaseName(phase));
   }
 
   /**
@@ -296,6 +702,20 @@ export class Orchestrator {
     return this.currentPhase;
   }
 
+  /**
+   * Parse a phase given as its number or name, e.g. "4", "execution" or "EXECUTION"
+   * @throws {Error} if the value is not a phase
+   */
+  static parsePhase(value: string): Phase {
+    const key = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+    const phase = /^\d+$/.test(key) ? Number(key) : Phase[key as keyof typeof Phase];
+    if (phase === undefined || Phase[phase] === undefined) {
+      const names = Object.keys(Phase).filter((name) => isNaN(Number(name)));
+      throw new Error(`Unknown phase "${value}", expected 0-6 or one of: ${names.join(', ').toLowerCase()}`);
+    }
+    return phase;
+  }
+
   /**
    * Get phase name
    */
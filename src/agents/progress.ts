@@ -0,0 +1,146 @@
+import { EventEmitter } from 'events';
+import { LLMUsage } from '../llm';
+
+export type AgentProgressEvent =
+  | {
+      type: 'llm-start';
+      agent: string;
+      model: string;
+    }
+  | {
+      type: 'llm-tokens';
+      agent: string;
+      /**
+       * Approximate number of tokens streamed so far (one per delta)
+       */
+      tokensReceived: number;
+    }
+  | {
+      type: 'file-detected';
+      agent: string;
+      fileName: string;
+    }
+  | {
+      type: 'llm-end';
+      agent: string;
+      tokensReceived: number;
+      durationMs: number;
+      usage?: LLMUsage;
+      /**
+       * Set when the completion failed; a retry starts a new completion
+       */
+      error?: string;
+    };
+
+export type AgentProgressListener = (event: AgentProgressEvent) => void;
+
+const FILE_MARKER_REGEX = /FILE: ([^\n`]+)\n/g;
+
+/**
+ * Agent Progress - event bus for streaming progress shared by all agents
+ */
+export class AgentProgress {
+  private emitter = new EventEmitter();
+
+  /**
+   * Subscribe to progress events
+   * @returns unsubscribe function
+   */
+  subscribe(listener: AgentProgressListener): () => void {
+    this.emitter.on('progress', listener);
+    return () => {
+      this.emitter.off('progress', listener);
+    };
+  }
+
+  /**
+   * Publish a progress event
+   */
+  emit(event: AgentProgressEvent): void {
+    this.emitter.emit('progress', event);
+  }
+
+  /**
+   * Create a tracker for a single streamed completion
+   */
+  track(agent: string, model: string): StreamTracker {
+    return new StreamTracker(this, agent, model);
+  }
+}
+
+/**
+ * Stream Tracker - turns raw deltas of one completion into progress events
+ * Detects `FILE: name` markers as soon as the line is complete
+ */
+export class StreamTracker {
+  private progress: AgentProgress;
+  private agent: string;
+  private content = '';
+  private tokensReceived = 0;
+  private scanFrom = 0;
+  private startedAt = Date.now();
+
+  constructor(progress: AgentProgress, agent: string, model: string) {
+    this.progress = progress;
+    this.agent = agent;
+    this.progress.emit({ type: 'llm-start', agent, model });
+  }
+
+  /**
+   * Record a streamed delta
+   */
+  push(delta: string): void {
+    this.content += delta;
+    this.tokensReceived++;
+    this.progress.emit({
+      type: 'llm-tokens',
+      agent: this.agent,
+      tokensReceived: this.tokensReceived,
+    });
+
+    if (delta.includes('\n')) {
+      this.detectFiles();
+    }
+  }
+
+  /**
+   * Mark the completion as finished, or as failed when an error is given
+   */
+  end(usage?: LLMUsage, error?: unknown): void {
+    this.progress.emit({
+      type: 'llm-end',
+      agent: this.agent,
+      tokensReceived: usage?.completionTokens ?? this.tokensReceived,
+      durationMs: Date.now() - this.startedAt,
+      usage,
+      error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  private detectFiles(): void {
+    FILE_MARKER_REGEX.lastIndex = this.scanFrom;
+    let match;
+
+    while ((match = FILE_MARKER_REGEX.exec(this.content)) !== null) {
+      this.scanFrom = FILE_MARKER_REGEX.lastIndex;
+      this.progress.emit({
+        type: 'file-detected',
+        agent: this.agent,
+        fileName: match[1].trim(),
+      });
+    }
+  }
+}
+
+// Singleton instance
+let progressInstance: AgentProgress | null = null;
+
+/**
+ * Get the AgentProgress singleton instance
+ */
+export function getAgentProgress(): AgentProgress {
+  if (!progressInstance) {
+    progressInstance = new AgentProgress();
+  }
+  return progressInstance;
+}
@@ -0,0 +1,194 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getEnvConfig, getProjectRoot } from '../utils/env';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger();
+
+const VARIABLE_REGEX = /{{\s*(\w+)\s*}}/g;
+
+/**
+ * Project-local override directory, picked up automatically when present
+ */
+export const PROJECT_PROMPTS_DIR = '.agentic/prompts';
+
+export interface PromptManifest {
+  version: string;
+  /**
+   * Prompt id (path relative to the prompts directory, without .md) -> description
+   */
+  prompts: Record<string, string>;
+}
+
+export interface PromptTemplate {
+  id: string;
+  content: string;
+  /**
+   * File the template was loaded from
+   */
+  source: string;
+  overridden: boolean;
+}
+
+/**
+ * Thrown when a template references variables the caller did not supply
+ */
+export class PromptVariableError extends Error {
+  constructor(promptId: string, missing: string[]) {
+    super(`Prompt ${promptId} is missing variables: ${missing.join(', ')}`);
+    this.name = 'PromptVariableError';
+  }
+}
+
+/**
+ * List the {{variables}} referenced by a template
+ */
+export function extractPromptVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_REGEX)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Substitute {{variables}} in a single pass, so values containing braces
+ * (JSON, generated code) are never substituted again
+ * @throws {PromptVariableError} if a referenced variable is not supplied
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>,
+  promptId: string = 'template'
+): string {
+  const missing = extractPromptVariables(template).filter((name) => !(name in variables));
+  if (missing.length > 0) {
+    throw new PromptVariableError(promptId, missing);
+  }
+
+  return template.replace(VARIABLE_REGEX, (_, name: string) => variables[name]);
+}
+
+/**
+ * Prompt Registry - loads agent prompts from prompts/ with per-project overrides
+ * Override directories are searched first (PROMPT_OVERRIDE_DIRS, then .agentic/prompts
+ * in the working directory), so a project can replace any single template
+ */
+export class PromptRegistry {
+  private builtInDir: string;
+  private overrideDirs: string[];
+  private manifest: PromptManifest;
+  private cache = new Map<string, PromptTemplate>();
+  private version: string | null = null;
+
+  constructor(options: { builtInDir?: string; overrideDirs?: string[] } = {}) {
+    this.builtInDir = options.builtInDir || path.join(getProjectRoot(), 'prompts');
+    this.overrideDirs = (options.overrideDirs || []).map((dir) => path.resolve(dir));
+
+    const manifestPath = path.join(this.builtInDir, 'manifest.json');
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error(`Prompt manifest not found: ${manifestPath}`);
+    }
+    this.manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as PromptManifest;
+
+    logger.debug('Prompt registry initialized', {
+      version: this.manifest.version,
+      prompts: Object.keys(this.manifest.prompts).length,
+      overrideDirs: this.overrideDirs,
+    });
+  }
+
+  /**
+   * Get a template, preferring the first override directory that defines it
+   */
+  get(id: string): PromptTemplate {
+    const cached = this.cache.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    if (!(id in this.manifest.prompts)) {
+      throw new Error(`Unknown prompt: ${id}`);
+    }
+
+    const fileName = `${id}.md`;
+    const overrideDir = this.overrideDirs.find((dir) => fs.existsSync(path.join(dir, fileName)));
+    const source = path.join(overrideDir || this.builtInDir, fileName);
+
+    if (!fs.existsSync(source)) {
+      throw new Error(`Prompt template not found: ${source}`);
+    }
+
+    const template: PromptTemplate = {
+      id,
+      content: fs.readFileSync(source, 'utf-8').trim(),
+      source,
+      overridden: !!overrideDir,
+    };
+
+    if (template.overridden) {
+      logger.info(`Using prompt override for ${id}`, { source });
+    }
+
+    this.cache.set(id, template);
+    return template;
+  }
+
+  /**
+   * Render a template with the given variables
+   * @throws {PromptVariableError} if a referenced variable is not supplied
+   */
+  render(id: string, variables: Record<string, string> = {}): string {
+    return renderTemplate(this.get(id).content, variables, id);
+  }
+
+  /**
+   * List all known prompt ids with their descriptions
+   */
+  list(): Record<string, string> {
+    return { ...this.manifest.prompts };
+  }
+
+  /**
+   * Version stamped into generated artifacts
+   * The manifest version, suffixed with a content hash when any template is overridden
+   * so artifacts from customized prompts can be told apart
+   */
+  getVersion(): string {
+    if (this.version) {
+      return this.version;
+    }
+
+    const templates = Object.keys(this.manifest.prompts).map((id) => this.get(id));
+    const overridden = templates.filter((template) => template.overridden);
+
+    if (overridden.length === 0) {
+      this.version = this.manifest.version;
+    } else {
+      const hash = crypto.createHash('sha256');
+      for (const template of overridden) {
+        hash.update(`${template.id}\n${template.content}\n`);
+      }
+      this.version = `${this.manifest.version}+${hash.digest('hex').substring(0, 8)}`;
+    }
+
+    return this.version;
+  }
+}
+
+// Singleton instance
+let registryInstance: PromptRegistry | null = null;
+
+/**
+ * Get the PromptRegistry singleton instance
+ */
+export function getPromptRegistry(): PromptRegistry {
+  if (!registryInstance) {
+    const config = getEnvConfig();
+    registryInstance = new PromptRegistry({
+      overrideDirs: [...config.prompts.overrideDirs, path.join(process.cwd(), PROJECT_PROMPTS_DIR)],
+    });
+  }
+  return registryInstance;
+}
@@ -1,6 +1,13 @@
 import { BaseAgent } from './baseAgent';
+import { getPromptRegistry } from './promptRegistry';
+import { getScenarioArtifactPath, writeScenarioArtifact, loadLatestScenarios } from './scenarioArtifact';
+import { serializeScenarios } from './scenarioDocument';
+import { mergeScenarios, ScenarioMergeResult } from './scenarioMerge';
+import { BudgetExceededError, LLMProvider } from '../llm';
 import { getRAG, RetrievalContext, RAGSourceConfig } from '../rag';
+import { getEnvConfig } from '../utils/env';
 import { getLogger } from '../utils/logger';
+import { z } from 'zod';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -10,6 +17,11 @@ export interface QAInput {
   userPrompt: string;
   ragSources: RAGSourceConfig;
   featureName: string;
+  /**
+   * Merge into the existing plan for the feature instead of overwriting it:
+   * existing ids and edits are kept, duplicates are dropped, new scenarios appended
+   */
+  incremental?: boolean;
 }
 
 export interface QAOutput {
@@ -17,6 +29,14 @@ export interface QAOutput {
   testCharter: string;
   scenarios: string;
   scenariosPath: string;
+  /**
+   * Versioned JSON scenarios artifact, the source of truth for downstream tooling
+   */
+  scenariosJsonPath: string;
+  /**
+   * What changed in the plan, for incremental runs
+   */
+  merge?: Omit<ScenarioMergeResult, 'scenarios'>;
 }
 
 export interface TestScenario {
@@ -29,26 +49,43 @@ export interface TestScenario {
   then: string[];
   testData?: Record<string, unknown>;
   citations: string[];
+  /**
+   * Reviewer decision from the approval checkpoint; rejected scenarios are not implemented
+   */
+  review?: ScenarioReviewStatus;
 }
 
-const QA_SYSTEM_PROMPT = `You are an expert QA Engineer specializing in test scenario design and requirements analysis.
-
-Your responsibilities:
-1. Analyze requirements from multiple sources (Jira, Confluence, documentation)
-2. Extract acceptance criteria and non-functional requirements
-3. Design comprehensive test scenarios using Given/When/Then format
-4. Include positive, negative, edge case, and accessibility scenarios
-5. Assign priority tags (@p0, @p1, @p2) and suite tags (@smoke, @regression, @a11y)
-6. Define test data contracts and preconditions
-7. Ensure traceability by citing sources for each requirement
-
-Best Practices:
-- Be thorough and detail-oriented
-- Consider all user roles and permissions
-- Think about error states and boundary conditions
-- Ensure scenarios are testable and unambiguous
-- Use clear, concise language
-- Always cite sources with URLs or issue keys`;
+export type ScenarioReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Schema used to validate scenarios returned by the LLM
+ * Priorities are normalized to lowercase since models often emit "P0"
+ */
+export const testScenarioSchema: z.ZodType<TestScenario, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  priority: z.preprocess(
+    (value) => (typeof value === 'string' ? value.toLowerCase() : value),
+    z.enum(['p0', 'p1', 'p2'])
+  ),
+  tags: z.array(z.string()).default([]),
+  given: z.array(z.string()),
+  when: z.array(z.string()),
+  then: z.array(z.string()),
+  testData: z.record(z.unknown()).optional(),
+  citations: z.array(z.string()).default([]),
+  review: z.preprocess(
+    (value) => (typeof value === 'string' ? value.toLowerCase() : value),
+    z.enum(['pending', 'approved', 'rejected']).optional()
+  ),
+});
+
+/**
+ * LLM responses wrap the scenario array in an object so JSON mode can be used
+ */
+const scenarioListSchema = z.object({
+  scenarios: z.array(testScenarioSchema),
+});
 
 /**
  * QA Agent - Responsible for requirements analysis and scenario generation
@@ -56,8 +93,8 @@ Best Practices:
 export class QAAgent extends BaseAgent {
   private rag = getRAG();
 
-  constructor() {
-    super('QA Agent', QA_SYSTEM_PROMPT);
+  constructor(provider?: LLMProvider) {
+    super('QA Agent', getPromptRegistry().render('qa/system'), provider);
   }
 
   /**
@@ -105,11 +142,27 @@ export class QAAgent extends BaseAgent {
     // Step 5: Define test data
     const finalScenarios = await this.defineTestData(taggedScenarios);
 
-    // Step 6: Write outputs to files
-    const output = await this.writeOutputs(input.featureName, requirements, finalScenarios);
+    // Step 6: Merge into the existing plan (incremental mode)
+    let planScenarios = finalScenarios;
+    let merge: ScenarioMergeResult | undefined;
+    if (input.incremental) {
+      merge = await this.mergeWithExistingPlan(input.featureName, finalScenarios);
+      planScenarios = merge.scenarios;
+    }
+
+    // Step 7: Write outputs to files
+    const output = await this.writeOutputs(input.featureName, requirements, planScenarios);
+    if (merge) {
+      output.merge = {
+        added: merge.added,
+        matched: merge.matched,
+        obsolete: merge.obsolete,
+        restored: merge.restored,
+      };
+    }
 
     logger.info('QA Agent execution complete', {
-      scenariosGenerated: finalScenarios.length,
+      scenariosGenerated: planScenarios.length,
       outputPath: output.scenariosPath,
     });
 
@@ -135,30 +188,17 @@ export class QAAgent extends BaseAgent {
     });
 
     // Generate requirements digest using LLM
-    const digestPrompt = `
-Analyze the following requirements context and create a comprehensive requirements digest.
-
-User Prompt: ${userPrompt}
-
-Retrieved Context:
-${context.formattedContext}
-
-Citations:
-${context.citations.map(c => `- [${c.source}] ${c.title || 'Untitled'} (${c.url || 'No URL'})`).join('\n')}
-
-Please provide:
-1. Executive summary (3-5 bullets)
-2. Functional requirements with citations
-3. Non-functional requirements (performance, a11y, security)
-4. Edge cases and error conditions
-5. Dependencies and prerequisites
-6. Any assumptions or questions
-
-Format as markdown.
-`;
+    const digestPrompt = this.renderPrompt('qa/requirements-digest', {
+      userPrompt,
+      context: context.formattedContext,
+      citations: context.citations
+        .map(c => `- [${c.source}] ${c.title || 'Untitled'} (${c.url || 'No URL'})`)
+        .join('\n'),
+    });
 
     // Fire-and-forget generation of a digest (we keep the retrieved context as the primary data)
-    await this.chat(digestPrompt, { temperature: 0.5 });
+    // Pinned so the RAG context survives context trimming in later steps
+    await this.chat(digestPrompt, { temperature: 0.5, pinned: true });
 
     logger.info('Requirements digest generated');
 
@@ -171,41 +211,27 @@ Format as markdown.
   async generateScenarios(requirements: RetrievalContext): Promise<TestScenario[]> {
     logger.info('Generating test scenarios');
 
-    const scenarioPrompt = `
-Based on the requirements context provided, generate comprehensive test scenarios.
-
-Requirements Context:
-${requirements.formattedContext}
-
-Generate scenarios in JSON format with the following structure:
-[
-  {
-    "id": "AC-001",
-    "title": "User can successfully log in with valid credentials",
-    "priority": "p0",
-    "tags": ["@smoke", "@authentication"],
-    "given": ["User is on the login page", "User has valid credentials"],
-    "when": ["User enters username and password", "User clicks login button"],
-    "then": ["User is redirected to dashboard", "Welcome message is displayed"],
-    "citations": ["JIRA-123", "DOC-456"]
-  }
-]
-
-Generate at least 5-10 scenarios covering:
-- Happy path (main user flows)
-- Authentication and authorization
-- Input validation
-- Error handling
-- Different user roles
-
-Return ONLY the JSON array.
-`;
+    const scenarioPrompt = this.renderPrompt('qa/generate-scenarios', {
+      requirementsContext: requirements.formattedContext,
+    });
 
-  const response = await this.chat(scenarioPrompt, { temperature: 0.7 });
-  const scenarios = this.parseJSON<TestScenario[]>(response.content) || [];
+    let scenarios: TestScenario[];
+    try {
+      const result = await this.chatStructured(scenarioPrompt, scenarioListSchema, {
+        temperature: 0.7,
+      });
+      scenarios = result.scenarios;
+    } catch (error) {
+      // Running out of budget must abort the run rather than fall back silently
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.warn('Failed to parse scenarios, returning empty array', { error });
+      return [];
+    }
 
-    if (!scenarios || scenarios.length === 0) {
-      logger.warn('Failed to parse scenarios, returning empty array');
+    if (scenarios.length === 0) {
+      logger.warn('LLM returned no scenarios');
       return [];
     }
 
@@ -219,29 +245,26 @@ Return ONLY the JSON array.
   async addEdgeCases(scenarios: TestScenario[]): Promise<TestScenario[]> {
     logger.info('Adding edge cases and negative scenarios');
 
-    const edgeCasePrompt = `
-Review the following test scenarios and add edge cases, negative scenarios, and boundary conditions.
-
-Existing Scenarios:
-${JSON.stringify(scenarios, null, 2)}
-
-Add scenarios for:
-- Invalid inputs and validation errors
-- Boundary conditions (min/max values, empty strings, etc.)
-- Network failures and timeouts
-- Concurrent user actions
-- Browser/device variations
-- Accessibility considerations
-
-Return the complete enhanced scenario array in JSON format (including original scenarios plus new ones).
-Return ONLY the JSON array.
-`;
+    const edgeCasePrompt = this.renderPrompt('qa/add-edge-cases', {
+      scenarios: JSON.stringify(scenarios, null, 2),
+    });
 
-    const response = await this.chat(edgeCasePrompt, { temperature: 0.7 });
-    const enhancedScenarios = this.parseJSON<TestScenario[]>(response.content);
+    let enhancedScenarios: TestScenario[];
+    try {
+      const result = await this.chatStructured(edgeCasePrompt, scenarioListSchema, {
+        temperature: 0.7,
+      });
+      enhancedScenarios = result.scenarios;
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.warn('Failed to parse enhanced scenarios, returning original', { error });
+      return scenarios;
+    }
 
-    if (!enhancedScenarios || enhancedScenarios.length === 0) {
-      logger.warn('Failed to parse enhanced scenarios, returning original');
+    if (enhancedScenarios.length === 0) {
+      logger.warn('LLM returned no enhanced scenarios, returning original');
       return scenarios;
     }
 
@@ -255,32 +278,26 @@ Return ONLY the JSON array.
   async mapToTags(scenarios: TestScenario[]): Promise<TestScenario[]> {
     logger.info('Mapping scenarios to tags and priorities');
 
-    const tagPrompt = `
-Review the following scenarios and ensure proper priority and tag assignments.
-
-Scenarios:
-${JSON.stringify(scenarios, null, 2)}
-
-Rules:
-- @p0: Critical functionality, blocks release if fails
-- @p1: Important functionality, should be tested
-- @p2: Nice-to-have, optional
-
-- @smoke: Core happy paths (5-10 most critical tests)
-- @regression: Full feature coverage
-- @a11y: Accessibility-related tests
-- @negative: Error and validation scenarios
-- @edge: Edge cases and boundary conditions
-
-Update priorities and tags accordingly. Return the complete updated array in JSON format.
-Return ONLY the JSON array.
-`;
+    const tagPrompt = this.renderPrompt('qa/map-tags', {
+      scenarios: JSON.stringify(scenarios, null, 2),
+    });
 
-    const response = await this.chat(tagPrompt, { temperature: 0.5 });
-    const taggedScenarios = this.parseJSON<TestScenario[]>(response.content);
+    let taggedScenarios: TestScenario[];
+    try {
+      const result = await this.chatStructured(tagPrompt, scenarioListSchema, {
+        temperature: 0.5,
+      });
+      taggedScenarios = result.scenarios;
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.warn('Failed to parse tagged scenarios, returning original', { error });
+      return scenarios;
+    }
 
-    if (!taggedScenarios || taggedScenarios.length === 0) {
-      logger.warn('Failed to parse tagged scenarios, returning original');
+    if (taggedScenarios.length === 0) {
+      logger.warn('LLM returned no tagged scenarios, returning original');
       return scenarios;
     }
 
@@ -294,36 +311,79 @@ Return ONLY the JSON array.
   async defineTestData(scenarios: TestScenario[]): Promise<TestScenario[]> {
     logger.info('Defining test data for scenarios');
 
-    const dataPrompt = `
-Review the following scenarios and add test data contracts where applicable.
+    const dataPrompt = this.renderPrompt('qa/define-test-data', {
+      scenarios: JSON.stringify(scenarios, null, 2),
+    });
+
+    let dataScenarios: TestScenario[];
+    try {
+      const result = await this.chatStructured(dataPrompt, scenarioListSchema, {
+        temperature: 0.5,
+      });
+      dataScenarios = result.scenarios;
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.warn('Failed to parse scenarios with data, returning original', { error });
+      return scenarios;
+    }
 
-Scenarios:
-${JSON.stringify(scenarios, null, 2)}
+    if (dataScenarios.length === 0) {
+      logger.warn('LLM returned no scenarios with data, returning original');
+      return scenarios;
+    }
 
-Add testData field with relevant inputs, expected outputs, and preconditions.
-For example:
-{
-  "testData": {
-    "input": {"username": "test@example.com", "password": "ValidPass123!"},
-    "expected": {"redirectUrl": "/dashboard", "message": "Welcome back!"},
-    "preconditions": {"userExists": true, "userActive": true}
+    logger.info('Test data defined for scenarios');
+    return dataScenarios;
   }
-}
 
-Return the complete updated array in JSON format.
-Return ONLY the JSON array.
-`;
+  /**
+   * Merge generated scenarios into the plan already on disk for the feature
+   */
+  async mergeWithExistingPlan(featureName: string, scenarios: TestScenario[]): Promise<ScenarioMergeResult> {
+    // The markdown wins over the JSON artifact when it was edited later
+    const existing = loadLatestScenarios(this.getScenariosPath(featureName));
+    if (existing.length === 0) {
+      logger.info('No existing scenarios plan, nothing to merge');
+    }
 
-    const response = await this.chat(dataPrompt, { temperature: 0.5 });
-    const dataScenarios = this.parseJSON<TestScenario[]>(response.content);
+    const merge = await mergeScenarios(existing, scenarios, {
+      similarityThreshold: getEnvConfig().qa.similarityThreshold,
+      requirementSources: await this.getIndexedSources(),
+    });
 
-    if (!dataScenarios || dataScenarios.length === 0) {
-      logger.warn('Failed to parse scenarios with data, returning original');
-      return scenarios;
+    logger.info('Merged scenarios into existing plan', {
+      existing: existing.length,
+      generated: scenarios.length,
+      duplicates: merge.matched.length,
+      added: merge.added,
+      obsolete: merge.obsolete,
+      restored: merge.restored,
+    });
+
+    return merge;
+  }
+
+  /**
+   * Sources of every indexed requirement document, for the obsolete check
+   * Retrieval only returns the most relevant chunks, so a requirement missing from this run's
+   * citations may still exist; returns undefined (skipping the check) when the index cannot be read
+   */
+  private async getIndexedSources(): Promise<string[] | undefined> {
+    try {
+      return await this.rag.getIndexedSources();
+    } catch (error) {
+      logger.warn('Could not list indexed requirement sources, skipping the obsolete check', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
     }
+  }
 
-    logger.info('Test data defined for scenarios');
-    return dataScenarios;
+  private getScenariosPath(featureName: string): string {
+    const slug = featureName.toLowerCase().replace(/\s+/g, '-');
+    return path.join(process.cwd(), 'tests', '_plans', `${slug}.scenarios.md`);
   }
 
   /**
@@ -331,7 +391,8 @@ Return ONLY the JSON array.
    */
   async writeOutputs(featureName: string, requirements: RetrievalContext, scenarios: TestScenario[]): Promise<QAOutput> {
     const slug = featureName.toLowerCase().replace(/\s+/g, '-');
-    const scenariosPath = path.join(process.cwd(), 'tests', '_plans', `${slug}.scenarios.md`);
+    const scenariosPath = this.getScenariosPath(featureName);
+    const scenariosJsonPath = getScenarioArtifactPath(scenariosPath);
 
     // Ensure directory exists
     const dir = path.dirname(scenariosPath);
@@ -358,14 +419,21 @@ Return ONLY the JSON array.
       testCharter
     );
     fs.writeFileSync(scenariosPath, scenariosDoc);
+    writeScenarioArtifact(scenariosJsonPath, {
+      featureName,
+      generatedAt: new Date().toISOString(),
+      promptVersion: getPromptRegistry().getVersion(),
+      scenarios,
+    });
 
-    logger.info('Output files written', { scenariosPath });
+    logger.info('Output files written', { scenariosPath, scenariosJsonPath });
 
     return {
       requirementsDigest,
       testCharter,
       scenarios: scenariosDoc,
       scenariosPath,
+      scenariosJsonPath,
     };
   }
 
@@ -376,6 +444,7 @@ Return ONLY the JSON array.
     return `# Requirements Digest - ${featureName}
 
 **Generated:** ${new Date().toISOString()}
+**Prompt Version:** ${getPromptRegistry().getVersion()}
 **Feature:** ${featureName}
 
 ## Retrieved Context
@@ -398,6 +467,7 @@ ${requirements.citations.map(c => `- [${c.source}] ${c.title || 'Untitled'} - ${
     return `# Test Charter - ${featureName}
 
 **Generated:** ${new Date().toISOString()}
+**Prompt Version:** ${getPromptRegistry().getVersion()}
 **Total Scenarios:** ${scenarios.length}
 **P0 Scenarios:** ${p0Count}
 **Smoke Tests:** ${smokeCount}
@@ -426,44 +496,16 @@ This test charter covers the ${featureName} feature with ${scenarios.length} com
    * Generate scenarios document
    */
   private generateScenariosDocument(featureName: string, scenarios: TestScenario[]): string {
-    let doc = `# Test Scenarios - ${featureName}
-
-**Generated:** ${new Date().toISOString()}
-**Total Scenarios:** ${scenarios.length}
-
----
-
-`;
-
-    for (const scenario of scenarios) {
-      doc += `## ${scenario.id}: ${scenario.title}
-
-**Priority:** ${scenario.priority.toUpperCase()}  
-**Tags:** ${scenario.tags.join(', ')}  
-${scenario.citations.length > 0 ? `**Citations:** ${scenario.citations.join(', ')}` : ''}
-
-### Given
-${scenario.given.map(g => `- ${g}`).join('\n')}
-
-### When
-${scenario.when.map(w => `- ${w}`).join('\n')}
-
-### Then
-${scenario.then.map(t => `- ${t}`).join('\n')}
-
-${scenario.testData ? `### Test Data
-\`\`\`json
-${JSON.stringify(scenario.testData, null, 2)}
-\`\`\`
-` : ''}
-
----
-
-`;
-    }
-
-    return doc;
+    return serializeScenarios({
+      featureName,
+      metadata: {
+        Generated: new Date().toISOString(),
+        'Prompt Version': getPromptRegistry().getVersion(),
+      },
+      scenarios,
+    });
   }
+
 }
 
 /**
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Phase } from './orchestrator';
+import { checkFileDrift, createRunId, hashFiles, RunState, RunStore } from './runStore';
+
+const run = (runId: string, createdAt: string): RunState => ({
+  runId,
+  status: 'awaiting-review',
+  createdAt,
+  updatedAt: createdAt,
+  input: { userPrompt: 'Test the checkout', featureName: 'checkout', review: true },
+  completedPhase: Phase.SCENARIO_DESIGN,
+  fileHashes: {},
+});
+
+describe('RunStore', () => {
+  let dir: string;
+  let store: RunStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-store-'));
+    store = new RunStore(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves and loads a run manifest, stamping updatedAt', () => {
+    const state = run('20261019-150239-k3f9', '2026-10-19T15:02:39.000Z');
+
+    const saved = store.save(state);
+    expect(saved.updatedAt).not.toBe(state.updatedAt);
+    expect(store.load(state.runId)).toEqual(saved);
+  });
+
+  it('lists runs newest first', () => {
+    store.save(run('20261018-090000-aaaa', '2026-10-18T09:00:00.000Z'));
+    store.save(run('20261019-090000-bbbb', '2026-10-19T09:00:00.000Z'));
+
+    expect(store.list().map((state) => state.runId)).toEqual([
+      '20261019-090000-bbbb',
+      '20261018-090000-aaaa',
+    ]);
+  });
+
+  it('rejects unknown runs and run ids that would leave the runs directory', () => {
+    expect(() => store.load('20261019-000000-none')).toThrow(
+      `Run not found: 20261019-000000-none (looked in ${dir})`
+    );
+    expect(() => store.load('../outside')).toThrow('Invalid run id: ../outside');
+  });
+});
+
+describe('createRunId', () => {
+  it('starts with the creation time so ids sort chronologically', () => {
+    expect(createRunId(new Date('2026-10-19T15:02:39Z'))).toMatch(
+      /^20261019-150239-[a-z0-9]{1,4}$/
+    );
+  });
+});
+
+describe('file drift', () => {
+  const originalCwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-drift-'));
+    process.chdir(dir);
+    fs.mkdirSync('tests');
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports generated files that were edited or deleted since they were hashed', () => {
+    fs.writeFileSync('tests/cart.spec.ts', 'test 1');
+    fs.writeFileSync('tests/checkout.spec.ts', 'test 2');
+    fs.writeFileSync('tests/login.spec.ts', 'test 3');
+    const hashes = hashFiles([
+      'tests/cart.spec.ts',
+      'tests/checkout.spec.ts',
+      'tests/login.spec.ts',
+      'tests/missing.ts',
+    ]);
+    expect(Object.keys(hashes)).toEqual([
+      'tests/cart.spec.ts',
+      'tests/checkout.spec.ts',
+      'tests/login.spec.ts',
+    ]);
+
+    fs.writeFileSync('tests/checkout.spec.ts', 'test 2, reviewed');
+    fs.rmSync('tests/login.spec.ts');
+
+    expect(checkFileDrift(hashes)).toEqual({
+      modified: ['tests/checkout.spec.ts'],
+      missing: ['tests/login.spec.ts'],
+    });
+  });
+});
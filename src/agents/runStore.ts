@@ -0,0 +1,168 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLogger } from '../utils/logger';
+import type { UsageSummary } from '../llm/usageLedger';
+import type { OrchestratorInput, Phase } from './orchestrator';
+import type { QAOutput } from './qaAgent';
+import type { SDETExecution, SDETImplementation } from './sdetAgent';
+
+const logger = getLogger();
+
+/**
+ * Where run directories are kept, relative to the working directory
+ */
+export const RUNS_DIR = '.agentic/runs';
+
+export const RUN_MANIFEST_FILE = 'manifest.json';
+
+export type RunStatus = 'running' | 'awaiting-review' | 'completed' | 'failed';
+
+/**
+ * Persisted state of an orchestrator run, written after every phase so the run can be
+ * resumed in a new process from the last completed phase (or any earlier one)
+ */
+export interface RunState {
+  runId: string;
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  input: OrchestratorInput;
+  /**
+   * Last phase that finished successfully
+   */
+  completedPhase?: Phase;
+  qaOutput?: QAOutput;
+  implementation?: SDETImplementation;
+  execution?: SDETExecution;
+  /**
+   * SHA-256 of every generated file, keyed by path relative to the working directory
+   */
+  fileHashes: Record<string, string>;
+  /**
+   * LLM usage of every phase run so far, carried over when the run is resumed
+   */
+  usage?: UsageSummary;
+  message?: string;
+}
+
+/**
+ * Generated files that changed or disappeared since the manifest was written
+ */
+export interface FileDrift {
+  modified: string[];
+  missing: string[];
+}
+
+/**
+ * Run ids sort by creation time and stay readable in a terminal, e.g. 20261019-150239-k3f9
+ */
+export function createRunId(date: Date = new Date()): string {
+  const timestamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${timestamp}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Hash files by path relative to the working directory; files that do not exist are skipped
+ */
+export function hashFiles(filePaths: string[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const filePath of filePaths) {
+    if (fs.existsSync(filePath)) {
+      const relativePath = path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join('/');
+      hashes[relativePath] = crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Compare the files recorded in a manifest with what is on disk now
+ */
+export function checkFileDrift(fileHashes: Record<string, string>): FileDrift {
+  const drift: FileDrift = { modified: [], missing: [] };
+  for (const [filePath, hash] of Object.entries(fileHashes)) {
+    if (!fs.existsSync(filePath)) {
+      drift.missing.push(filePath);
+    } else if (hashFiles([filePath])[filePath] !== hash) {
+      drift.modified.push(filePath);
+    }
+  }
+  return drift;
+}
+
+/**
+ * Stores one directory per run, holding its manifest
+ */
+export class RunStore {
+  private dir: string;
+
+  constructor(dir: string = path.join(process.cwd(), RUNS_DIR)) {
+    this.dir = dir;
+  }
+
+  /**
+   * Directory of a run, for the manifest and any other per-run artifacts
+   */
+  getRunDir(runId: string): string {
+    // Run ids come from the command line; keep them inside the runs directory
+    if (!/^[\w-]+$/.test(runId)) {
+      throw new Error(`Invalid run id: ${runId}`);
+    }
+    return path.join(this.dir, runId);
+  }
+
+  /**
+   * Write the run manifest, stamping updatedAt
+   */
+  save(state: RunState): RunState {
+    const saved: RunState = { ...state, updatedAt: new Date().toISOString() };
+    const runDir = this.getRunDir(state.runId);
+    fs.mkdirSync(runDir, { recursive: true });
+    fs.writeFileSync(path.join(runDir, RUN_MANIFEST_FILE), JSON.stringify(saved, null, 2) + '\n');
+    logger.debug('Run manifest saved', {
+      runId: state.runId,
+      status: state.status,
+      completedPhase: state.completedPhase,
+    });
+    return saved;
+  }
+
+  /**
+   * @throws {Error} if no run with this id was saved
+   */
+  load(runId: string): RunState {
+    const manifestPath = path.join(this.getRunDir(runId), RUN_MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error(`Run not found: ${runId} (looked in ${this.dir})`);
+    }
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as RunState;
+  }
+
+  /**
+   * All saved runs, newest first
+   */
+  list(): RunState[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.dir)
+      .filter((entry) => fs.existsSync(path.join(this.dir, entry, RUN_MANIFEST_FILE)))
+      .map((entry) => this.load(entry))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
+
+// Singleton instance
+let runStoreInstance: RunStore | null = null;
+
+/**
+ * Get the run store singleton instance
+ */
+export function getRunStore(): RunStore {
+  if (!runStoreInstance) {
+    runStoreInstance = new RunStore();
+  }
+  return runStoreInstance;
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadScenarioFile, writeScenarioArtifact } from './scenarioArtifact';
+import { serializeScenarios } from './scenarioDocument';
+import type { TestScenario } from './qaAgent';
+
+const scenario: TestScenario = {
+  id: 'AC-001',
+  title: 'User logs in',
+  priority: 'p0',
+  tags: ['@smoke'],
+  given: ['a registered user'],
+  when: ['they log in'],
+  then: ['the dashboard is shown'],
+  citations: ['auth.md'],
+};
+
+describe('loadScenarioFile', () => {
+  let dir: string;
+  let markdownPath: string;
+  let artifactPath: string;
+
+  const writeMarkdown = (scenarios: TestScenario[]) =>
+    fs.writeFileSync(
+      markdownPath,
+      serializeScenarios({ featureName: 'Login', metadata: {}, scenarios })
+    );
+  const writeArtifact = (scenarios: TestScenario[]) =>
+    writeScenarioArtifact(artifactPath, {
+      featureName: 'Login',
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      promptVersion: '1.0.0',
+      scenarios,
+    });
+  const setModified = (filePath: string, seconds: number) =>
+    fs.utimesSync(filePath, seconds, seconds);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scenarios-'));
+    markdownPath = path.join(dir, 'login.scenarios.md');
+    artifactPath = path.join(dir, 'login.scenarios.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prefers the artifact when the markdown is not newer', () => {
+    writeMarkdown([{ ...scenario, title: 'Stale markdown title' }]);
+    writeArtifact([scenario]);
+    setModified(markdownPath, 1000);
+    setModified(artifactPath, 2000);
+
+    expect(loadScenarioFile(markdownPath)[0].title).toBe('User logs in');
+  });
+
+  it('uses markdown edited after the artifact was written', () => {
+    writeArtifact([scenario]);
+    writeMarkdown([{ ...scenario, title: 'Edited during review' }]);
+    setModified(artifactPath, 1000);
+    setModified(markdownPath, 2000);
+
+    expect(loadScenarioFile(markdownPath)[0].title).toBe('Edited during review');
+  });
+
+  it('falls back to the artifact when the markdown is missing', () => {
+    writeArtifact([scenario]);
+
+    expect(loadScenarioFile(markdownPath)).toHaveLength(1);
+  });
+
+  it('throws when neither file exists', () => {
+    expect(() => loadScenarioFile(markdownPath)).toThrow('Scenarios file not found');
+  });
+});
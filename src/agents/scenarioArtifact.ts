@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { getAbsolutePath } from '../utils/env';
+import { getLogger } from '../utils/logger';
+import { testScenarioSchema, TestScenario } from './qaAgent';
+import { parseScenarios } from './scenarioDocument';
+
+const logger = getLogger();
+
+/**
+ * Version of the scenarios artifact format, see schemas/scenarios.schema.json
+ */
+export const SCENARIO_ARTIFACT_VERSION = 1;
+
+export const SCENARIO_SCHEMA_PATH = 'schemas/scenarios.schema.json';
+
+export interface ScenarioArtifact {
+  $schema?: string;
+  schemaVersion: typeof SCENARIO_ARTIFACT_VERSION;
+  featureName: string;
+  generatedAt: string;
+  promptVersion: string;
+  scenarios: TestScenario[];
+}
+
+/**
+ * Scenarios as accepted by quality gates and reports: already loaded, or a path
+ * to a scenarios artifact (.json) or markdown document
+ */
+export type ScenarioSource = TestScenario[] | string;
+
+// Lazy because qaAgent imports this module to write the artifact
+const scenarioArtifactSchema = z.object({
+  $schema: z.string().optional(),
+  schemaVersion: z.literal(SCENARIO_ARTIFACT_VERSION),
+  featureName: z.string(),
+  generatedAt: z.string(),
+  promptVersion: z.string(),
+  scenarios: z.array(z.lazy(() => testScenarioSchema)),
+});
+
+/**
+ * Path of the JSON artifact that belongs to a scenarios markdown document
+ */
+export function getScenarioArtifactPath(markdownPath: string): string {
+  return markdownPath.replace(/(\.scenarios)?\.md$/, '.scenarios.json');
+}
+
+/**
+ * Write a scenarios artifact, referencing the published JSON Schema for editor validation
+ */
+export function writeScenarioArtifact(
+  filePath: string,
+  artifact: Omit<ScenarioArtifact, '$schema' | 'schemaVersion'>
+): void {
+  const schemaRef = path
+    .relative(path.dirname(path.resolve(filePath)), getAbsolutePath(SCENARIO_SCHEMA_PATH))
+    .split(path.sep)
+    .join('/');
+
+  const content: ScenarioArtifact = {
+    $schema: schemaRef,
+    schemaVersion: SCENARIO_ARTIFACT_VERSION,
+    ...artifact,
+  };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(content, null, 2) + '\n');
+}
+
+/**
+ * Read and validate a scenarios artifact
+ * @throws {Error} if the file is missing, has an unsupported schema version or is invalid
+ */
+export function readScenarioArtifact(filePath: string): ScenarioArtifact {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Scenarios artifact not found: ${filePath}`);
+  }
+
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { schemaVersion?: unknown };
+  if (data.schemaVersion !== SCENARIO_ARTIFACT_VERSION) {
+    throw new Error(
+      `Unsupported scenarios schema version ${String(data.schemaVersion)} in ${filePath} ` +
+        `(expected ${SCENARIO_ARTIFACT_VERSION})`
+    );
+  }
+
+  const result = scenarioArtifactSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors.map((err) => `  - ${err.path.join('.')}: ${err.message}`);
+    throw new Error(`Invalid scenarios artifact ${filePath}:\n${issues.join('\n')}`);
+  }
+
+  return result.data as ScenarioArtifact;
+}
+
+/**
+ * Load scenarios from an artifact or markdown document
+ * For markdown, the JSON artifact next to it is the source of truth unless the markdown was
+ * edited after it was written; hand-written markdown without an artifact is parsed directly
+ */
+export function loadScenarioFile(filePath: string): TestScenario[] {
+  if (filePath.endsWith('.json')) {
+    return readScenarioArtifact(filePath).scenarios;
+  }
+
+  const artifactPath = getScenarioArtifactPath(filePath);
+  const hasMarkdown = fs.existsSync(filePath);
+  if (artifactPath !== filePath && fs.existsSync(artifactPath)) {
+    if (hasMarkdown && fs.statSync(filePath).mtimeMs > fs.statSync(artifactPath).mtimeMs) {
+      logger.warn('Scenarios markdown is newer than its JSON artifact, using the markdown', {
+        filePath,
+        artifactPath,
+      });
+    } else {
+      logger.debug('Using scenarios artifact instead of markdown', { artifactPath });
+    }
+    return loadLatestScenarios(filePath);
+  }
+
+  if (!hasMarkdown) {
+    throw new Error(`Scenarios file not found: ${filePath}`);
+  }
+  return parseScenarios(fs.readFileSync(filePath, 'utf-8')).scenarios;
+}
+
+/**
+ * Load the scenarios a reviewer last touched for a markdown document: the markdown when it
+ * was edited after the JSON artifact was written, otherwise the artifact
+ * Returns an empty list when neither file exists
+ */
+export function loadLatestScenarios(markdownPath: string): TestScenario[] {
+  const artifactPath = getScenarioArtifactPath(markdownPath);
+  const hasMarkdown = fs.existsSync(markdownPath);
+  const hasArtifact = fs.existsSync(artifactPath);
+
+  if (
+    hasMarkdown &&
+    (!hasArtifact || fs.statSync(markdownPath).mtimeMs > fs.statSync(artifactPath).mtimeMs)
+  ) {
+    return parseScenarios(fs.readFileSync(markdownPath, 'utf-8')).scenarios;
+  }
+  return hasArtifact ? readScenarioArtifact(artifactPath).scenarios : [];
+}
+
+/**
+ * Resolve a ScenarioSource to scenarios
+ */
+export function resolveScenarios(source: ScenarioSource): TestScenario[] {
+  return typeof source === 'string' ? loadScenarioFile(source) : source;
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  parseScenarios,
+  ScenarioDocument,
+  ScenarioFormatError,
+  serializeScenarios,
+} from './scenarioDocument';
+import { readScenarioArtifact, writeScenarioArtifact } from './scenarioArtifact';
+
+const doc: ScenarioDocument = {
+  featureName: 'Checkout',
+  metadata: { Generated: '2026-01-01T00:00:00.000Z', 'Prompt Version': '1.6.0' },
+  scenarios: [
+    {
+      id: 'AC-001',
+      title: 'Pay with a saved card: happy path',
+      priority: 'p0',
+      tags: ['@smoke', '@payments, cards', 'back\\slash'],
+      given: ['a cart with 2 items', 'a saved card\nending in 4242'],
+      when: ['they pay'],
+      then: ['the order is confirmed'],
+      testData: { card: '4242', items: [{ sku: 'A-1', qty: 2 }] },
+      citations: ['PAY-12', 'checkout.md'],
+      review: 'approved',
+    },
+    {
+      id: 'AC-002',
+      title: 'Pay with an expired card',
+      priority: 'p2',
+      tags: [],
+      given: ['an expired card'],
+      when: ['they pay'],
+      then: ['an error is shown'],
+      citations: [],
+    },
+  ],
+};
+
+describe('scenario markdown', () => {
+  it('round-trips every field', () => {
+    expect(parseScenarios(serializeScenarios(doc))).toEqual(doc);
+  });
+
+  it('accepts hand edits: lower-case priorities, CRLF line endings and unknown fields', () => {
+    const edited = serializeScenarios(doc)
+      .replace('**Priority:** P2', '**Priority:** p1\n**Owner:** qa-team')
+      .replace(/\n/g, '\r\n');
+
+    const parsed = parseScenarios(edited);
+
+    expect(parsed.scenarios[1].priority).toBe('p1');
+    expect(parsed.scenarios[0]).toEqual(doc.scenarios[0]);
+  });
+
+  it('reports the line of an invalid priority', () => {
+    const broken = serializeScenarios(doc).replace('**Priority:** P0', '**Priority:** urgent');
+
+    expect(() => parseScenarios(broken)).toThrow(ScenarioFormatError);
+    expect(() => parseScenarios(broken)).toThrow(
+      /Invalid priority "urgent" in scenario AC-001, .* \(line \d+\)$/
+    );
+  });
+
+  it('rejects ids that cannot be written as a heading', () => {
+    const bad = { ...doc, scenarios: [{ ...doc.scenarios[1], id: 'AC: 1' }] };
+
+    expect(() => serializeScenarios(bad)).toThrow(ScenarioFormatError);
+  });
+});
+
+describe('scenario artifact', () => {
+  it('round-trips the scenarios through the JSON artifact', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifact-'));
+    try {
+      const filePath = path.join(dir, 'checkout.scenarios.json');
+      writeScenarioArtifact(filePath, {
+        featureName: doc.featureName,
+        generatedAt: '2026-01-01T00:00:00.000Z',
+        promptVersion: '1.6.0',
+        scenarios: doc.scenarios,
+      });
+
+      expect(readScenarioArtifact(filePath).scenarios).toEqual(doc.scenarios);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects unsupported schema versions', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifact-'));
+    try {
+      const filePath = path.join(dir, 'old.scenarios.json');
+      fs.writeFileSync(filePath, JSON.stringify({ schemaVersion: 99, scenarios: [] }));
+
+      expect(() => readScenarioArtifact(filePath)).toThrow(
+        'Unsupported scenarios schema version 99'
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,253 @@
+import type { TestScenario } from './qaAgent';
+
+/**
+ * A parsed `*.scenarios.md` file
+ */
+export interface ScenarioDocument {
+  featureName: string;
+  /**
+   * Header fields such as Generated and Prompt Version, in file order
+   * (Total Scenarios is derived from the scenarios and not kept here)
+   */
+  metadata: Record<string, string>;
+  scenarios: TestScenario[];
+}
+
+/**
+ * Thrown when a scenarios document is malformed or a scenario cannot be represented
+ */
+export class ScenarioFormatError extends Error {
+  readonly line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line !== undefined ? `${message} (line ${line})` : message);
+    this.name = 'ScenarioFormatError';
+    this.line = line;
+  }
+}
+
+const TITLE_PREFIX = 'Test Scenarios - ';
+const TOTAL_FIELD = 'Total Scenarios';
+
+type StepSection = 'given' | 'when' | 'then';
+type Section = StepSection | 'testData' | null;
+
+const SECTION_HEADINGS: Record<string, Section> = {
+  given: 'given',
+  when: 'when',
+  then: 'then',
+  'test data': 'testData',
+};
+
+/**
+ * Join list values with ", ", escaping backslashes and commas inside values
+ */
+function formatList(values: string[]): string {
+  return values.map((value) => value.replace(/\\/g, '\\\\').replace(/,/g, '\\,')).join(', ');
+}
+
+/**
+ * Inverse of formatList
+ */
+function parseList(text: string): string[] {
+  const values: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      current += text[++i];
+    } else if (char === ',') {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+
+  return values.map((value) => value.trim()).filter((value) => value.length > 0);
+}
+
+/**
+ * Steps are bullet items; continuation lines of multi-line steps are indented by two spaces
+ */
+function formatSteps(steps: string[]): string {
+  return steps.map((step) => `- ${step.split('\n').join('\n  ')}`).join('\n');
+}
+
+/**
+ * Serialize scenarios to the markdown format shared by the QA and SDET agents
+ * `parseScenarios(serializeScenarios(doc))` returns an equal document
+ * @throws {ScenarioFormatError} if an id or title cannot be represented in a heading
+ */
+export function serializeScenarios(doc: ScenarioDocument): string {
+  let md = `# ${TITLE_PREFIX}${doc.featureName}\n\n`;
+
+  for (const [field, value] of Object.entries(doc.metadata)) {
+    md += `**${field}:** ${value}\n`;
+  }
+  md += `**${TOTAL_FIELD}:** ${doc.scenarios.length}\n\n---\n\n`;
+
+  for (const scenario of doc.scenarios) {
+    if (scenario.id.includes(': ') || /\n/.test(scenario.id + scenario.title)) {
+      throw new ScenarioFormatError(
+        `Scenario id/title cannot contain line breaks or ": " in the id: ${scenario.id}`
+      );
+    }
+
+    md += `## ${scenario.id}: ${scenario.title}\n\n`;
+    md += `**Priority:** ${scenario.priority.toUpperCase()}  \n`;
+    md += `**Tags:** ${formatList(scenario.tags)}  \n`;
+    if (scenario.citations.length > 0) {
+      md += `**Citations:** ${formatList(scenario.citations)}  \n`;
+    }
+    if (scenario.review) {
+      md += `**Review:** ${scenario.review}  \n`;
+    }
+    md += `\n### Given\n${formatSteps(scenario.given)}\n`;
+    md += `\n### When\n${formatSteps(scenario.when)}\n`;
+    md += `\n### Then\n${formatSteps(scenario.then)}\n`;
+
+    if (scenario.testData !== undefined) {
+      md += `\n### Test Data\n\`\`\`json\n${JSON.stringify(scenario.testData, null, 2)}\n\`\`\`\n`;
+    }
+
+    md += `\n---\n\n`;
+  }
+
+  return md;
+}
+
+/**
+ * Parse a scenarios markdown document
+ * Accepts hand-edited files: priorities in any case, sections in any order, and
+ * unknown fields or sections are ignored
+ * @throws {ScenarioFormatError} on malformed headings, priorities, review markers or test data JSON
+ */
+export function parseScenarios(content: string): ScenarioDocument {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const doc: ScenarioDocument = { featureName: '', metadata: {}, scenarios: [] };
+
+  let current: (Omit<TestScenario, 'priority'> & { priority?: TestScenario['priority'] }) | null =
+    null;
+  let currentLine = 0;
+  let section: Section = null;
+  let jsonLines: string[] | null = null;
+  let jsonStart = 0;
+
+  const finishScenario = () => {
+    if (!current) {
+      return;
+    }
+    if (!current.priority) {
+      throw new ScenarioFormatError(`Scenario ${current.id} has no priority`, currentLine);
+    }
+    doc.scenarios.push(current as TestScenario);
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+
+    // Inside the Test Data code block
+    if (jsonLines) {
+      if (line.trim().startsWith('```')) {
+        try {
+          current!.testData = JSON.parse(jsonLines.join('\n')) as Record<string, unknown>;
+        } catch (error) {
+          throw new ScenarioFormatError(
+            `Invalid test data JSON in scenario ${current!.id}: ${(error as Error).message}`,
+            jsonStart
+          );
+        }
+        jsonLines = null;
+      } else {
+        jsonLines.push(line);
+      }
+      continue;
+    }
+
+    if (line.startsWith('# ') && !current) {
+      const title = line.slice(2).trim();
+      doc.featureName = title.startsWith(TITLE_PREFIX) ? title.slice(TITLE_PREFIX.length) : title;
+      continue;
+    }
+
+    if (line.startsWith('## ')) {
+      finishScenario();
+      const match = /^## (.+?): (.*)$/.exec(line);
+      if (!match) {
+        throw new ScenarioFormatError(`Expected "## <id>: <title>", got "${line}"`, lineNumber);
+      }
+      current = { id: match[1], title: match[2], tags: [], given: [], when: [], then: [], citations: [] };
+      currentLine = lineNumber;
+      section = null;
+      continue;
+    }
+
+    if (line.startsWith('### ')) {
+      section = SECTION_HEADINGS[line.slice(4).trim().toLowerCase()] ?? null;
+      continue;
+    }
+
+    const field = /^\*\*(.+?):\*\*\s?(.*)$/.exec(line);
+    if (field) {
+      const [, name, rawValue] = field;
+      const value = rawValue.trimEnd();
+
+      if (!current) {
+        if (name !== TOTAL_FIELD) {
+          doc.metadata[name] = value;
+        }
+      } else if (name === 'Priority') {
+        const priority = value.toLowerCase();
+        if (priority !== 'p0' && priority !== 'p1' && priority !== 'p2') {
+          throw new ScenarioFormatError(
+            `Invalid priority "${value}" in scenario ${current.id}, expected P0, P1 or P2`,
+            lineNumber
+          );
+        }
+        current.priority = priority;
+      } else if (name === 'Tags') {
+        current.tags = parseList(value);
+      } else if (name === 'Citations') {
+        current.citations = parseList(value);
+      } else if (name === 'Review') {
+        const review = value.toLowerCase();
+        if (review !== 'pending' && review !== 'approved' && review !== 'rejected') {
+          throw new ScenarioFormatError(
+            `Invalid review "${value}" in scenario ${current.id}, expected approved, rejected or pending`,
+            lineNumber
+          );
+        }
+        current.review = review;
+      }
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (section === 'given' || section === 'when' || section === 'then') {
+      const steps = current[section];
+      if (line.startsWith('- ')) {
+        steps.push(line.slice(2));
+      } else if (line.startsWith('  ') && steps.length > 0) {
+        steps[steps.length - 1] += `\n${line.slice(2)}`;
+      }
+    } else if (section === 'testData' && line.trim().startsWith('```')) {
+      jsonLines = [];
+      jsonStart = lineNumber;
+    }
+  }
+
+  if (jsonLines) {
+    throw new ScenarioFormatError('Unterminated test data code block', jsonStart);
+  }
+  finishScenario();
+
+  return doc;
+}
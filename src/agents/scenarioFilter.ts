@@ -0,0 +1,52 @@
+import type { TestScenario } from './qaAgent';
+
+/**
+ * Subset of scenarios to implement
+ * Values within a field are alternatives (any id, any tag); fields combine, so
+ * `{ tags: ['@smoke'], priorities: ['p0'] }` selects P0 smoke scenarios
+ */
+export interface ScenarioFilter {
+  ids?: string[];
+  /**
+   * Tags with or without the leading @
+   */
+  tags?: string[];
+  priorities?: TestScenario['priority'][];
+}
+
+function normalizeTag(tag: string): string {
+  const lower = tag.trim().toLowerCase();
+  return lower.startsWith('@') ? lower : `@${lower}`;
+}
+
+export function isEmptyFilter(filter: ScenarioFilter | undefined): boolean {
+  return !filter || (!filter.ids?.length && !filter.tags?.length && !filter.priorities?.length);
+}
+
+/**
+ * Apply a scenario filter; priorities count as tags too, so `@p0` matches priority p0
+ */
+export function filterScenarios(scenarios: TestScenario[], filter: ScenarioFilter): TestScenario[] {
+  const ids = filter.ids?.length ? new Set(filter.ids.map((id) => id.trim().toLowerCase())) : null;
+  const tags = filter.tags?.length ? new Set(filter.tags.map(normalizeTag)) : null;
+  const priorities = filter.priorities?.length
+    ? new Set(filter.priorities.map((priority) => priority.toLowerCase()))
+    : null;
+
+  return scenarios.filter(
+    (scenario) =>
+      (!ids || ids.has(scenario.id.toLowerCase())) &&
+      (!tags ||
+        tags.has(`@${scenario.priority}`) ||
+        scenario.tags.some((tag) => tags.has(normalizeTag(tag)))) &&
+      (!priorities || priorities.has(scenario.priority))
+  );
+}
+
+/**
+ * Requested ids that match no scenario, usually typos worth reporting
+ */
+export function findUnknownIds(scenarios: TestScenario[], filter: ScenarioFilter): string[] {
+  const known = new Set(scenarios.map((scenario) => scenario.id.toLowerCase()));
+  return (filter.ids ?? []).filter((id) => !known.has(id.trim().toLowerCase()));
+}
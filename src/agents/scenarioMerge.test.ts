@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { LexicalScenarioEmbedder, mergeScenarios, OBSOLETE_TAG } from './scenarioMerge';
+import type { TestScenario } from './qaAgent';
+
+function scenario(
+  id: string,
+  title: string,
+  citations: string[],
+  tags: string[] = ['@p1']
+): TestScenario {
+  return {
+    id,
+    title,
+    priority: 'p1',
+    tags,
+    given: [`a user on the ${title.toLowerCase()} page`],
+    when: [`they ${title.toLowerCase()}`],
+    then: ['the change is saved'],
+    citations,
+  };
+}
+
+const embedder = new LexicalScenarioEmbedder();
+const options = { similarityThreshold: 0.9, embedder };
+
+describe('mergeScenarios', () => {
+  it('keeps existing scenarios, drops duplicates and continues the numbering', async () => {
+    const existing = [
+      scenario('AC-001', 'Update profile', ['profile.md']),
+      scenario('AC-002', 'Change password', ['auth.md']),
+    ];
+    const generated = [
+      scenario('SC-001', 'Change password', ['auth.md']),
+      scenario('SC-002', 'Delete account', ['auth.md']),
+    ];
+
+    const result = await mergeScenarios(existing, generated, options);
+
+    expect(result.matched).toEqual([
+      expect.objectContaining({ existingId: 'AC-002', generatedId: 'SC-001' }),
+    ]);
+    expect(result.added).toEqual(['AC-003']);
+    expect(result.scenarios.map((s) => s.id)).toEqual(['AC-001', 'AC-002', 'AC-003']);
+  });
+
+  it('tags scenarios whose cited requirements are no longer indexed as obsolete', async () => {
+    const existing = [
+      scenario('AC-001', 'Update profile', ['profile.md']),
+      scenario('AC-002', 'Change password', ['auth.md']),
+    ];
+
+    const result = await mergeScenarios(existing, [], {
+      ...options,
+      requirementSources: ['auth.md'],
+    });
+
+    expect(result.obsolete).toEqual(['AC-001']);
+    expect(result.scenarios[0].tags).toContain(OBSOLETE_TAG);
+    expect(result.scenarios[1].tags).not.toContain(OBSOLETE_TAG);
+  });
+
+  it('restores obsolete scenarios whose requirements are back', async () => {
+    const existing = [scenario('AC-001', 'Update profile', ['profile.md'], ['@p1', OBSOLETE_TAG])];
+
+    const result = await mergeScenarios(existing, [], {
+      ...options,
+      requirementSources: ['profile.md'],
+    });
+
+    expect(result.restored).toEqual(['AC-001']);
+    expect(result.scenarios[0].tags).toEqual(['@p1']);
+  });
+
+  it('does not mark regenerated scenarios obsolete', async () => {
+    const existing = [scenario('AC-001', 'Update profile', ['profile.md'])];
+    const generated = [scenario('SC-001', 'Update profile', ['profile-v2.md'])];
+
+    const result = await mergeScenarios(existing, generated, {
+      ...options,
+      requirementSources: ['profile-v2.md'],
+    });
+
+    expect(result.obsolete).toEqual([]);
+  });
+
+  it('skips the obsolete check without requirement sources', async () => {
+    const existing = [scenario('AC-001', 'Update profile', ['profile.md'])];
+
+    for (const requirementSources of [undefined, []]) {
+      const result = await mergeScenarios(existing, [], { ...options, requirementSources });
+      expect(result.obsolete).toEqual([]);
+    }
+  });
+});
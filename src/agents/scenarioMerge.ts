@@ -0,0 +1,247 @@
+import { OpenAIEmbeddingFunction } from 'chromadb';
+import { getEmbeddingApiKey, getEnvConfig } from '../utils/env';
+import { getLogger } from '../utils/logger';
+import type { TestScenario } from './qaAgent';
+
+const logger = getLogger();
+
+/**
+ * Tag added to scenarios whose cited requirements are no longer found
+ */
+export const OBSOLETE_TAG = '@obsolete';
+
+/**
+ * Turns scenario texts into vectors for similarity comparison
+ */
+export interface ScenarioEmbedder {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface ScenarioMergeOptions {
+  /**
+   * Cosine similarity at or above which a generated scenario is a duplicate of an existing one
+   */
+  similarityThreshold: number;
+  /**
+   * Requirement sources (issue keys, page ids, file names) currently indexed; existing
+   * scenarios citing none of them are marked obsolete. Omit to skip the check
+   */
+  requirementSources?: string[];
+  embedder?: ScenarioEmbedder;
+}
+
+export interface ScenarioMergeResult {
+  scenarios: TestScenario[];
+  /**
+   * Ids of generated scenarios appended to the plan (after renumbering)
+   */
+  added: string[];
+  /**
+   * Existing scenario id for each generated scenario that was recognized as a duplicate
+   */
+  matched: Array<{ existingId: string; generatedId: string; similarity: number }>;
+  /**
+   * Ids of scenarios tagged obsolete in this merge
+   */
+  obsolete: string[];
+  /**
+   * Ids of previously obsolete scenarios whose requirements are back
+   */
+  restored: string[];
+}
+
+/**
+ * Embeds with the OpenAI embedding model used for RAG indexing
+ * Without an OpenAI key `embed` throws, and merging falls back to lexical similarity
+ */
+export class OpenAIScenarioEmbedder implements ScenarioEmbedder {
+  async embed(texts: string[]): Promise<number[][]> {
+    const config = getEnvConfig();
+    const embeddingFunction = new OpenAIEmbeddingFunction({
+      openai_api_key: getEmbeddingApiKey(config),
+      openai_model: config.openai.embeddingModel,
+    });
+    return embeddingFunction.generate(texts);
+  }
+}
+
+/**
+ * Bag-of-words term frequency vectors over a shared vocabulary
+ * Only catches near-verbatim duplicates; used when embeddings are unavailable
+ */
+export class LexicalScenarioEmbedder implements ScenarioEmbedder {
+  async embed(texts: string[]): Promise<number[][]> {
+    const vocabulary = new Map<string, number>();
+    const tokenized = texts.map((text) => text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+
+    for (const tokens of tokenized) {
+      for (const token of tokens) {
+        if (!vocabulary.has(token)) {
+          vocabulary.set(token, vocabulary.size);
+        }
+      }
+    }
+
+    return tokenized.map((tokens) => {
+      const vector = new Array<number>(vocabulary.size).fill(0);
+      for (const token of tokens) {
+        vector[vocabulary.get(token)!]++;
+      }
+      return vector;
+    });
+  }
+}
+
+/**
+ * Text compared for duplicate detection: what the scenario tests, not how it is labelled
+ */
+export function scenarioText(scenario: TestScenario): string {
+  return [
+    scenario.title,
+    `Given ${scenario.given.join('; ')}`,
+    `When ${scenario.when.join('; ')}`,
+    `Then ${scenario.then.join('; ')}`,
+  ].join('\n');
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Allocates ids for new scenarios following the existing numbering, e.g. AC-012 -> AC-013
+ */
+function createIdAllocator(existing: TestScenario[]): (generatedId: string) => string {
+  const used = new Set(existing.map((scenario) => scenario.id));
+  const prefixCounts = new Map<string, number>();
+  let width = 3;
+  let next = 1;
+
+  for (const scenario of existing) {
+    const match = /^(.*?)(\d+)$/.exec(scenario.id);
+    if (match) {
+      prefixCounts.set(match[1], (prefixCounts.get(match[1]) ?? 0) + 1);
+      width = Math.max(width, match[2].length);
+      next = Math.max(next, parseInt(match[2], 10) + 1);
+    }
+  }
+
+  const prefix = [...prefixCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return (generatedId) => {
+    // Nothing to follow yet: keep the model's ids unless they collide
+    let id = prefix === undefined && !used.has(generatedId) ? generatedId : '';
+    while (!id || used.has(id)) {
+      id = `${prefix ?? 'SC-'}${String(next++).padStart(width, '0')}`;
+    }
+    used.add(id);
+    return id;
+  };
+}
+
+async function embedAll(texts: string[], embedder: ScenarioEmbedder): Promise<number[][]> {
+  try {
+    return await embedder.embed(texts);
+  } catch (error) {
+    if (embedder instanceof LexicalScenarioEmbedder) {
+      throw error;
+    }
+    logger.warn('Scenario embeddings unavailable, falling back to lexical similarity', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new LexicalScenarioEmbedder().embed(texts);
+  }
+}
+
+/**
+ * Merge newly generated scenarios into an existing plan
+ * Existing scenarios are kept verbatim (ids and human edits included); a generated scenario
+ * that is semantically the same as an existing one is dropped, the rest are appended with
+ * ids that continue the existing numbering. Existing scenarios citing requirements that are
+ * no longer present get the @obsolete tag rather than being deleted
+ */
+export async function mergeScenarios(
+  existing: TestScenario[],
+  generated: TestScenario[],
+  options: ScenarioMergeOptions
+): Promise<ScenarioMergeResult> {
+  const result: ScenarioMergeResult = { scenarios: [], added: [], matched: [], obsolete: [], restored: [] };
+  const embedder = options.embedder ?? new OpenAIScenarioEmbedder();
+
+  // Pair duplicates greedily, most similar first, each scenario matched at most once
+  const pairs: Array<{ existingIndex: number; generatedIndex: number; similarity: number }> = [];
+  if (existing.length > 0 && generated.length > 0) {
+    const vectors = await embedAll([...existing, ...generated].map(scenarioText), embedder);
+    const existingVectors = vectors.slice(0, existing.length);
+    const generatedVectors = vectors.slice(existing.length);
+
+    generatedVectors.forEach((generatedVector, generatedIndex) => {
+      existingVectors.forEach((existingVector, existingIndex) => {
+        const similarity = cosineSimilarity(existingVector, generatedVector);
+        if (similarity >= options.similarityThreshold) {
+          pairs.push({ existingIndex, generatedIndex, similarity });
+        }
+      });
+    });
+    pairs.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  const matchedExisting = new Set<number>();
+  const matchedGenerated = new Set<number>();
+  for (const pair of pairs) {
+    if (matchedExisting.has(pair.existingIndex) || matchedGenerated.has(pair.generatedIndex)) {
+      continue;
+    }
+    matchedExisting.add(pair.existingIndex);
+    matchedGenerated.add(pair.generatedIndex);
+    result.matched.push({
+      existingId: existing[pair.existingIndex].id,
+      generatedId: generated[pair.generatedIndex].id,
+      similarity: pair.similarity,
+    });
+  }
+
+  // An empty source list means nothing is indexed, which says nothing about obsolescence
+  const sources = options.requirementSources?.length ? new Set(options.requirementSources) : null;
+
+  for (const [index, scenario] of existing.entries()) {
+    const isObsolete = scenario.tags.includes(OBSOLETE_TAG);
+    const requirementsGone =
+      sources !== null &&
+      scenario.citations.length > 0 &&
+      !scenario.citations.some((citation) => sources.has(citation));
+    // Regenerating a scenario is evidence its requirements still exist
+    const stillRequired =
+      matchedExisting.has(index) || (sources !== null && scenario.citations.length > 0 && !requirementsGone);
+
+    if (!isObsolete && requirementsGone && !matchedExisting.has(index)) {
+      result.scenarios.push({ ...scenario, tags: [...scenario.tags, OBSOLETE_TAG] });
+      result.obsolete.push(scenario.id);
+    } else if (isObsolete && stillRequired) {
+      result.scenarios.push({ ...scenario, tags: scenario.tags.filter((tag) => tag !== OBSOLETE_TAG) });
+      result.restored.push(scenario.id);
+    } else {
+      result.scenarios.push(scenario);
+    }
+  }
+
+  const allocateId = createIdAllocator(existing);
+  generated.forEach((scenario, index) => {
+    if (matchedGenerated.has(index)) {
+      return;
+    }
+    const id = allocateId(scenario.id);
+    result.scenarios.push({ ...scenario, id });
+    result.added.push(id);
+  });
+
+  return result;
+}
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import { getLogger } from '../utils/logger';
+import type { ScenarioReviewStatus, TestScenario } from './qaAgent';
+import {
+  getScenarioArtifactPath,
+  loadLatestScenarios,
+  readScenarioArtifact,
+  writeScenarioArtifact,
+} from './scenarioArtifact';
+import { parseScenarios, serializeScenarios } from './scenarioDocument';
+
+const logger = getLogger();
+
+export type ReviewSummary = Record<ScenarioReviewStatus, string[]>;
+
+/**
+ * Group scenario ids by review status; scenarios without a marker count as pending
+ */
+export function summarizeReview(scenarios: TestScenario[]): ReviewSummary {
+  const summary: ReviewSummary = { pending: [], approved: [], rejected: [] };
+  for (const scenario of scenarios) {
+    summary[scenario.review ?? 'pending'].push(scenario.id);
+  }
+  return summary;
+}
+
+/**
+ * Scenarios the SDET Agent should implement: rejected ones never are, and with
+ * approvedOnly neither are scenarios the reviewer left pending
+ */
+export function selectReviewedScenarios(scenarios: TestScenario[], approvedOnly = false): TestScenario[] {
+  return scenarios.filter((scenario) =>
+    approvedOnly ? scenario.review === 'approved' : scenario.review !== 'rejected'
+  );
+}
+
+/**
+ * Rewrite the markdown and JSON artifact of a plan with the given scenarios,
+ * keeping the existing header fields
+ */
+function rewritePlan(markdownPath: string, scenarios: TestScenario[]): void {
+  const artifactPath = getScenarioArtifactPath(markdownPath);
+  const artifact = readScenarioArtifact(artifactPath);
+  const doc = fs.existsSync(markdownPath)
+    ? parseScenarios(fs.readFileSync(markdownPath, 'utf-8'))
+    : { featureName: artifact.featureName, metadata: {} };
+
+  fs.writeFileSync(markdownPath, serializeScenarios({ ...doc, scenarios }));
+  writeScenarioArtifact(artifactPath, {
+    featureName: artifact.featureName,
+    generatedAt: artifact.generatedAt,
+    promptVersion: artifact.promptVersion,
+    scenarios,
+  });
+}
+
+/**
+ * Add a `**Review:** pending` marker to every scenario without one, so reviewers
+ * only have to change the word to approved or rejected
+ */
+export function markScenariosForReview(markdownPath: string): TestScenario[] {
+  const scenarios = readScenarioArtifact(getScenarioArtifactPath(markdownPath)).scenarios.map(
+    (scenario) => (scenario.review ? scenario : { ...scenario, review: 'pending' as const })
+  );
+  rewritePlan(markdownPath, scenarios);
+  return scenarios;
+}
+
+/**
+ * Pick up review edits: when the markdown was edited after the JSON artifact was written,
+ * the artifact is regenerated from it so downstream tooling sees the reviewed plan
+ * @throws {ScenarioFormatError} if the edited markdown no longer parses
+ */
+export function syncReviewedScenarios(markdownPath: string): TestScenario[] {
+  const artifactPath = getScenarioArtifactPath(markdownPath);
+  const scenarios = loadLatestScenarios(markdownPath);
+
+  if (
+    fs.existsSync(markdownPath) &&
+    fs.existsSync(artifactPath) &&
+    fs.statSync(markdownPath).mtimeMs > fs.statSync(artifactPath).mtimeMs
+  ) {
+    logger.info('Scenarios markdown was edited during review, updating the JSON artifact', {
+      artifactPath,
+    });
+    rewritePlan(markdownPath, scenarios);
+  }
+
+  return scenarios;
+}
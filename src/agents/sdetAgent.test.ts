@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LLMProvider } from '../llm';
+import type { PlaywrightTestResult } from '../mcp/playwrightClient';
+import type { TestCaseResult } from '../utils/scenarioResults';
+import { GENERATED_FILE_MARKER } from './generatedFiles';
+import { getPromptRegistry } from './promptRegistry';
+import { formatScenarioDetails, SDETAgent } from './sdetAgent';
+import type { TestScenario } from './qaAgent';
+
+const scenario: TestScenario = {
+  id: 'AC-001',
+  title: 'User logs in with valid credentials',
+  priority: 'p0',
+  tags: ['@smoke', '@auth'],
+  given: ['a registered user'],
+  when: ['they submit the login form'],
+  then: ['the dashboard is shown'],
+  testData: { email: 'user@example.com', password: 'Secr3t!' },
+  citations: ['requirements/auth.md#login', 'requirements/auth.md#session'],
+};
+
+describe('formatScenarioDetails', () => {
+  it('passes test data and citations to the implement-tests prompt', () => {
+    const prompt = getPromptRegistry().render('sdet/implement-tests', {
+      featureName: 'Authentication',
+      pageObjects: '- LoginPage.ts',
+      specFiles: 'Generate 1-2 test spec files.',
+      scenarioDetails: formatScenarioDetails(scenario),
+    });
+
+    expect(prompt).toContain('AC-001: User logs in with valid credentials');
+    expect(prompt).toContain('Test Data: {"email":"user@example.com","password":"Secr3t!"}');
+    expect(prompt).toContain('Citations: requirements/auth.md#login, requirements/auth.md#session');
+  });
+
+  it('marks scenarios without test data or citations', () => {
+    const details = formatScenarioDetails({ ...scenario, testData: undefined, citations: [] });
+
+    expect(details).toContain('Test Data: {}');
+    expect(details).toContain('Citations: none');
+  });
+});
+
+describe('repairFailures', () => {
+  const cwd = process.cwd();
+  const spec = 'tests/e2e/login.spec.ts';
+  const original = `${GENERATED_FILE_MARKER}SDET Agent (prompts v1.6.0, run run-1)\nconst label = 'Login';\n`;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repair-'));
+    process.chdir(dir);
+    fs.mkdirSync('tests/e2e', { recursive: true });
+    fs.writeFileSync(spec, original);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const failure = (title: string): TestCaseResult => ({
+    title,
+    file: spec,
+    tags: [],
+    status: 'failed',
+    duration: 1,
+    error: 'locator not found',
+  });
+
+  /**
+   * Agent whose model always proposes the same patch and whose full runs fail the given tests
+   */
+  function agentWith(replace: string, runs: string[][]): { agent: SDETAgent; runs: number } {
+    const provider: LLMProvider = {
+      name: 'openai',
+      defaultModel: 'gpt-4o',
+      complete: async () => ({
+        model: 'gpt-4o',
+        content: `FILE: ${spec}\n<<<<<<< SEARCH\nconst label = 'Login';\n=======\n${replace}\n>>>>>>> REPLACE`,
+      }),
+    };
+    const agent = new SDETAgent(provider);
+    const state = { agent, runs: 0 };
+    const run = async (): Promise<PlaywrightTestResult> => {
+      const failed = runs[Math.min(state.runs++, runs.length - 1)];
+      const tests = ['A', 'B', 'C'].map((title) => ({
+        ...failure(title),
+        status: failed.includes(title) ? ('failed' as const) : ('passed' as const),
+      }));
+      return {
+        success: failed.length === 0,
+        passed: 3 - failed.length,
+        failed: failed.length,
+        skipped: 0,
+        total: 3,
+        duration: 1,
+        tests,
+      };
+    };
+    Object.assign(agent, { playwrightClient: { run } });
+    return state;
+  }
+
+  it('reverts a patch that fixes the failing test but breaks passing ones', async () => {
+    const { agent } = agentWith("const label = 'Sign in';", [['B', 'C']]);
+
+    const result = await agent.repairFailures('login', [failure('A')]);
+
+    expect(result.attempts[0]).toMatchObject({
+      outcome: 'reverted',
+      failuresBefore: 1,
+      failuresAfter: 2,
+    });
+    expect(result.remaining).toEqual(['A']);
+    expect(fs.readFileSync(spec, 'utf-8')).toBe(original);
+  });
+
+  it('reverts patches that leave as many tests failing', async () => {
+    const { agent } = agentWith("const label = 'Log in';", [['A', 'B']]);
+
+    const result = await agent.repairFailures('login', [failure('A')], [failure('B')]);
+
+    expect(result.attempts.map((attempt) => attempt.outcome)).toEqual([
+      'reverted',
+      'reverted',
+      'reverted',
+    ]);
+    expect(fs.readFileSync(spec, 'utf-8')).toBe(original);
+  });
+
+  it('keeps a patch that lowers the failures of the whole feature', async () => {
+    const { agent } = agentWith("const label = 'Sign in';", [['B']]);
+
+    const result = await agent.repairFailures('login', [failure('A')], [failure('B')]);
+
+    expect(result.attempts).toEqual([
+      expect.objectContaining({ outcome: 'fixed', failuresBefore: 2, failuresAfter: 1 }),
+    ]);
+    expect(result.remaining).toEqual([]);
+    expect(fs.readFileSync(spec, 'utf-8')).toContain("const label = 'Sign in';");
+  });
+});
+
+describe('implementTests and executeTests', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'implement-'));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('implements every scenario in batches, each in spec files of its own', async () => {
+    const prompts: string[] = [];
+    const provider: LLMProvider = {
+      name: 'openai',
+      defaultModel: 'gpt-4o',
+      complete: async (request) => {
+        const prompt = String(request.messages[request.messages.length - 1].content);
+        prompts.push(prompt);
+        const part = /names start with checkout-(\d+)/.exec(prompt)?.[1];
+        const ids = [...prompt.matchAll(/^(AC-\d+):/gm)].map((match) => match[1]);
+        const tests = ids.map((id) => `test('${id}: works @p1', async () => {});`).join('\n');
+        return {
+          model: 'gpt-4o',
+          content: `FILE: checkout-${part}.spec.ts\n\`\`\`typescript\n${tests}\n\`\`\``,
+        };
+      },
+    };
+    const scenarios = Array.from({ length: 12 }, (_, index) => ({
+      ...scenario,
+      id: `AC-${String(index + 1).padStart(3, '0')}`,
+    }));
+
+    const files = await new SDETAgent(provider).implementTests('Checkout', scenarios, []);
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('These are scenarios 11-12 of 12');
+    expect(files.map((file) => path.relative(process.cwd(), file))).toEqual([
+      path.join('tests', 'e2e', 'checkout-1.spec.ts'),
+      path.join('tests', 'e2e', 'checkout-2.spec.ts'),
+    ]);
+    expect(fs.readFileSync(files[1], 'utf-8')).toContain("test('AC-012: works @p1'");
+  });
+
+  it('runs every spec file and combines the results', async () => {
+    const agent = new SDETAgent({
+      name: 'openai',
+      defaultModel: 'gpt-4o',
+      complete: async () => ({ content: '', model: 'gpt-4o' }),
+    });
+    const testPaths: string[] = [];
+    const run = async (options: { testPath?: string }): Promise<PlaywrightTestResult> => {
+      testPaths.push(options.testPath!);
+      const failed = options.testPath!.endsWith('checkout-2.spec.ts') ? 1 : 0;
+      return {
+        success: failed === 0,
+        passed: 2 - failed,
+        failed,
+        skipped: 0,
+        total: 2,
+        duration: 5,
+      };
+    };
+    Object.assign(agent, { playwrightClient: { run } });
+
+    const result = await agent.executeTests('Checkout', [
+      path.join(process.cwd(), 'tests/e2e/checkout-1.spec.ts'),
+      'tests/e2e/checkout-2.spec.ts',
+    ]);
+
+    expect(testPaths).toEqual(['tests/e2e/checkout-1.spec.ts', 'tests/e2e/checkout-2.spec.ts']);
+    expect(result).toMatchObject({ success: false, passed: 3, failed: 1, total: 4, duration: 10 });
+  });
+});
@@ -1,45 +1,117 @@
 import { BaseAgent } from './baseAgent';
+import { getPromptRegistry } from './promptRegistry';
+import { loadScenarioFile } from './scenarioArtifact';
+import { selectReviewedScenarios } from './scenarioReview';
+import { filterScenarios, findUnknownIds, isEmptyFilter, ScenarioFilter } from './scenarioFilter';
+import { LLMProvider } from '../llm';
 import { TestScenario } from './qaAgent';
 import { getPlaywrightClient, PlaywrightTestResult } from '../mcp/playwrightClient';
+import { createRunId } from './runStore';
+import { GeneratedFileResult, GeneratedFileWriter } from './generatedFiles';
+import {
+  applyPatches,
+  findRepairableFiles,
+  parsePatches,
+  readFailureSnapshot,
+  RepairAttempt,
+  RepairLog,
+  REPAIRS_DIR,
+  SpecRepairResult,
+} from './specRepair';
+import { classifyByHeuristics, failureClassificationsSchema } from './failureClassifier';
+import { extractScenarioId, TestCaseResult } from '../utils/scenarioResults';
+import { formatFailureDigest, readTestTrace } from '../utils/traceReader';
+import { formatDiagnostics, TypeCheckDiagnostic, typeCheckFiles } from '../utils/typeCheck';
 import { getLogger } from '../utils/logger';
+import { getEnvConfig } from '../utils/env';
+import { BrowserSession, createSDETTools } from './sdetTools';
 import * as fs from 'fs';
 import * as path from 'path';
 
 const logger = getLogger();
 
+/**
+ * Scenarios per implement-tests prompt; larger features are implemented in several batches
+ */
+const SCENARIO_BATCH_SIZE = 10;
+
 export interface SDETInput {
   featureName: string;
   scenariosPath: string;
   baseUrl: string;
+  /**
+   * Only implement scenarios a reviewer marked approved (rejected ones are always skipped)
+   */
+  approvedOnly?: boolean;
+  /**
+   * Only implement the matching scenarios
+   */
+  filter?: ScenarioFilter;
+  /**
+   * Run id stamped into generated files and naming their diff; a new one by default
+   */
+  runId?: string;
+  /**
+   * Generate the code and its diff without writing any file under src/pages or tests/e2e
+   */
+  dryRun?: boolean;
 }
 
-export interface SDETOutput {
+/**
+ * Generated code (Phase 3)
+ */
+export interface SDETImplementation {
   pomFiles: string[];
   testFiles: string[];
+  /**
+   * What happened to every file the model produced, including rejected ones
+   */
+  generatedFiles?: GeneratedFileResult[];
+  /**
+   * Unified diff of the generated files, relative to the working directory
+   */
+  diffPath?: string;
+  dryRun?: boolean;
+  /**
+   * Type errors left after the model's fix attempts; the tests are not run while there are any
+   */
+  typeErrors?: TypeCheckDiagnostic[];
+}
+
+/**
+ * Test runs against the generated code (Phase 4)
+ */
+export interface SDETExecution {
   testResults: PlaywrightTestResult;
   stableRuns: number;
+  /**
+   * Self-healing attempts made on failing tests, if any failed because of the test code
+   */
+  repair?: SpecRepairResult;
+  /**
+   * Tests failing in the final run, each with its classification
+   */
+  failures?: TestCaseResult[];
 }
 
-const SDET_SYSTEM_PROMPT = `You are an expert SDET (Software Development Engineer in Test) specializing in Playwright test automation with TypeScript.
-
-Your responsibilities:
-1. Design Page Object Models (POM) following best practices
-2. Implement Playwright Test specifications using TypeScript
-3. Use semantic, accessible selectors (getByRole, getByLabel, etc.)
-4. Ensure deterministic, stable tests (no sleeps, use expect() with auto-waiting)
-5. Implement test fixtures for authentication and data setup
-6. Add accessibility checks where appropriate
-7. Debug and fix test failures using traces
-
-Best Practices:
-- Use Page Object Model pattern consistently
-- Prefer semantic selectors over CSS/XPath
-- Never use arbitrary waits or sleeps
-- Ensure test isolation and idempotency
-- Add meaningful assertions with expect()
-- Use fixtures for setup/teardown
-- Tag tests appropriately
-- Follow TypeScript best practices`;
+export interface SDETOutput extends SDETImplementation, SDETExecution {}
+
+/**
+ * Scenario block for the implement-tests prompt, with the test data the spec should use
+ * and the requirement sources it traces back to
+ */
+export function formatScenarioDetails(s: TestScenario): string {
+  return `
+${s.id}: ${s.title}
+Priority: ${s.priority}
+Tags: ${s.tags.join(', ')}
+Given: ${s.given.join(', ')}
+When: ${s.when.join(', ')}
+Then: ${s.then.join(', ')}
+Test Data: ${JSON.stringify(s.testData ?? {})}
+Citations: ${s.citations.length > 0 ? s.citations.join(', ') : 'none'}
+`;
+}
 
 /**
  * SDET Agent - Responsible for test implementation and execution
@@ -47,8 +119,8 @@ Best Practices:
 export class SDETAgent extends BaseAgent {
   private playwrightClient = getPlaywrightClient();
 
-  constructor() {
-    super('SDET Agent', SDET_SYSTEM_PROMPT);
+  constructor(provider?: LLMProvider) {
+    super('SDET Agent', getPromptRegistry().render('sdet/system'), provider);
   }
 
   /**
@@ -77,271 +149,629 @@ export class SDETAgent extends BaseAgent {
       scenariosPath: input.scenariosPath,
     });
 
+    const implementation = await this.implement(input);
+    if (implementation.typeErrors?.length) {
+      throw new Error(`Generated code does not type-check:\n${formatDiagnostics(implementation.typeErrors)}`);
+    }
+    const execution = await this.runTests(
+      input.featureName,
+      loadScenarioFile(input.scenariosPath),
+      implementation.testFiles
+    );
+
+    logger.info('SDET Agent execution complete', {
+      pomFiles: implementation.pomFiles.length,
+      testFiles: implementation.testFiles.length,
+      passed: execution.testResults.passed,
+      failed: execution.testResults.failed,
+      stableRuns: execution.stableRuns,
+    });
+
+    return { ...implementation, ...execution };
+  }
+
+  /**
+   * Generate page objects and tests for the scenarios, without running them
+   */
+  async implement(input: SDETInput): Promise<SDETImplementation> {
     // Step 1: Load scenarios
-    const scenarios = await this.loadScenarios(input.scenariosPath);
+    const scenarios = await this.loadScenarios(input.scenariosPath, {
+      approvedOnly: input.approvedOnly,
+      filter: input.filter,
+    });
 
-    // Step 2: Design POMs
-    const pomFiles = await this.designPOM(input.featureName, scenarios, input.baseUrl);
+    // Step 2: Explore the application to ground selectors in the real UI
+    const appNotes = await this.exploreApplication(input.featureName, scenarios, input.baseUrl);
 
-    // Step 3: Implement tests
-    const testFiles = await this.implementTests(input.featureName, scenarios, pomFiles);
+    const writer = this.createFileWriter(input.runId, input.dryRun);
 
-    // Step 4: Execute tests
-    const testResults = await this.executeTests(input.featureName);
+    // Step 3: Design POMs
+    const pomFiles = await this.designPOM(input.featureName, scenarios, input.baseUrl, appNotes, writer);
 
-    // Step 5: Debug failures if any
-    if (testResults.failed > 0) {
-      await this.debugFailures(testResults);
-      // Re-run after fixes
-      const rerunResults = await this.executeTests(input.featureName);
-      if (rerunResults.failed > 0) {
-        logger.warn('Tests still failing after debug attempt');
-      }
-    }
+    // Step 4: Implement tests
+    const testFiles = await this.implementTests(input.featureName, scenarios, pomFiles, writer);
 
-    // Step 6: Validate stability
-    const stableRuns = await this.validateStability(input.featureName);
+    // Step 5: Type-check the generated code, letting the model fix what does not compile
+    const typeErrors = writer.dryRun ? [] : await this.fixTypeErrors([...pomFiles, ...testFiles], writer);
 
-    logger.info('SDET Agent execution complete', {
-      pomFiles: pomFiles.length,
-      testFiles: testFiles.length,
-      passed: testResults.passed,
-      failed: testResults.failed,
-      stableRuns,
-    });
+    const rejected = writer.results.filter((result) => result.action === 'rejected');
+    if (rejected.length > 0) {
+      logger.warn(`Rejected ${rejected.length} generated files`, {
+        files: rejected.map((result) => `${result.file}: ${result.reason}`),
+      });
+    }
+    logger.info(`${writer.dryRun ? 'Dry run, nothing written. ' : ''}Diff of generated files: ${writer.diffPath}`);
 
     return {
       pomFiles,
       testFiles,
-      testResults,
-      stableRuns,
+      generatedFiles: writer.results,
+      diffPath: writer.diffPath,
+      dryRun: writer.dryRun,
+      typeErrors: typeErrors.length > 0 ? typeErrors : undefined,
     };
   }
 
   /**
-   * Load scenarios from file
+   * Type-check generated files in-process and give the model the compiler errors to fix,
+   * up to SDET_COMPILE_ATTEMPTS times
+   * @param writer - Records the fixes in the run's diff
+   * @returns The type errors left after the last attempt
    */
-  async loadScenarios(scenariosPath: string): Promise<TestScenario[]> {
-    logger.info('Loading scenarios', { scenariosPath });
+  async fixTypeErrors(files: string[], writer?: GeneratedFileWriter): Promise<TypeCheckDiagnostic[]> {
+    const maxAttempts = getEnvConfig().sdet.compileAttempts;
+    const relative = files.map((file) => path.relative(process.cwd(), file).split(path.sep).join('/'));
+    let diagnostics = typeCheckFiles(files);
+
+    for (let attempt = 1; attempt <= maxAttempts && diagnostics.length > 0; attempt++) {
+      logger.info(`Generated code has ${diagnostics.length} type errors, fix attempt ${attempt}/${maxAttempts}`);
+
+      const sources = new Map(relative.map((file) => [file, fs.readFileSync(file, 'utf-8')]));
+      const response = await this.chat(
+        this.renderPrompt('sdet/fix-type-errors', {
+          diagnostics: formatDiagnostics(diagnostics),
+          sources: this.formatSources(sources),
+        }),
+        { temperature: 0.2, maxTokens: 8000 }
+      );
+
+      try {
+        const patched = applyPatches(parsePatches(response.content), relative);
+        for (const [file, content] of patched) {
+          writer?.recordEdit(file, sources.get(file)!, content);
+        }
+      } catch (error) {
+        logger.warn('Could not apply the type error fix', { attempt, error: (error as Error).message });
+        continue;
+      }
 
-    if (!fs.existsSync(scenariosPath)) {
-      throw new Error(`Scenarios file not found: ${scenariosPath}`);
+      diagnostics = typeCheckFiles(files);
     }
 
-    const content = fs.readFileSync(scenariosPath, 'utf-8');
-    
-    // Parse scenarios from markdown (simplified parsing)
-    const scenarios: TestScenario[] = [];
-    const scenarioRegex = /## ([\w-]+): (.+?)\n\n\*\*Priority:\*\* (p[0-2])/g;
-    let match;
+    if (diagnostics.length > 0) {
+      logger.warn(`Generated code still has ${diagnostics.length} type errors`, {
+        errors: formatDiagnostics(diagnostics).split('\n').slice(0, 20),
+      });
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Run the feature's tests, debug failures and check stability
+   * @param specFiles - Spec files generated for the feature; defaults to tests/e2e/<feature>.spec.ts
+   */
+  async runTests(
+    featureName: string,
+    scenarios: TestScenario[] = [],
+    specFiles: string[] = [this.featureSpec(featureName)]
+  ): Promise<SDETExecution> {
+    // Step 6: Execute tests
+    let testResults = await this.executeTests(featureName, specFiles);
+    let failures = await this.classifyFailures(this.failingTests(testResults, featureName), scenarios);
+
+    // Step 7: Repair the failures caused by the test code; product bugs and environment
+    // issues are reported instead
+    let repair: SpecRepairResult | undefined;
+    const testBugs = failures.filter((test) => test.classification?.kind === 'test-bug');
+    if (testBugs.length < failures.length) {
+      logger.info('Leaving failures not caused by the test code unrepaired', {
+        failures: failures
+          .filter((test) => !testBugs.includes(test))
+          .map((test) => `${test.title}: ${test.classification?.category}`),
+      });
+    }
+    if (testBugs.length > 0) {
+      repair = await this.repairFailures(
+        featureName,
+        testBugs,
+        failures.filter((test) => !testBugs.includes(test)),
+        specFiles
+      );
+      // Re-run everything: patched page objects are shared with tests that were passing
+      testResults = await this.executeTests(featureName, specFiles);
+      failures = await this.classifyFailures(this.failingTests(testResults, featureName), scenarios, failures);
+      if (failures.length > 0) {
+        logger.warn('Tests still failing after repair attempts');
+      }
+    }
+
+    // Step 8: Validate stability
+    const stableRuns = await this.validateStability(featureName, specFiles);
+
+    return { testResults, stableRuns, repair, failures };
+  }
+
+  /**
+   * Load scenarios from the JSON artifact (or a markdown document without one),
+   * leaving out scenarios rejected at the review checkpoint and those outside the filter
+   * @throws {Error} if no scenario is left to implement
+   */
+  async loadScenarios(
+    scenariosPath: string,
+    options: { approvedOnly?: boolean; filter?: ScenarioFilter } = {}
+  ): Promise<TestScenario[]> {
+    logger.info('Loading scenarios', { scenariosPath });
+
+    const allScenarios = loadScenarioFile(scenariosPath);
+    const reviewed = selectReviewedScenarios(allScenarios, options.approvedOnly);
+
+    if (reviewed.length < allScenarios.length) {
+      const skipped = allScenarios.filter((scenario) => !reviewed.includes(scenario));
+      logger.info(`Skipping ${skipped.length} scenarios not approved for implementation`, {
+        ids: skipped.map((scenario) => scenario.id),
+      });
+    }
 
-    while ((match = scenarioRegex.exec(content)) !== null) {
-      scenarios.push({
-        id: match[1],
-        title: match[2],
-        priority: match[3] as 'p0' | 'p1' | 'p2',
-        tags: [],
-        given: [],
-        when: [],
-        then: [],
-        citations: [],
+    let scenarios = reviewed;
+    if (options.filter && !isEmptyFilter(options.filter)) {
+      const unknownIds = findUnknownIds(allScenarios, options.filter);
+      if (unknownIds.length > 0) {
+        logger.warn('Scenario ids not found in scenarios file', { ids: unknownIds, scenariosPath });
+      }
+      scenarios = filterScenarios(reviewed, options.filter);
+      logger.info(`Filter selected ${scenarios.length} of ${reviewed.length} scenarios`, {
+        filter: options.filter,
       });
     }
 
+    if (scenarios.length === 0) {
+      throw new Error(`No scenarios to implement from ${scenariosPath}`);
+    }
+
     logger.info(`Loaded ${scenarios.length} scenarios`);
     return scenarios;
   }
 
   /**
-   * Design Page Object Models
+   * Explore the application with browser tools before writing any code
+   * Returns the agent's notes on pages, roles and accessible names it observed,
+   * or an empty string when exploration is disabled or the browser is unavailable
    */
-  async designPOM(featureName: string, scenarios: TestScenario[], baseUrl: string): Promise<string[]> {
-    logger.info('Designing Page Object Models');
-
-    const pomPrompt = `
-Design Page Object Models for the following test scenarios.
+  async exploreApplication(featureName: string, scenarios: TestScenario[], baseUrl: string): Promise<string> {
+    if (!getEnvConfig().featureFlags.enableAppExploration) {
+      return '';
+    }
 
-Feature: ${featureName}
-Base URL: ${baseUrl}
+    logger.info('Exploring application under test', { baseUrl });
 
-Scenarios:
-${scenarios.map(s => `- ${s.id}: ${s.title}`).join('\n')}
+    const session = new BrowserSession(baseUrl);
+    for (const tool of createSDETTools(session)) {
+      this.registerTool(tool);
+    }
 
-Create POM classes in TypeScript for Playwright. Follow these requirements:
-1. Extend from a BasePage class
-2. Use semantic selectors (getByRole, getByLabel, getByTestId)
-3. Include proper typing for all methods
-4. Add JSDoc comments
-5. No sleeps or arbitrary waits
-6. Return promises where appropriate
+    const explorePrompt = this.renderPrompt('sdet/explore-app', {
+      featureName,
+      baseUrl,
+      scenarioList: scenarios.map(s => `- ${s.id}: ${s.title}`).join('\n'),
+    });
 
-Generate 2-3 page object files needed for these scenarios.
+    try {
+      const response = await this.chatWithTools(explorePrompt, { temperature: 0.3, maxIterations: 15 });
+      logger.info('Application exploration complete', { notesLength: response.content.length });
+      return response.content;
+    } catch (error) {
+      logger.warn('Application exploration failed, designing POMs from scenarios only', { error });
+      return '';
+    } finally {
+      this.clearTools();
+      await session.close();
+    }
+  }
 
-For each POM, provide:
-- File name (e.g., "LoginPage.ts")
-- Complete TypeScript code
+  /**
+   * Design Page Object Models
+   */
+  async designPOM(
+    featureName: string,
+    scenarios: TestScenario[],
+    baseUrl: string,
+    appNotes: string = '',
+    writer: GeneratedFileWriter = this.createFileWriter()
+  ): Promise<string[]> {
+    logger.info('Designing Page Object Models');
 
-Format your response as:
-FILE: filename.ts
-\`\`\`typescript
-// code here
-\`\`\`
-`;
+    const pomPrompt = this.renderPrompt('sdet/design-pom', {
+      featureName,
+      baseUrl,
+      scenarioList: scenarios.map(s => `- ${s.id}: ${s.title}`).join('\n'),
+      appNotes: appNotes
+        ? `\nObserved Application Structure (from live exploration - use these selectors):\n${appNotes}\n`
+        : '',
+    });
 
     const response = await this.chat(pomPrompt, { temperature: 0.5, maxTokens: 6000 });
     
     // Parse and write POM files
-    const pomFiles = this.extractAndWritePOMFiles(response.content);
+    const pomFiles = this.extractAndWritePOMFiles(response.content, writer);
 
     logger.info(`Created ${pomFiles.length} POM files`);
     return pomFiles;
   }
 
   /**
-   * Implement test specifications
+   * Implement test specifications, SCENARIO_BATCH_SIZE scenarios per prompt; each batch
+   * gets spec files of its own so later batches do not replace earlier ones
    */
-  async implementTests(featureName: string, scenarios: TestScenario[], pomFiles: string[]): Promise<string[]> {
-    logger.info('Implementing test specifications');
-
-    const testPrompt = `
-Implement Playwright Test specifications for the following scenarios.
-
-Feature: ${featureName}
+  async implementTests(
+    featureName: string,
+    scenarios: TestScenario[],
+    pomFiles: string[],
+    writer: GeneratedFileWriter = this.createFileWriter()
+  ): Promise<string[]> {
+    const slug = featureName.toLowerCase().replace(/\s+/g, '-');
+    const batches: TestScenario[][] = [];
+    for (let start = 0; start < scenarios.length; start += SCENARIO_BATCH_SIZE) {
+      batches.push(scenarios.slice(start, start + SCENARIO_BATCH_SIZE));
+    }
+    logger.info('Implementing test specifications', { scenarios: scenarios.length, batches: batches.length });
+
+    const testFiles: string[] = [];
+    for (const [index, batch] of batches.entries()) {
+      const testPrompt = this.renderPrompt('sdet/implement-tests', {
+        featureName,
+        pageObjects: pomFiles.map(f => `- ${path.basename(f)}`).join('\n'),
+        scenarioDetails: batch.map(formatScenarioDetails).join('\n'),
+        specFiles:
+          batches.length === 1
+            ? 'Generate 1-2 test spec files.'
+            : `These are scenarios ${index * SCENARIO_BATCH_SIZE + 1}-${index * SCENARIO_BATCH_SIZE + batch.length} ` +
+              `of ${scenarios.length}; the others are implemented separately. Generate 1-2 new test spec ` +
+              `files whose names start with ${slug}-${index + 1}, e.g. ${slug}-${index + 1}.spec.ts.`,
+      });
 
-Available Page Objects:
-${pomFiles.map(f => `- ${path.basename(f)}`).join('\n')}
+      const response = await this.chat(testPrompt, { temperature: 0.5, maxTokens: 8000 });
 
-Scenarios to implement:
-${scenarios.slice(0, 10).map(s => `
-${s.id}: ${s.title}
-Priority: ${s.priority}
-Tags: ${s.tags.join(', ')}
-Given: ${s.given.join(', ')}
-When: ${s.when.join(', ')}
-Then: ${s.then.join(', ')}
-`).join('\n')}
-
-Create comprehensive Playwright Test files. Requirements:
-1. Import necessary POMs
-2. Use test.describe for grouping
-3. Add tags in test titles: test('scenario @smoke @p0', ...)
-4. Use fixtures for setup/teardown
-5. Add meaningful expect() assertions
-6. Follow Given/When/Then structure in comments
-7. Ensure test isolation
-
-Generate 1-2 test spec files.
-
-Format your response as:
-FILE: filename.spec.ts
-\`\`\`typescript
-// code here
-\`\`\`
-`;
+      // Parse and write test files
+      testFiles.push(...this.extractAndWriteTestFiles(response.content, featureName, writer));
+    }
 
-    const response = await this.chat(testPrompt, { temperature: 0.5, maxTokens: 8000 });
-    
-    // Parse and write test files
-    const testFiles = this.extractAndWriteTestFiles(response.content, featureName);
+    const files = [...new Set(testFiles)];
+
+    // Selected scenarios without a test would only surface later as uncovered
+    const written = files.map((file) => (fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '')).join('\n');
+    const missing = writer.dryRun
+      ? []
+      : scenarios.filter(
+          (scenario) => !new RegExp(`\\b${scenario.id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(written)
+        );
+    if (missing.length > 0) {
+      logger.warn(`No test was generated for ${missing.length} scenarios`, {
+        scenarios: missing.map((scenario) => scenario.id),
+      });
+    }
 
-    logger.info(`Created ${testFiles.length} test files`);
-    return testFiles;
+    logger.info(`Created ${files.length} test files`);
+    return files;
   }
 
   /**
-   * Execute tests via Playwright MCP
+   * Execute tests via Playwright MCP, one spec file at a time, and combine the results
+   * @param specFiles - Defaults to tests/e2e/<feature>.spec.ts
    */
-  async executeTests(featureName: string): Promise<PlaywrightTestResult> {
-    logger.info('Executing Playwright tests');
-
-    const slug = featureName.toLowerCase().replace(/\s+/g, '-');
-    
-    try {
-      const result = await this.playwrightClient.run({
-        testPath: `tests/e2e/${slug}.spec.ts`,
-        reporter: 'html',
-      });
-
-      logger.info('Test execution complete', {
-        passed: result.passed,
-        failed: result.failed,
-        total: result.total,
-      });
+  async executeTests(
+    featureName: string,
+    specFiles: string[] = [this.featureSpec(featureName)]
+  ): Promise<PlaywrightTestResult> {
+    logger.info('Executing Playwright tests', { specFiles: specFiles.length });
+
+    const results: PlaywrightTestResult[] = [];
+    for (const specFile of specFiles) {
+      try {
+        // No reporter override: the project's JSON reporter maps results back to scenarios
+        results.push(
+          await this.playwrightClient.run({
+            testPath: path.relative(process.cwd(), path.resolve(specFile)).split(path.sep).join('/'),
+          })
+        );
+      } catch (error) {
+        logger.error('Test execution failed', { specFile, error });
+      }
+    }
 
-      return result;
-    } catch (error) {
-      logger.error('Test execution failed', { error });
-      
-      // Return mock result for now (MCP server might not be running)
-      const fallbackCount = 0; // unknown scenario count at runtime
+    // Nothing ran (the MCP server might not be running)
+    if (results.length === 0) {
       return {
         success: false,
         passed: 0,
-        failed: fallbackCount,
+        failed: 0,
         skipped: 0,
-        total: fallbackCount,
+        total: 0,
         duration: 0,
         failures: [],
       };
     }
+
+    const sum = (key: 'passed' | 'failed' | 'skipped' | 'total' | 'duration') =>
+      results.reduce((total, result) => total + result[key], 0);
+    const result: PlaywrightTestResult = {
+      // A spec that could not be run counts against the run
+      success: results.length === specFiles.length && results.every((r) => r.success),
+      passed: sum('passed'),
+      failed: sum('failed'),
+      skipped: sum('skipped'),
+      total: sum('total'),
+      duration: sum('duration'),
+      failures: results.flatMap((r) => r.failures ?? []),
+      reportPath: results[results.length - 1].reportPath,
+      tests: results.every((r) => r.tests) ? results.flatMap((r) => r.tests!) : undefined,
+    };
+
+    logger.info('Test execution complete', {
+      passed: result.passed,
+      failed: result.failed,
+      total: result.total,
+    });
+
+    return result;
   }
 
   /**
-   * Debug test failures
+   * Self-healing loop: give the model the failing tests (error, stack, page snapshot) and the
+   * source of the generated spec and page objects, apply the patch it returns, rerun the
+   * feature's tests, and repeat until they pass or SDET_REPAIR_ATTEMPTS is reached
+   * The whole feature is rerun because patched page objects are shared with passing tests; a
+   * patch is kept only when fewer tests fail overall. Every attempt's diff is logged
+   * @param failures - Failures to repair
+   * @param unrepairable - Other failures of the same run (product bugs, environment issues),
+   *   counted in the totals but never sent for repair
+   * @param specFiles - The feature's spec files, rerun after each patch
    */
-  async debugFailures(testResults: PlaywrightTestResult): Promise<void> {
-    logger.info('Debugging test failures', { failures: testResults.failures?.length });
+  async repairFailures(
+    featureName: string,
+    failures: TestCaseResult[],
+    unrepairable: TestCaseResult[] = [],
+    specFiles: string[] = [this.featureSpec(featureName)]
+  ): Promise<SpecRepairResult> {
+    const maxAttempts = getEnvConfig().sdet.repairAttempts;
+    const slug = featureName.toLowerCase().replace(/\s+/g, '-');
+    const log = new RepairLog(path.join(process.cwd(), REPAIRS_DIR, `${slug}-${createRunId()}`));
+    const attempts: RepairAttempt[] = [];
+    const testKey = (test: TestCaseResult) => `${test.file}\0${test.title}\0${test.projectName ?? ''}`;
+    const leftAlone = new Set(unrepairable.map(testKey));
+
+    let failing = failures;
+    let failureCount = failures.length + unrepairable.length;
+
+    logger.info('Repairing test failures', { failures: failureCount, maxAttempts });
+
+    for (let attempt = 1; attempt <= maxAttempts && failing.length > 0; attempt++) {
+      const files = [...new Set(failing.flatMap((test) => findRepairableFiles(test.file)))];
+      if (files.length === 0) {
+        logger.warn('No generated files to repair for the failing tests');
+        break;
+      }
+
+      const sources = new Map(files.map((file) => [file, fs.readFileSync(file, 'utf-8')]));
+      const response = await this.chat(
+        this.renderPrompt('sdet/debug-failures', {
+          failures: failing.map((test) => this.describeFailure(test)).join('\n---\n'),
+          sources: this.formatSources(sources),
+          previousAttempts: attempts.length
+            ? `\nPrevious attempts (their reverted changes are no longer in the files):\n${attempts
+                .map((a) => `- Attempt ${a.attempt}: ${a.outcome}${a.error ? ` (${a.error.split('\n')[0]})` : ''}`)
+                .join('\n')}\n`
+            : '',
+        }),
+        { temperature: 0.2, maxTokens: 8000 }
+      );
+
+      const patches = parsePatches(response.content);
+      if (patches.length === 0) {
+        attempts.push({ attempt, outcome: 'no-patch', failuresBefore: failureCount, files: [] });
+        continue;
+      }
+
+      let patched: Map<string, string>;
+      try {
+        patched = applyPatches(patches, files);
+      } catch (error) {
+        attempts.push({
+          attempt,
+          outcome: 'patch-failed',
+          failuresBefore: failureCount,
+          files: [],
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      const diffPath = log.writeDiff(attempt, sources, patched);
+      const rerun = await this.executeTests(featureName, specFiles);
+      const rerunFailures = this.failingTests(rerun, featureName);
+      const record: RepairAttempt = {
+        attempt,
+        outcome: 'reverted',
+        failuresBefore: failureCount,
+        failuresAfter: rerunFailures.length,
+        files: [...patched.keys()],
+        diffPath,
+      };
+
+      if (rerun.total === 0) {
+        record.failuresAfter = undefined;
+        record.error = 'The tests did not run after the patch';
+      }
+
+      if (rerun.total === 0 || rerunFailures.length >= failureCount) {
+        for (const file of patched.keys()) {
+          fs.writeFileSync(file, sources.get(file)!);
+        }
+      } else {
+        failureCount = rerunFailures.length;
+        failing = rerunFailures.filter((test) => !leftAlone.has(testKey(test)));
+        record.outcome = failing.length === 0 ? 'fixed' : 'improved';
+      }
 
-    if (!testResults.failures || testResults.failures.length === 0) {
-      return;
+      logger.info(`Repair attempt ${attempt}: ${record.outcome}`, {
+        failuresBefore: record.failuresBefore,
+        failuresAfter: record.failuresAfter,
+        diffPath,
+      });
+      attempts.push(record);
     }
 
-    const debugPrompt = `
-The following tests failed. Analyze the errors and suggest fixes.
+    const result: SpecRepairResult = {
+      attempts,
+      remaining: failing.map((test) => test.title),
+      logDir: attempts.length > 0 ? path.relative(process.cwd(), log.dir) : undefined,
+    };
+    if (attempts.length > 0) {
+      log.writeSummary(result);
+    }
+    return result;
+  }
+
+  /**
+   * Source files for a patch prompt, each under the FILE line patches must refer to it by
+   */
+  private formatSources(sources: Map<string, string>): string {
+    return [...sources.entries()]
+      .map(([file, content]) => `FILE: ${file}\n\`\`\`typescript\n${content}\`\`\``)
+      .join('\n\n');
+  }
+
+  /**
+   * Classify failures as test bugs, product bugs or environment issues: error patterns and the
+   * trace first, then the model for the ambiguous ones, given the scenario each test implements
+   * Failures already classified in `previous` (same test, same error) keep their classification
+   * @returns The tests, with `classification` set
+   */
+  async classifyFailures(
+    tests: TestCaseResult[],
+    scenarios: TestScenario[] = [],
+    previous: TestCaseResult[] = []
+  ): Promise<TestCaseResult[]> {
+    const failureKey = (test: TestCaseResult) => `${test.file}\0${test.title}\0${test.error?.split('\n')[0]}`;
+    const known = new Map(previous.map((test) => [failureKey(test), test.classification]));
+    const ambiguous: TestCaseResult[] = [];
+
+    for (const test of tests) {
+      const reused = known.get(failureKey(test));
+      test.classification = reused ?? classifyByHeuristics(test, readTestTrace(test));
+      if (!reused && test.classification.confidence === 'low') {
+        ambiguous.push(test);
+      }
+    }
 
-Failures:
-${testResults.failures.map(f => `
-Test: ${f.test}
-Error: ${f.error}
-${f.stack ? `Stack: ${f.stack}` : ''}
-`).join('\n---\n')}
+    if (ambiguous.length > 0) {
+      const describe = (test: TestCaseResult, index: number) => {
+        const scenarioId = test.scenarioId ?? extractScenarioId(test.title);
+        const scenario = scenarios.find((s) => s.id === scenarioId);
+        return [
+          `${index + 1}. ${this.describeFailure(test)}`,
+          `First guess: ${test.classification!.category} (${test.classification!.reason})`,
+          scenario
+            ? `Scenario ${scenario.id}: ${scenario.title}\nExpected: ${scenario.then.join('; ')}\n` +
+              `Requirement sources: ${scenario.citations.join(', ') || 'none'}`
+            : 'Scenario: unknown',
+        ].join('\n');
+      };
 
-Common issues to check:
-1. Selector not found (use more reliable selectors)
-2. Timing issues (ensure proper awaits)
-3. Assertion failures (check expected vs actual)
-4. Test data issues (verify preconditions)
+      try {
+        const response = await this.chatStructured(
+          this.renderPrompt('sdet/classify-failures', {
+            failures: ambiguous.map(describe).join('\n---\n'),
+          }),
+          failureClassificationsSchema,
+          { temperature: 0.1, maxTokens: 2000 }
+        );
+        for (const { index, ...classification } of response.classifications) {
+          const test = ambiguous[index - 1];
+          if (test) {
+            test.classification = { ...classification, confidence: 'high', source: 'llm' };
+          }
+        }
+      } catch (error) {
+        logger.warn('Could not classify failures with the model, keeping the heuristic guesses', { error });
+      }
+    }
 
-Provide specific fixes for each failure.
-`;
+    if (tests.length > 0) {
+      logger.info('Classified test failures', {
+        failures: tests.map((test) => `${test.title}: ${test.classification!.category} (${test.classification!.kind})`),
+      });
+    }
+    return tests;
+  }
 
-    const response = await this.chat(debugPrompt, { temperature: 0.5 });
-    
-    logger.info('Debug suggestions generated', {
-      suggestions: response.content.substring(0, 200),
-    });
+  /**
+   * Failed tests of a run, from the JSON report when available, else from the MCP failure list
+   * (which does not say which spec a failure is in, so the feature spec is assumed)
+   */
+  private failingTests(result: PlaywrightTestResult, featureName: string): TestCaseResult[] {
+    if (result.tests) {
+      return result.tests.filter((test) => test.status === 'failed');
+    }
+    return (result.failures ?? []).map((failure) => ({
+      title: failure.test,
+      file: this.featureSpec(featureName),
+      tags: [],
+      status: 'failed' as const,
+      duration: 0,
+      error: failure.error,
+      stack: failure.stack,
+      attachments: failure.tracePath
+        ? [{ name: 'trace', contentType: 'application/zip', path: failure.tracePath }]
+        : undefined,
+    }));
+  }
 
-    // In a real implementation, this would apply fixes automatically
-    // For now, just log the suggestions
+  /**
+   * Error, stack, trace digest and page state of a failed test; the accessibility snapshot is
+   * preferred over the trace's DOM when both exist since it is smaller
+   */
+  private describeFailure(test: TestCaseResult): string {
+    const snapshot = readFailureSnapshot(test);
+    const trace = readTestTrace(test);
+    return [
+      `Test: ${test.title} (${test.file}${test.projectName ? `, ${test.projectName}` : ''})`,
+      `Error: ${test.error ?? 'unknown'}`,
+      test.stack ? `Stack: ${test.stack}` : '',
+      trace ? `Trace:\n${formatFailureDigest(trace, !snapshot)}` : '',
+      snapshot ? `Page snapshot at failure:\n${snapshot}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
   }
 
   /**
    * Validate test stability with multiple runs
+   * @param specFiles - Defaults to tests/e2e/<feature>.spec.ts
    */
-  async validateStability(featureName: string): Promise<number> {
+  async validateStability(
+    featureName: string,
+    specFiles: string[] = [this.featureSpec(featureName)]
+  ): Promise<number> {
     logger.info('Validating test stability');
 
-    const slug = featureName.toLowerCase().replace(/\s+/g, '-');
     let successfulRuns = 0;
 
     try {
       // Run tests twice
       for (let i = 0; i < 2; i++) {
-        const result = await this.playwrightClient.run({
-          testPath: `tests/e2e/${slug}.spec.ts`,
-        });
+        const result = await this.executeTests(featureName, specFiles);
 
-        if (result.failed === 0) {
+        if (result.success && result.failed === 0) {
           successfulRuns++;
         } else {
           logger.warn(`Stability run ${i + 1} had ${result.failed} failures`);
@@ -357,59 +787,70 @@ Provide specific fixes for each failure.
   }
 
   /**
-   * Extract and write POM files from LLM response
+   * Spec file assumed for a feature when the generated ones are not known
    */
-  private extractAndWritePOMFiles(content: string): string[] {
-    const files: string[] = [];
-    const fileRegex = /FILE: ([\w.]+)\n```typescript\n([\s\S]*?)```/g;
-    let match;
+  private featureSpec(featureName: string): string {
+    return `tests/e2e/${featureName.toLowerCase().replace(/\s+/g, '-')}.spec.ts`;
+  }
 
-    const pagesDir = path.join(process.cwd(), 'src', 'pages');
-    if (!fs.existsSync(pagesDir)) {
-      fs.mkdirSync(pagesDir, { recursive: true });
-    }
+  /**
+   * Writer for generated files, stamping them with the prompt version and run id
+   */
+  private createFileWriter(runId: string = createRunId(), dryRun = false): GeneratedFileWriter {
+    return new GeneratedFileWriter({
+      generator: this.name,
+      promptsVersion: getPromptRegistry().getVersion(),
+      runId,
+      dryRun,
+    });
+  }
 
-    while ((match = fileRegex.exec(content)) !== null) {
-      const fileName = match[1];
-      const code = match[2];
-      const filePath = path.join(pagesDir, fileName);
+  /**
+   * Files in a response: a `FILE: <name>` line followed by a fenced code block, whatever its
+   * language tag
+   */
+  private extractFiles(content: string): Array<{ fileName: string; code: string }> {
+    const files: Array<{ fileName: string; code: string }> = [];
+    const fileRegex = /FILE:\s*`?([^\s`]+)`?[^\S\n]*\n```[\w-]*\n([\s\S]*?)```/g;
+    let match;
 
-      fs.writeFileSync(filePath, code);
-      files.push(filePath);
-      logger.info(`Created POM file: ${fileName}`);
+    while ((match = fileRegex.exec(content)) !== null) {
+      files.push({ fileName: match[1], code: match[2] });
     }
 
+    const blocks = (content.match(/```[\w-]*\n/g) ?? []).length;
+    if (blocks > files.length) {
+      logger.warn(`Ignoring ${blocks - files.length} code blocks without a FILE: line`);
+    }
     return files;
   }
 
   /**
-   * Extract and write test files from LLM response
+   * Extract and write POM files from LLM response
    */
-  private extractAndWriteTestFiles(content: string, featureName: string): string[] {
-    const files: string[] = [];
-    const fileRegex = /FILE: ([\w.]+)\n```typescript\n([\s\S]*?)```/g;
-    let match;
+  private extractAndWritePOMFiles(content: string, writer: GeneratedFileWriter): string[] {
+    const pagesDir = path.join(process.cwd(), 'src', 'pages');
 
-    const testsDir = path.join(process.cwd(), 'tests', 'e2e');
-    if (!fs.existsSync(testsDir)) {
-      fs.mkdirSync(testsDir, { recursive: true });
-    }
+    return this.extractFiles(content)
+      .map(({ fileName, code }) => writer.write(pagesDir, fileName, code))
+      .filter((result) => result.action !== 'rejected')
+      .map((result) => path.resolve(result.file));
+  }
 
+  /**
+   * Extract and write test files from LLM response
+   */
+  private extractAndWriteTestFiles(content: string, featureName: string, writer: GeneratedFileWriter): string[] {
+    const testsDir = path.join(process.cwd(), 'tests', 'e2e');
     const slug = featureName.toLowerCase().replace(/\s+/g, '-');
 
-    while ((match = fileRegex.exec(content)) !== null) {
-      const fileName = match[1] || `${slug}.spec.ts`;
-      const code = match[2];
-      const filePath = path.join(testsDir, fileName);
-
-      fs.writeFileSync(filePath, code);
-      files.push(filePath);
-      logger.info(`Created test file: ${fileName}`);
-    }
+    const files = this.extractFiles(content)
+      .map(({ fileName, code }) => writer.write(testsDir, fileName, code))
+      .filter((result) => result.action !== 'rejected')
+      .map((result) => path.resolve(result.file));
 
     // If no files were parsed, create a placeholder
     if (files.length === 0) {
-      const placeholderPath = path.join(testsDir, `${slug}.spec.ts`);
       const placeholder = `import { test, expect } from '@playwright/test';
 
 // Tests generated by SDET Agent
@@ -420,8 +861,10 @@ test.describe('${featureName}', () => {
   });
 });
 `;
-      fs.writeFileSync(placeholderPath, placeholder);
-      files.push(placeholderPath);
+      const result = writer.write(testsDir, `${slug}.spec.ts`, placeholder);
+      if (result.action !== 'rejected') {
+        files.push(path.resolve(result.file));
+      }
     }
 
     return files;
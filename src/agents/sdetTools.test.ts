@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BrowserSession, createSDETTools } from './sdetTools';
+
+describe('read_file tool', () => {
+  let root: string;
+  let readFile: (filePath: string) => Promise<string>;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'sdet-tools-'));
+    fs.mkdirSync(path.join(root, 'src/pages'), { recursive: true });
+    fs.mkdirSync(path.join(root, 'tests/.auth'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'src/pages/basePage.ts'), 'export class BasePage {}\n');
+    fs.writeFileSync(path.join(root, 'tests/.auth/user.json'), '{"cookies":[]}');
+    fs.writeFileSync(path.join(root, '.env'), 'OPENAI_API_KEY=sk-live\n');
+    fs.writeFileSync(path.join(root, 'package.json'), '{}');
+    fs.symlinkSync(path.join(root, '.env'), path.join(root, 'src/env.ts'));
+
+    const tool = createSDETTools(new BrowserSession('http://localhost:3000'), root).find(
+      (t) => t.name === 'read_file'
+    )!;
+    readFile = (filePath) => tool.handler({ path: filePath });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads files under src/, tests/ and prompts/', async () => {
+    await expect(readFile('src/pages/basePage.ts')).resolves.toBe('export class BasePage {}\n');
+    await expect(readFile('tests/missing.ts')).resolves.toBe('File not found: tests/missing.ts');
+  });
+
+  it('refuses other files, dotfiles and symlinks out of the allowed directories', async () => {
+    await expect(readFile('.env')).rejects.toThrow('Only files under src/, tests/, prompts/');
+    await expect(readFile('package.json')).rejects.toThrow('Only files under');
+    await expect(readFile('src/../.env')).rejects.toThrow('Only files under');
+    await expect(readFile('../outside.ts')).rejects.toThrow('Path outside the project');
+    await expect(readFile('tests/.auth/user.json')).rejects.toThrow('Hidden files cannot be read');
+    await expect(readFile('src/env.ts')).rejects.toThrow('Only files under');
+  });
+});
@@ -0,0 +1,221 @@
+import { chromium, Browser, Page } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentTool } from './baseAgent';
+import { getTestRunner } from '../utils/testRunner';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger();
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+/**
+ * Browser Session - a single headless page the SDET agent explores the app with
+ * Navigation is restricted to the origin of the base URL under test
+ */
+export class BrowserSession {
+  private baseUrl: URL;
+  private browser: Browser | null = null;
+  private page: Page | null = null;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = new URL(baseUrl);
+  }
+
+  /**
+   * Get the page, launching the browser on first use
+   */
+  async getPage(): Promise<Page> {
+    if (!this.page) {
+      this.browser = await chromium.launch({ headless: true });
+      this.page = await this.browser.newPage({ baseURL: this.baseUrl.origin });
+      logger.info('Exploration browser launched', { baseUrl: this.baseUrl.href });
+    }
+    return this.page;
+  }
+
+  /**
+   * Resolve a path or URL against the base URL, refusing other origins
+   */
+  resolveUrl(target: string): string {
+    const url = new URL(target, this.baseUrl);
+    if (url.origin !== this.baseUrl.origin) {
+      throw new Error(`Navigation outside ${this.baseUrl.origin} is not allowed`);
+    }
+    return url.href;
+  }
+
+  /**
+   * Accessibility tree of the current page in Playwright's ARIA snapshot format
+   */
+  async snapshot(): Promise<string> {
+    const page = await this.getPage();
+    const tree = await page.locator('body').ariaSnapshot();
+    return `URL: ${page.url()}\nTitle: ${await page.title()}\n\n${tree}`;
+  }
+
+  /**
+   * Close the browser
+   */
+  async close(): Promise<void> {
+    if (this.browser) {
+      await this.browser.close();
+      this.browser = null;
+      this.page = null;
+    }
+  }
+}
+
+/**
+ * Resolve a project-relative path, refusing anything outside the project root
+ */
+function resolveProjectPath(projectRoot: string, relativePath: string): string {
+  const resolved = path.resolve(projectRoot, relativePath);
+  if (resolved !== projectRoot && !resolved.startsWith(projectRoot + path.sep)) {
+    throw new Error(`Path outside the project is not allowed: ${relativePath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Directories the model may read from; the rest of the project (.env, config with
+ * credentials) is never sent to the provider
+ */
+const READABLE_DIRS = ['src', 'tests', 'prompts'];
+
+/**
+ * Resolve a file the model asked to read, refusing anything outside READABLE_DIRS and
+ * dotfiles such as .env, also when reached through a symlink
+ */
+function resolveReadablePath(projectRoot: string, relativePath: string): string {
+  const resolved = resolveProjectPath(projectRoot, relativePath);
+  const targets = [resolved];
+  if (fs.existsSync(resolved)) {
+    targets.push(fs.realpathSync(resolved));
+  }
+
+  const realRoot = fs.realpathSync(projectRoot);
+  for (const target of targets) {
+    const root = target.startsWith(realRoot + path.sep) ? realRoot : projectRoot;
+    const segments = path.relative(root, target).split(path.sep);
+    if (segments[0] === '..' || !READABLE_DIRS.includes(segments[0])) {
+      throw new Error(
+        `Only files under ${READABLE_DIRS.join('/, ')}/ can be read: ${relativePath}`
+      );
+    }
+    if (segments.some((segment) => segment.startsWith('.'))) {
+      throw new Error(`Hidden files cannot be read: ${relativePath}`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Create the tools the SDET agent uses to explore the app and check its work
+ */
+export function createSDETTools(
+  session: BrowserSession,
+  projectRoot: string = process.cwd()
+): AgentTool[] {
+  return [
+    {
+      name: 'navigate',
+      description:
+        'Open a page of the application under test (path relative to the base URL) and ' +
+        'return its accessibility tree.',
+      parameters: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'Path such as /login, or an absolute URL on the same origin' },
+        },
+        required: ['url'],
+      },
+      handler: async (args) => {
+        const page = await session.getPage();
+        await page.goto(session.resolveUrl(String(args.url)));
+        return session.snapshot();
+      },
+    },
+    {
+      name: 'snapshot',
+      description: 'Return the accessibility tree (roles, names, states) of the current page.',
+      parameters: { type: 'object', properties: {} },
+      handler: async () => session.snapshot(),
+    },
+    {
+      name: 'click',
+      description:
+        'Click an element by its ARIA role and accessible name, then return the resulting ' +
+        'accessibility tree. Use roles and names exactly as they appear in the snapshot.',
+      parameters: {
+        type: 'object',
+        properties: {
+          role: { type: 'string', description: 'ARIA role, e.g. button, link, checkbox' },
+          name: { type: 'string', description: 'Accessible name of the element' },
+        },
+        required: ['role', 'name'],
+      },
+      handler: async (args) => {
+        const page = await session.getPage();
+        await page
+          .getByRole(String(args.role) as AriaRole, { name: String(args.name) })
+          .first()
+          .click();
+        await page.waitForLoadState();
+        return session.snapshot();
+      },
+    },
+    {
+      name: 'read_file',
+      description:
+        'Read a file from the test project under src/, tests/ or prompts/, e.g. ' +
+        'src/pages/basePage.ts or tests/fixtures/auth.ts.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Path relative to the project root' },
+        },
+        required: ['path'],
+      },
+      handler: async (args) => {
+        const filePath = resolveReadablePath(projectRoot, String(args.path));
+        if (!fs.existsSync(filePath)) {
+          return `File not found: ${args.path}`;
+        }
+        return fs.readFileSync(filePath, 'utf-8');
+      },
+    },
+    {
+      name: 'run_spec',
+      description:
+        'Run a single Playwright spec file on Chromium and return the pass/fail summary and output.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Spec path relative to the project root, under tests/',
+          },
+        },
+        required: ['path'],
+      },
+      handler: async (args) => {
+        const specPath = resolveProjectPath(projectRoot, String(args.path));
+        if (!specPath.startsWith(path.join(projectRoot, 'tests') + path.sep)) {
+          throw new Error('Only specs under tests/ can be run');
+        }
+
+        const result = await getTestRunner().run({
+          testPath: path.relative(projectRoot, specPath),
+          project: 'chromium',
+          reporter: 'line',
+        });
+
+        return (
+          `Passed: ${result.passed}, Failed: ${result.failed}, Skipped: ${result.skipped}\n\n` +
+          `${result.stdout}\n${result.stderr}`
+        );
+      },
+    },
+  ];
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { applyPatches, parsePatches } from './specRepair';
+
+describe('parsePatches', () => {
+  it('parses search/replace blocks under their FILE line', () => {
+    const response = [
+      'The locator changed.',
+      'FILE: tests/e2e/login.spec.ts',
+      '<<<<<<< SEARCH',
+      "  await page.getByRole('button', { name: 'Login' }).click();",
+      '=======',
+      "  await page.getByRole('button', { name: 'Sign in' }).click();",
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      '  old',
+      '  lines',
+      '=======',
+      '>>>>>>> REPLACE',
+      'FILE: src/pages/loginPage.ts',
+      '<<<<<<< SEARCH',
+      'a',
+      '=======',
+      'b',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(parsePatches(response)).toEqual([
+      {
+        file: 'tests/e2e/login.spec.ts',
+        search: "  await page.getByRole('button', { name: 'Login' }).click();",
+        replace: "  await page.getByRole('button', { name: 'Sign in' }).click();",
+      },
+      { file: 'tests/e2e/login.spec.ts', search: '  old\n  lines', replace: '' },
+      { file: 'src/pages/loginPage.ts', search: 'a', replace: 'b' },
+    ]);
+  });
+
+  it('ignores blocks without a FILE line and unterminated blocks', () => {
+    expect(parsePatches('<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE')).toEqual([]);
+    expect(parsePatches('FILE: a.ts\n<<<<<<< SEARCH\na\n=======\nb')).toEqual([]);
+  });
+});
+
+describe('applyPatches', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-repair-'));
+    process.chdir(dir);
+    fs.mkdirSync('tests');
+    fs.writeFileSync('tests/a.spec.ts', 'one\ntwo\nthree\n');
+    fs.writeFileSync('tests/b.spec.ts', 'same\nsame\n');
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies patches in order, including several to the same file', () => {
+    const contents = applyPatches(
+      [
+        { file: 'tests/a.spec.ts', search: 'two', replace: '2' },
+        { file: './tests/a.spec.ts', search: 'one\n2', replace: '1\n2' },
+      ],
+      ['tests/a.spec.ts']
+    );
+
+    expect(contents.get('tests/a.spec.ts')).toBe('1\n2\nthree\n');
+    expect(fs.readFileSync('tests/a.spec.ts', 'utf-8')).toBe('1\n2\nthree\n');
+  });
+
+  it('rejects files outside the repair set', () => {
+    expect(() =>
+      applyPatches([{ file: 'tests/b.spec.ts', search: 'same', replace: 'x' }], ['tests/a.spec.ts'])
+    ).toThrow('not one of the files under repair');
+  });
+
+  it('rejects missing, ambiguous and empty search text without writing anything', () => {
+    const allowed = ['tests/a.spec.ts', 'tests/b.spec.ts'];
+    const valid = { file: 'tests/a.spec.ts', search: 'one', replace: '1' };
+
+    expect(() =>
+      applyPatches([valid, { file: 'tests/a.spec.ts', search: 'four', replace: '4' }], allowed)
+    ).toThrow('SEARCH text not found in tests/a.spec.ts');
+    expect(() =>
+      applyPatches([valid, { file: 'tests/b.spec.ts', search: 'same', replace: 'x' }], allowed)
+    ).toThrow('SEARCH text matches more than one place');
+    expect(() =>
+      applyPatches([{ file: 'tests/a.spec.ts', search: '  ', replace: 'x' }], allowed)
+    ).toThrow('empty SEARCH block');
+    expect(fs.readFileSync('tests/a.spec.ts', 'utf-8')).toBe('one\ntwo\nthree\n');
+  });
+});
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLogger } from '../utils/logger';
+import { createUnifiedDiff } from '../utils/textDiff';
+import { isGeneratedFile } from './generatedFiles';
+import type { TestCaseResult } from '../utils/scenarioResults';
+
+const logger = getLogger();
+
+/**
+ * Where repair logs are kept, relative to the working directory
+ */
+export const REPAIRS_DIR = '.agentic/repairs';
+
+/**
+ * One search/replace edit proposed by the model
+ */
+export interface FilePatch {
+  file: string;
+  search: string;
+  replace: string;
+}
+
+export type RepairOutcome = 'fixed' | 'improved' | 'reverted' | 'no-patch' | 'patch-failed';
+
+export interface RepairAttempt {
+  attempt: number;
+  outcome: RepairOutcome;
+  failuresBefore: number;
+  failuresAfter?: number;
+  /**
+   * Files the patch changed (relative to the working directory)
+   */
+  files: string[];
+  /**
+   * Unified diff of the attempt, relative to the working directory
+   */
+  diffPath?: string;
+  error?: string;
+}
+
+export interface SpecRepairResult {
+  attempts: RepairAttempt[];
+  /**
+   * Titles of the repairable tests still failing after the last kept patch
+   */
+  remaining: string[];
+  logDir?: string;
+}
+
+const SEARCH_START = /^<{7} SEARCH\s*$/;
+const DIVIDER = /^={7}\s*$/;
+const REPLACE_END = /^>{7} REPLACE\s*$/;
+
+/**
+ * Parse search/replace blocks, each preceded (directly or after earlier blocks) by a FILE line:
+ *
+ *   FILE: tests/e2e/login.spec.ts
+ *   <<<<<<< SEARCH
+ *   exact lines from the current file
+ *   =======
+ *   replacement lines
+ *   >>>>>>> REPLACE
+ */
+export function parsePatches(content: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  let file: string | undefined;
+  let search: string[] | null = null;
+  let replace: string[] | null = null;
+
+  for (const line of content.split('\n')) {
+    if (search === null) {
+      const fileMatch = /^FILE:\s*(\S+)\s*$/.exec(line);
+      if (fileMatch) {
+        file = fileMatch[1];
+      } else if (SEARCH_START.test(line) && file) {
+        search = [];
+      }
+    } else if (replace === null) {
+      if (DIVIDER.test(line)) {
+        replace = [];
+      } else {
+        search.push(line);
+      }
+    } else if (REPLACE_END.test(line)) {
+      patches.push({ file: file!, search: search.join('\n'), replace: replace.join('\n') });
+      search = null;
+      replace = null;
+    } else {
+      replace.push(line);
+    }
+  }
+
+  return patches;
+}
+
+function toRelative(filePath: string): string {
+  return path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join('/');
+}
+
+/**
+ * Apply patches in memory; nothing is written unless every patch applies
+ * @param allowedFiles - Files the patches may touch, relative to the working directory
+ * @returns New content of each changed file, keyed by relative path
+ * @throws {Error} if a patch targets another file or its search text is missing or ambiguous
+ */
+export function applyPatches(patches: FilePatch[], allowedFiles: string[]): Map<string, string> {
+  const allowed = new Set(allowedFiles.map(toRelative));
+  const contents = new Map<string, string>();
+
+  for (const patch of patches) {
+    const file = toRelative(patch.file);
+    if (!allowed.has(file)) {
+      throw new Error(`Patch targets ${patch.file}, which is not one of the files under repair`);
+    }
+    if (!patch.search.trim()) {
+      throw new Error(`Patch for ${file} has an empty SEARCH block`);
+    }
+
+    const content = contents.get(file) ?? fs.readFileSync(file, 'utf-8');
+    const first = content.indexOf(patch.search);
+    if (first === -1) {
+      throw new Error(`SEARCH text not found in ${file}:\n${patch.search}`);
+    }
+    if (content.indexOf(patch.search, first + 1) !== -1) {
+      throw new Error(`SEARCH text matches more than one place in ${file}:\n${patch.search}`);
+    }
+    contents.set(file, content.slice(0, first) + patch.replace + content.slice(first + patch.search.length));
+  }
+
+  for (const [file, content] of contents) {
+    fs.writeFileSync(file, content);
+  }
+  return contents;
+}
+
+/**
+ * The generated spec file and the generated local modules it imports (page objects),
+ * relative to the working directory; hand-written files are never repaired
+ */
+export function findRepairableFiles(specFile: string): string[] {
+  if (!isGeneratedFile(specFile)) {
+    logger.warn('Failing spec was not generated by the SDET Agent, leaving it alone', { specFile });
+    return [];
+  }
+
+  const files = [toRelative(specFile)];
+  const importRegex = /(?:from|import)\s+['"](\.{1,2}\/[^'"]+)['"]/g;
+  const source = fs.readFileSync(specFile, 'utf-8');
+  let match;
+
+  while ((match = importRegex.exec(source)) !== null) {
+    const base = path.resolve(path.dirname(specFile), match[1]);
+    const resolved = [base, `${base}.ts`, path.join(base, 'index.ts')].find(
+      (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+    );
+    if (resolved && !toRelative(resolved).startsWith('..') && isGeneratedFile(resolved)) {
+      files.push(toRelative(resolved));
+    }
+  }
+
+  return [...new Set(files)];
+}
+
+/**
+ * Page snapshot Playwright attaches to failures (the accessibility tree at the time of the
+ * error), which tells the model what the page actually contained
+ */
+export function readFailureSnapshot(test: TestCaseResult): string | undefined {
+  const attachment = test.attachments?.find((a) => a.name === 'error-context');
+  if (attachment?.path && fs.existsSync(attachment.path)) {
+    return fs.readFileSync(attachment.path, 'utf-8');
+  }
+  if (attachment?.body) {
+    return Buffer.from(attachment.body, 'base64').toString('utf-8');
+  }
+  return undefined;
+}
+
+/**
+ * Writes one diff per repair attempt plus a JSON summary of all attempts
+ */
+export class RepairLog {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Write the diff of an attempt
+   * @returns Path of the diff file, relative to the working directory
+   */
+  writeDiff(attempt: number, before: Map<string, string>, after: Map<string, string>): string {
+    const diff = [...after.entries()]
+      .map(([file, content]) => createUnifiedDiff(file, before.get(file) ?? '', content))
+      .join('');
+    fs.mkdirSync(this.dir, { recursive: true });
+    const diffPath = path.join(this.dir, `attempt-${attempt}.diff`);
+    fs.writeFileSync(diffPath, diff);
+    return toRelative(diffPath);
+  }
+
+  writeSummary(result: SpecRepairResult): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, 'repair-log.json'), JSON.stringify(result, null, 2) + '\n');
+  }
+}
@@ -1,14 +1,118 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { getOrchestrator, OrchestratorInput } from '../agents/orchestrator';
+import { getOrchestrator, Orchestrator, OrchestratorInput, OrchestratorOutput } from '../agents/orchestrator';
 import { getLogger, logSuccess, logError } from '../utils/logger';
-import { getEnvConfig } from '../utils/env';
+import { getEnvConfig, TestEnvType } from '../utils/env';
+import { getAgentProgress } from '../agents/progress';
+import { getResponseCache } from '../llm';
+import { exportGherkin, importGherkin } from '../agents/gherkin';
+import { loadScenarioFile, writeScenarioArtifact } from '../agents/scenarioArtifact';
+import { serializeScenarios } from '../agents/scenarioDocument';
+import { TestScenario } from '../agents/qaAgent';
 import * as fs from 'fs';
+import * as path from 'path';
 
 const logger = getLogger();
 const program = new Command();
 
+const TEST_ENVS: TestEnvType[] = ['local', 'dev', 'staging', 'prod'];
+
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+
+/**
+ * Render streaming agent progress as a live status line
+ * Non-interactive output (CI logs) only gets one line per detected file
+ */
+function renderProgress(): void {
+  const interactive = !!process.stdout.isTTY;
+  const files: string[] = [];
+  let frame = 0;
+  let lastRender = 0;
+
+  getAgentProgress().subscribe((event) => {
+    switch (event.type) {
+      case 'llm-start':
+        files.length = 0;
+        break;
+      case 'llm-tokens':
+        if (interactive && Date.now() - lastRender > 100) {
+          lastRender = Date.now();
+          const spinner = SPINNER_FRAMES[frame++ % SPINNER_FRAMES.length];
+          const fileList = files.length > 0 ? ` (${files.join(', ')})` : '';
+          process.stdout.write(
+            `\r\x1b[K${spinner} ${event.agent}: ${event.tokensReceived} tokens received${fileList}`
+          );
+        }
+        break;
+      case 'file-detected':
+        files.push(event.fileName);
+        if (!interactive) {
+          process.stdout.write(`  ${event.agent}: generating ${event.fileName}\n`);
+        }
+        break;
+      case 'llm-end':
+        if (interactive) {
+          process.stdout.write('\r\x1b[K');
+        }
+        break;
+    }
+  });
+}
+
+/**
+ * File name slug for a feature, matching the QA Agent's output names
+ */
+function toSlug(featureName: string): string {
+  return featureName.toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Split a comma-separated option value
+ */
+function parseList(value: string | undefined): string[] {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Validate the --env option shared by the agent commands
+ */
+function parseTestEnv(value: string | undefined): TestEnvType | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!TEST_ENVS.includes(value as TestEnvType)) {
+    throw new Error(`Invalid environment "${value}", expected one of: ${TEST_ENVS.join(', ')}`);
+  }
+  return value as TestEnvType;
+}
+
+/**
+ * Apply the --no-cache flag shared by the agent commands
+ */
+function applyCacheOption(options: { cache?: boolean }): void {
+  if (options.cache === false) {
+    getResponseCache().setEnabled(false);
+    logger.info('LLM response cache disabled');
+  }
+}
+
+/**
+ * Report the outcome of an orchestrator run and exit with its status
+ */
+function exitWithRunResult(result: OrchestratorOutput): never {
+  if (result.awaitingReview) {
+    logSuccess('Orchestrator', 'Paused for scenario review');
+    console.log(`\n${result.message}\n`);
+    process.exit(0);
+  } else if (result.success) {
+    logSuccess('Orchestrator', result.message);
+    process.exit(0);
+  }
+  logError('Orchestrator', new Error(result.message));
+  process.exit(1);
+}
+
 program
   .name('agentic-playwright')
   .description('Agentic Playwright Testing Framework CLI')
@@ -20,12 +124,38 @@ program
 program
   .command('run')
   .description('Run the complete agentic workflow (QA + SDET + PR)')
-  .requiredOption('-f, --feature <name>', 'Feature name')
-  .requiredOption('-p, --prompt <text>', 'User prompt describing the feature')
+  .option('-f, --feature <name>', 'Feature name')
+  .option('-p, --prompt <text>', 'User prompt describing the feature')
   .option('-s, --sources <path>', 'Path to RAG sources configuration JSON')
   .option('-e, --env <environment>', 'Test environment (local, dev, staging, prod)')
+  .option('--incremental', 'Merge new scenarios into the existing plan, keeping ids and edits')
+  .option('--review', 'Pause after scenario design until the scenarios are reviewed (see resume)')
+  .option('--resume <runId>', 'Resume a saved run after its last completed phase')
+  .option('--from-phase <phase>', 'With --resume, re-run from this phase (0-6 or name, e.g. execution)')
+  .option('--dry-run', 'Generate the code and its diff without writing files, then stop')
+  .option('--no-cache', 'Bypass the LLM response cache')
   .action(async (options: any) => {
     try {
+      renderProgress();
+      applyCacheOption(options);
+
+      const orchestrator = getOrchestrator();
+
+      if (options.resume) {
+        logger.info('Resuming agentic workflow', { runId: options.resume });
+        const result = await orchestrator.resume(options.resume, {
+          fromPhase: options.fromPhase !== undefined ? Orchestrator.parsePhase(options.fromPhase) : undefined,
+        });
+        exitWithRunResult(result);
+      }
+
+      if (options.fromPhase !== undefined) {
+        throw new Error('--from-phase requires --resume <runId>');
+      }
+      if (!options.feature || !options.prompt) {
+        throw new Error('--feature and --prompt are required unless --resume is given');
+      }
+
       logger.info('Starting full agentic workflow');
 
       const input: OrchestratorInput = {
@@ -33,18 +163,41 @@ program
         featureName: options.feature,
         ragSourcesPath: options.sources,
         mode: 'full',
+        testEnv: parseTestEnv(options.env),
+        incremental: options.incremental,
+        review: options.review,
+        dryRun: options.dryRun,
       };
 
+      exitWithRunResult(await orchestrator.execute(input));
+    } catch (error) {
+      logError('CLI', error as Error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Resume command - Continue a saved run, e.g. one paused for scenario review
+ */
+program
+  .command('resume <runId>')
+  .description('Resume a saved run; after a review pause, implements all scenarios not rejected')
+  .option('--approved-only', 'Only implement scenarios marked approved')
+  .option('--from-phase <phase>', 'Re-run from this phase (0-6 or name, e.g. execution)')
+  .option('--no-cache', 'Bypass the LLM response cache')
+  .action(async (runId: string, options: any) => {
+    try {
+      logger.info('Resuming agentic workflow', { runId });
+      renderProgress();
+      applyCacheOption(options);
+
       const orchestrator = getOrchestrator();
-      const result = await orchestrator.execute(input);
+      const result = await orchestrator.resume(runId, {
+        approvedOnly: options.approvedOnly,
+        fromPhase: options.fromPhase !== undefined ? Orchestrator.parsePhase(options.fromPhase) : undefined,
+      });
 
-      if (result.success) {
-        logSuccess('Orchestrator', result.message);
-        process.exit(0);
-      } else {
-        logError('Orchestrator', new Error(result.message));
-        process.exit(1);
-      }
+      exitWithRunResult(result);
     } catch (error) {
       logError('CLI', error as Error);
       process.exit(1);
@@ -60,15 +213,20 @@ program
   .requiredOption('-f, --feature <name>', 'Feature name')
   .requiredOption('-p, --prompt <text>', 'User prompt')
   .option('-s, --sources <path>', 'Path to RAG sources configuration JSON')
+  .option('--incremental', 'Merge new scenarios into the existing plan, keeping ids and edits')
+  .option('--no-cache', 'Bypass the LLM response cache')
   .action(async (options: any) => {
     try {
       logger.info('Starting QA-only workflow');
+      renderProgress();
+      applyCacheOption(options);
 
       const input: OrchestratorInput = {
         userPrompt: options.prompt,
         featureName: options.feature,
         ragSourcesPath: options.sources,
         mode: 'qa-only',
+        incremental: options.incremental,
       };
 
       const orchestrator = getOrchestrator();
@@ -76,6 +234,13 @@ program
 
       if (result.success && result.qaOutput) {
         logSuccess('QA Agent', `Scenarios generated: ${result.qaOutput.scenariosPath}`);
+        const { merge } = result.qaOutput;
+        if (merge) {
+          console.log(
+            `\n  ${merge.added.length} added, ${merge.matched.length} already in plan, ` +
+              `${merge.obsolete.length} marked obsolete, ${merge.restored.length} restored\n`
+          );
+        }
         process.exit(0);
       } else {
         logError('QA Agent', new Error(result.message));
@@ -94,23 +259,47 @@ program
   .command('sdet-only')
   .description('Run SDET Agent only (implement tests from existing scenarios)')
   .requiredOption('-f, --feature <name>', 'Feature name')
-  .option('-s, --scenarios <path>', 'Path to scenarios file')
+  .option('-s, --scenarios <path>', 'Path to scenarios file (.scenarios.md or .scenarios.json)')
+  .option('-e, --env <environment>', 'Test environment whose base URL to use (local, dev, staging, prod)')
+  .option('-u, --base-url <url>', 'Base URL of the application under test (overrides --env)')
+  .option('--ids <ids>', 'Comma-separated scenario ids to implement')
+  .option('--tags <tags>', 'Comma-separated tags; implement scenarios with any of them')
+  .option('--priorities <priorities>', 'Comma-separated priorities to implement (p0, p1, p2)')
+  .option('--dry-run', 'Generate the code and its diff without writing files, then stop')
+  .option('--no-cache', 'Bypass the LLM response cache')
   .action(async (options: any) => {
     try {
       logger.info('Starting SDET-only workflow');
+      renderProgress();
+      applyCacheOption(options);
 
       const scenariosPath =
         options.scenarios ||
-        `tests/_plans/${options.feature.toLowerCase().replace(/\s+/g, '-')}.scenarios.md`;
+        `tests/_plans/${toSlug(options.feature)}.scenarios.md`;
 
       if (!fs.existsSync(scenariosPath)) {
         throw new Error(`Scenarios file not found: ${scenariosPath}`);
       }
 
+      const priorities = parseList(options.priorities).map((priority) => priority.toLowerCase());
+      const invalid = priorities.filter((priority) => !['p0', 'p1', 'p2'].includes(priority));
+      if (invalid.length > 0) {
+        throw new Error(`Invalid priorities: ${invalid.join(', ')} (expected p0, p1 or p2)`);
+      }
+
       const input: OrchestratorInput = {
         userPrompt: `Implement tests for ${options.feature}`,
         featureName: options.feature,
         mode: 'sdet-only',
+        scenariosPath,
+        baseUrl: options.baseUrl,
+        testEnv: parseTestEnv(options.env),
+        scenarioFilter: {
+          ids: parseList(options.ids),
+          tags: parseList(options.tags),
+          priorities: priorities as TestScenario['priority'][],
+        },
+        dryRun: options.dryRun,
       };
 
       const orchestrator = getOrchestrator();
@@ -129,6 +318,92 @@ program
     }
   });
 
+/**
+ * Export-gherkin command - Scenarios to a Cucumber .feature file
+ */
+program
+  .command('export-gherkin')
+  .description('Export generated scenarios to a Gherkin .feature file')
+  .requiredOption('-f, --feature <name>', 'Feature name')
+  .option('-s, --scenarios <path>', 'Path to scenarios file (.scenarios.json or .scenarios.md)')
+  .option('-o, --output <path>', 'Path of the .feature file to write')
+  .action(async (options: any) => {
+    try {
+      const slug = toSlug(options.feature);
+      const scenariosPath = options.scenarios || `tests/_plans/${slug}.scenarios.json`;
+      const outputPath = options.output || `tests/features/${slug}.feature`;
+
+      const scenarios = loadScenarioFile(scenariosPath);
+      const feature = exportGherkin(
+        options.feature,
+        scenarios,
+        `Generated by agentic-playwright from ${path.basename(scenariosPath)}`
+      );
+
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, feature);
+
+      logSuccess('Gherkin', `Exported ${scenarios.length} scenarios to ${outputPath}`);
+      process.exit(0);
+    } catch (error) {
+      logError('Gherkin', error as Error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Import-gherkin command - Cucumber .feature file to scenarios for the SDET Agent
+ */
+program
+  .command('import-gherkin')
+  .description('Import a Gherkin .feature file as scenarios the SDET Agent can implement')
+  .requiredOption('-i, --input <path>', 'Path to the .feature file')
+  .option('-f, --feature <name>', 'Feature name (defaults to the Feature: title)')
+  .option('--force', 'Overwrite an existing plan for the feature', false)
+  .action(async (options: any) => {
+    try {
+      const imported = importGherkin(fs.readFileSync(options.input, 'utf-8'));
+      const featureName = options.feature || imported.featureName;
+      const slug = toSlug(featureName);
+      const scenariosPath = path.join('tests', '_plans', `${slug}.scenarios.md`);
+      const scenariosJsonPath = path.join('tests', '_plans', `${slug}.scenarios.json`);
+      const generatedAt = new Date().toISOString();
+      const promptVersion = `imported from ${path.basename(options.input)}`;
+
+      // Reviewed scenarios live in the plan, so never replace one unless asked to
+      const existing = [scenariosPath, scenariosJsonPath].filter((file) => fs.existsSync(file));
+      if (existing.length > 0 && !options.force) {
+        throw new Error(
+          `A plan for "${featureName}" already exists (${existing.join(', ')}). ` +
+            'Pass --force to overwrite it, or --feature to import under another name.'
+        );
+      }
+
+      fs.mkdirSync(path.dirname(scenariosPath), { recursive: true });
+      fs.writeFileSync(
+        scenariosPath,
+        serializeScenarios({
+          featureName,
+          metadata: { Generated: generatedAt, 'Prompt Version': promptVersion },
+          scenarios: imported.scenarios,
+        })
+      );
+      writeScenarioArtifact(scenariosJsonPath, {
+        featureName,
+        generatedAt,
+        promptVersion,
+        scenarios: imported.scenarios,
+      });
+
+      logSuccess('Gherkin', `Imported ${imported.scenarios.length} scenarios to ${scenariosJsonPath}`);
+      console.log(`\nImplement them with: agentic-playwright sdet-only --feature "${featureName}"\n`);
+      process.exit(0);
+    } catch (error) {
+      logError('Gherkin', error as Error);
+      process.exit(1);
+    }
+  });
+
 /**
  * Index-docs command - Index RAG documentation
  */
@@ -161,7 +436,8 @@ program
 
       console.log('\n✓ Environment configuration is valid\n');
       console.log('Configuration summary:');
-      console.log(`  - OpenAI Model: ${config.openai.model}`);
+      console.log(`  - LLM Provider: ${config.llm.provider}`);
+      console.log(`  - LLM Model: ${config.llm.model || config.openai.model}`);
       console.log(`  - Test Environment: ${config.testEnv.env}`);
       console.log(`  - Test Base URL: ${config.testEnv.baseUrl}`);
       console.log(`  - GitHub Repo: ${config.github.repoOwner}/${config.github.repoName}`);
@@ -8,6 +8,7 @@
 import { getOrchestrator, OrchestratorInput, OrchestratorOutput } from './agents/orchestrator';
 import { getQAAgent, QAInput, QAOutput } from './agents/qaAgent';
 import { getSDETAgent, SDETInput, SDETOutput } from './agents/sdetAgent';
+import { getAgentProgress, AgentProgressListener } from './agents/progress';
 import { getRAG, RAGSourceConfig } from './rag';
 import { getVectorStore } from './rag/vectorStore';
 import { getPlaywrightClient } from './mcp/playwrightClient';
@@ -71,6 +72,14 @@ export class AgenticPlaywright {
     return this.sdetAgent.execute(input);
   }
 
+  /**
+   * Subscribe to streaming progress events from all agents
+   * @returns unsubscribe function
+   */
+  onProgress(listener: AgentProgressListener): () => void {
+    return getAgentProgress().subscribe(listener);
+  }
+
   /**
    * Index RAG documents
    */
@@ -112,13 +121,30 @@ export function getAgenticPlaywright(): AgenticPlaywright {
 export * from './agents/orchestrator';
 export * from './agents/qaAgent';
 export * from './agents/sdetAgent';
+export * from './agents/scenarioDocument';
+export * from './agents/scenarioArtifact';
+export * from './agents/gherkin';
+export * from './agents/scenarioMerge';
+export * from './agents/scenarioFilter';
+export * from './agents/scenarioReview';
+export * from './agents/runStore';
+export * from './agents/progress';
+export * from './agents/promptRegistry';
+export * from './agents/failureClassifier';
+export * from './agents/generatedFiles';
 export * from './rag';
+export * from './llm';
 export * from './mcp/playwrightClient';
 export * from './mcp/githubClient';
 export * from './workflows/prWorkflow';
 export * from './utils/testRunner';
 export * from './utils/reportGenerator';
 export * from './utils/qualityGates';
+export * from './utils/gatePolicy';
+export * from './utils/specLint';
+export * from './utils/scenarioResults';
+export * from './utils/traceReader';
+export * from './utils/typeCheck';
 export * from './utils/env';
 export * from './utils/logger';
 export * from './utils/accessibility';
@@ -0,0 +1,247 @@
+import axios, { AxiosInstance } from 'axios';
+import { getLogger } from '../utils/logger';
+import { LLMMessage, LLMProvider, LLMRequest, LLMResponse } from './provider';
+
+const logger = getLogger();
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+export interface AnthropicProviderConfig {
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model: string; usage?: { input_tokens: number; output_tokens: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens: number };
+  error?: { type: string; message: string };
+}
+
+/**
+ * HTTP status the API uses for each error type, so that errors reported mid-stream are
+ * retried like the same error returned before the stream started
+ */
+const ERROR_TYPE_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * Thrown when the Messages API sends an error event in the middle of a stream
+ */
+export class AnthropicStreamError extends Error {
+  readonly type: string;
+  readonly status: number;
+
+  constructor(error: { type: string; message: string }) {
+    super(`Anthropic stream error (${error.type}): ${error.message}`);
+    this.name = 'AnthropicStreamError';
+    this.type = error.type;
+    // Unknown types are treated as server errors, which are retried
+    this.status = ERROR_TYPE_STATUS[error.type] ?? 500;
+  }
+}
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicMessagesResponse {
+  model: string;
+  content: Array<{
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: Record<string, unknown>;
+  }>;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Anthropic Messages API provider
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel: string;
+  readonly endpoint: string;
+  private client: AxiosInstance;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.defaultModel = config.model;
+    this.endpoint = config.baseURL || 'https://api.anthropic.com/v1';
+    this.client = axios.create({
+      baseURL: this.endpoint,
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    logger.debug('Anthropic provider initialized', { model: this.defaultModel });
+  }
+
+  /**
+   * Run a chat completion via the Messages API
+   * The system prompt is sent as a top-level field rather than a message. The API has no
+   * JSON mode, so `responseFormat` relies on the prompt and the caller's validation
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.post<AnthropicMessagesResponse>(
+      '/messages',
+      this.buildBody(request),
+      { signal: request.signal }
+    );
+
+    const data = response.data;
+    const content = data.content
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text || '')
+      .join('');
+    const toolCalls = data.content
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({ id: block.id || '', name: block.name || '', arguments: block.input || {} }));
+
+    return {
+      content,
+      model: data.model || request.model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.input_tokens,
+            completionTokens: data.usage.output_tokens,
+            totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Run a streaming chat completion, parsing the server-sent events of the Messages API
+   * @throws {AnthropicStreamError} if the API reports an error mid-stream, e.g. when overloaded
+   */
+  async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMResponse> {
+    const response = await this.client.post<NodeJS.ReadableStream>(
+      '/messages',
+      { ...this.buildBody(request), stream: true },
+      { responseType: 'stream', signal: request.signal }
+    );
+
+    let content = '';
+    let model = request.model;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let buffer = '';
+
+    for await (const chunk of response.data) {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) {
+          continue;
+        }
+
+        const event = JSON.parse(line.slice(6)) as AnthropicStreamEvent;
+        if (event.type === 'error') {
+          throw new AnthropicStreamError(event.error ?? { type: 'api_error', message: 'Unknown error' });
+        } else if (event.type === 'message_start' && event.message) {
+          model = event.message.model || model;
+          promptTokens = event.message.usage?.input_tokens || 0;
+        } else if (event.type === 'content_block_delta' && event.delta?.text) {
+          content += event.delta.text;
+          onDelta(event.delta.text);
+        } else if (event.type === 'message_delta' && event.usage) {
+          completionTokens = event.usage.output_tokens;
+        }
+      }
+    }
+
+    return {
+      content,
+      model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  private buildBody(request: LLMRequest) {
+    const system = request.messages
+      .filter((msg) => msg.role === 'system')
+      .map((msg) => msg.content)
+      .join('\n\n');
+
+    return {
+      model: request.model,
+      system: system || undefined,
+      messages: this.toMessages(request.messages.filter((msg) => msg.role !== 'system')),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      tools: request.tools?.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      })),
+    };
+  }
+
+  /**
+   * Convert messages to the Messages API shape
+   * Tool calls become tool_use blocks, and consecutive tool results are merged
+   * into a single user turn as the API requires
+   */
+  private toMessages(messages: LLMMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const block: AnthropicContentBlock = {
+          type: 'tool_result',
+          tool_use_id: msg.toolCallId || '',
+          content: msg.content,
+        };
+        const previous = result[result.length - 1];
+        if (previous && previous.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(block);
+        } else {
+          result.push({ role: 'user', content: [block] });
+        }
+      } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+        const blocks: AnthropicContentBlock[] = msg.content
+          ? [{ type: 'text', text: msg.content }]
+          : [];
+        for (const call of msg.toolCalls) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+        result.push({ role: 'assistant', content: blocks });
+      } else {
+        result.push({ role: msg.role === 'assistant' ? 'assistant' : 'user', content: msg.content });
+      }
+    }
+
+    return result;
+  }
+}
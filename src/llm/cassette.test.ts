@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Cassette, LLMTarget } from './cassette';
+import { LLMRequest } from './provider';
+
+const openai: LLMTarget = { name: 'openai', endpoint: 'https://api.openai.com/v1' };
+
+const request: LLMRequest = {
+  model: 'gpt-4o',
+  messages: [
+    { role: 'system', content: 'You are a QA engineer' },
+    { role: 'user', content: 'Write a scenario' },
+  ],
+  temperature: 0.2,
+  maxTokens: 100,
+};
+
+describe('Cassette', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+    filePath = path.join(dir, 'cassettes', 'run.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays what was recorded in an earlier run', () => {
+    new Cassette('record', filePath).record(request, openai, {
+      content: 'Scenario',
+      model: 'gpt-4o',
+    });
+
+    const replay = new Cassette('replay', filePath);
+    expect(replay.replay(request, openai)).toEqual({ content: 'Scenario', model: 'gpt-4o' });
+  });
+
+  it('fails loudly on a request that was never recorded', () => {
+    new Cassette('record', filePath).record(request, openai, {
+      content: 'Scenario',
+      model: 'gpt-4o',
+    });
+    const replay = new Cassette('replay', filePath);
+    const changed = {
+      ...request,
+      messages: [...request.messages, { role: 'user' as const, content: 'And another' }],
+    };
+
+    expect(() => replay.replay(changed, openai)).toThrow(
+      /Cassette miss for request \w{12} .*\nLast message: And another/
+    );
+  });
+
+  it('refuses to replay without a cassette file', () => {
+    expect(() => new Cassette('replay', filePath)).toThrow(`Cassette file not found: ${filePath}`);
+  });
+
+  it('hashes everything that changes the response and ignores the abort signal', () => {
+    const key = Cassette.hashRequest(request, openai);
+
+    expect(Cassette.hashRequest({ ...request, signal: new AbortController().signal }, openai)).toBe(
+      key
+    );
+    expect(Cassette.hashRequest({ ...request, temperature: 0.7 }, openai)).not.toBe(key);
+    expect(Cassette.hashRequest({ ...request, responseFormat: 'json' }, openai)).not.toBe(key);
+    expect(
+      Cassette.hashRequest(request, { name: 'local', endpoint: 'http://localhost:11434/v1' })
+    ).not.toBe(key);
+  });
+});
@@ -0,0 +1,142 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getEnvConfig } from '../utils/env';
+import { getLogger } from '../utils/logger';
+import { LLMProvider, LLMRequest, LLMResponse } from './provider';
+
+const logger = getLogger();
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  request: LLMRequest;
+  response: LLMResponse;
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+/**
+ * Provider fields that identify where a request is sent
+ */
+export type LLMTarget = Pick<LLMProvider, 'name' | 'endpoint'>;
+
+/**
+ * LLM cassette - records request/response pairs to disk and replays them
+ * Entries are keyed by a hash of the full request and the provider it is sent to, so a
+ * replayed run only succeeds if the agents send exactly the same conversation as when recorded
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly filePath: string;
+  private data: CassetteFile = { version: 1, entries: {} };
+
+  constructor(mode: CassetteMode, filePath: string) {
+    this.mode = mode;
+    this.filePath = path.resolve(filePath);
+
+    if (mode !== 'off' && fs.existsSync(this.filePath)) {
+      this.data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CassetteFile;
+    } else if (mode === 'replay') {
+      throw new Error(`Cassette file not found: ${this.filePath}`);
+    }
+
+    if (mode !== 'off') {
+      logger.info(`LLM cassette in ${mode} mode`, {
+        filePath: this.filePath,
+        entries: Object.keys(this.data.entries).length,
+      });
+    }
+  }
+
+  /**
+   * Compute the cassette key for a request sent to a provider
+   */
+  static hashRequest(request: LLMRequest, target: LLMTarget): string {
+    const canonical = JSON.stringify({
+      provider: target.name,
+      endpoint: target.endpoint,
+      model: request.model,
+      messages: request.messages.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+        toolCalls: msg.toolCalls,
+        toolCallId: msg.toolCallId,
+      })),
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      responseFormat: request.responseFormat,
+      tools: request.tools?.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      })),
+    });
+    return crypto.createHash('sha256').update(canonical).digest('hex');
+  }
+
+  /**
+   * Serve a recorded response, failing loudly when the request was never recorded
+   */
+  replay(request: LLMRequest, target: LLMTarget): LLMResponse {
+    const key = Cassette.hashRequest(request, target);
+    const entry = this.data.entries[key];
+
+    if (!entry) {
+      const lastMessage = request.messages[request.messages.length - 1]?.content || '';
+      throw new Error(
+        `Cassette miss for request ${key.substring(0, 12)} in ${this.filePath}\n` +
+          `Last message: ${lastMessage.substring(0, 200)}\n` +
+          `Re-record the cassette with LLM_CASSETTE_MODE=record if prompts changed intentionally.`
+      );
+    }
+
+    logger.debug('Cassette hit', { key: key.substring(0, 12) });
+    return entry.response;
+  }
+
+  /**
+   * Record a request/response pair and flush the cassette to disk
+   */
+  record(request: LLMRequest, target: LLMTarget, response: LLMResponse): void {
+    const key = Cassette.hashRequest(request, target);
+    this.data.entries[key] = {
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2));
+
+    logger.debug('Cassette recorded', { key: key.substring(0, 12) });
+  }
+}
+
+// Singleton instance
+let cassetteInstance: Cassette | null = null;
+
+/**
+ * Get the cassette configured by LLM_CASSETTE_MODE / LLM_CASSETTE_PATH
+ */
+export function getCassette(): Cassette {
+  if (!cassetteInstance) {
+    const config = getEnvConfig();
+    cassetteInstance = new Cassette(config.llm.cassetteMode, config.llm.cassettePath);
+  }
+  return cassetteInstance;
+}
+
+/**
+ * Override the cassette singleton (e.g. per test case)
+ */
+export function setCassette(cassette: Cassette): void {
+  cassetteInstance = cassette;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { ContextMessage, dropOldestMessages, pendingTurnStart } from './contextWindow';
+
+const text = (tokens: number) => 'x'.repeat(tokens * 4);
+
+const toolTurn: ContextMessage[] = [
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [
+      { id: 'call-1', name: 'read_file', arguments: { path: 'a.ts' } },
+      { id: 'call-2', name: 'read_file', arguments: { path: 'b.ts' } },
+    ],
+  },
+  { role: 'tool', content: text(100), toolCallId: 'call-1' },
+  { role: 'tool', content: text(100), toolCallId: 'call-2' },
+];
+
+describe('pendingTurnStart', () => {
+  it('is the last message outside a tool loop', () => {
+    expect(
+      pendingTurnStart([
+        { role: 'system', content: '' },
+        { role: 'user', content: '' },
+      ])
+    ).toBe(1);
+  });
+
+  it('includes the tool call with its results', () => {
+    expect(pendingTurnStart([{ role: 'user', content: '' }, ...toolTurn])).toBe(1);
+  });
+});
+
+describe('dropOldestMessages', () => {
+  it('drops the oldest unpinned messages and keeps pinned ones', () => {
+    const messages: ContextMessage[] = [
+      { role: 'system', content: text(50), pinned: true },
+      { role: 'user', content: text(100) },
+      { role: 'assistant', content: text(100) },
+      { role: 'user', content: text(10) },
+    ];
+
+    const result = dropOldestMessages(messages, 200);
+
+    expect(result.map((m) => m.role)).toEqual(['system', 'assistant', 'user']);
+  });
+
+  it('never splits the pending tool call from its results', () => {
+    const messages: ContextMessage[] = [
+      { role: 'system', content: text(10), pinned: true },
+      { role: 'user', content: text(100) },
+      ...toolTurn,
+    ];
+
+    const result = dropOldestMessages(messages, 50);
+
+    expect(result.map((m) => m.role)).toEqual(['system', 'assistant', 'tool', 'tool']);
+  });
+});
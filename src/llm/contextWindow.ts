@@ -0,0 +1,124 @@
+import { getLogger } from '../utils/logger';
+import { LLMMessage } from './provider';
+
+const logger = getLogger();
+
+/**
+ * Known context window sizes (tokens), overridable via LLM_CONTEXT_WINDOWS
+ */
+export const DEFAULT_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-4.1-mini': 1047576,
+  'claude-sonnet-4-5': 200000,
+  'claude-haiku-4-5': 200000,
+};
+
+/**
+ * Fallback for unknown models, the window of most current hosted models
+ * Smaller local models need an LLM_CONTEXT_WINDOWS entry
+ */
+export const FALLBACK_CONTEXT_WINDOW = 128000;
+
+/**
+ * Unknown models already warned about, so the warning is logged once per model
+ */
+const warnedModels = new Set<string>();
+
+/**
+ * Per-message overhead for role and separators in chat formats
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ContextMessage extends LLMMessage {
+  /**
+   * Pinned messages (system prompt, RAG context) are never dropped or summarized
+   */
+  pinned?: boolean;
+}
+
+/**
+ * Estimate the token count of a text
+ * Uses the ~4 characters per token rule of thumb, which is close enough for
+ * English prose and code to keep requests safely inside the window
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate the token count of a single message including format overhead
+ */
+export function countMessageTokens(message: LLMMessage): number {
+  const toolCallTokens = message.toolCalls ? estimateTokens(JSON.stringify(message.toolCalls)) : 0;
+  return estimateTokens(message.content) + toolCallTokens + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimate the token count of a conversation
+ */
+export function countConversationTokens(messages: LLMMessage[]): number {
+  return messages.reduce((sum, message) => sum + countMessageTokens(message), 0);
+}
+
+/**
+ * Resolve the context window for a model, matching the longest known prefix
+ */
+export function getContextWindow(model: string, overrides: Record<string, number> = {}): number {
+  const windows = { ...DEFAULT_CONTEXT_WINDOWS, ...overrides };
+  const key = Object.keys(windows)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (key) {
+    return windows[key];
+  }
+
+  if (!warnedModels.has(model)) {
+    warnedModels.add(model);
+    logger.warn(`Unknown context window for model ${model}, assuming ${FALLBACK_CONTEXT_WINDOW} tokens`, {
+      hint: 'Set LLM_CONTEXT_WINDOWS, e.g. {"llama3.1": 32768}',
+    });
+  }
+  return FALLBACK_CONTEXT_WINDOW;
+}
+
+/**
+ * Index where the pending turn starts: the last message, or, in a tool loop, the assistant
+ * tool call together with the tool results that answer it
+ */
+export function pendingTurnStart(messages: LLMMessage[]): number {
+  let start = messages.length - 1;
+  while (start > 0 && messages[start].role === 'tool') {
+    start--;
+  }
+  return Math.max(start, 0);
+}
+
+/**
+ * Drop the oldest unpinned messages until the conversation fits the budget
+ * The pending turn (the request being sent) is always kept, and tool results are
+ * dropped together with the assistant message that requested them
+ */
+export function dropOldestMessages<T extends ContextMessage>(messages: T[], budget: number): T[] {
+  const result = [...messages];
+  const pendingCount = result.length - pendingTurnStart(result);
+  let total = countConversationTokens(result);
+
+  for (let i = 0; i < result.length - pendingCount && total > budget; ) {
+    if (result[i].pinned) {
+      i++;
+      continue;
+    }
+    total -= countMessageTokens(result[i]);
+    result.splice(i, 1);
+
+    while (i < result.length - pendingCount && result[i].role === 'tool') {
+      total -= countMessageTokens(result[i]);
+      result.splice(i, 1);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,114 @@
+import { getEnvConfig, EnvConfig } from '../utils/env';
+import { getLogger } from '../utils/logger';
+import { LLMProvider } from './provider';
+import { OpenAIProvider } from './openaiProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { ReplayProvider } from './replayProvider';
+
+const logger = getLogger();
+
+/**
+ * Create an LLM provider from the `llm` section of the environment config
+ */
+export function createLLMProvider(config: EnvConfig): LLMProvider {
+  const { llm } = config;
+  const model = llm.model || config.openai.model;
+
+  switch (llm.provider) {
+    case 'azure':
+    case 'local':
+      return new OpenAIProvider({
+        name: llm.provider,
+        model,
+        apiKey: llm.apiKey,
+        baseURL: llm.baseURL,
+        azureApiVersion: llm.azureApiVersion,
+        azureDeployment: llm.azureDeployment,
+      });
+    case 'anthropic':
+      return new AnthropicProvider({
+        model: llm.model || 'claude-sonnet-4-5',
+        apiKey: llm.apiKey!,
+        baseURL: llm.baseURL,
+      });
+    case 'replay':
+      return new ReplayProvider({ model, replayPath: llm.replayPath });
+    case 'openai':
+    default:
+      return new OpenAIProvider({
+        name: 'openai',
+        model,
+        apiKey: llm.apiKey || config.openai.apiKey,
+        baseURL: llm.baseURL,
+      });
+  }
+}
+
+// Singleton instance
+let providerInstance: LLMProvider | null = null;
+
+/**
+ * Get the LLM provider singleton instance
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!providerInstance) {
+    providerInstance = createLLMProvider(getEnvConfig());
+    logger.info('LLM provider initialized', {
+      provider: providerInstance.name,
+      model: providerInstance.defaultModel,
+    });
+  }
+  return providerInstance;
+}
+
+/**
+ * Override the LLM provider singleton (e.g. to inject a replay provider programmatically)
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+  providerInstance = provider;
+}
+
+export * from './provider';
+export { Cassette, getCassette, setCassette } from './cassette';
+export type { CassetteMode, CassetteEntry, CassetteFile, LLMTarget } from './cassette';
+export {
+  UsageLedger,
+  BudgetExceededError,
+  DEFAULT_PRICE_TABLE,
+  formatUsageMarkdown,
+  getUsageLedger,
+} from './usageLedger';
+export type { ModelPrice, PriceTable, UsageTotals, UsageSummary } from './usageLedger';
+export {
+  DEFAULT_CONTEXT_WINDOWS,
+  FALLBACK_CONTEXT_WINDOW,
+  estimateTokens,
+  countMessageTokens,
+  countConversationTokens,
+  getContextWindow,
+  dropOldestMessages,
+  pendingTurnStart,
+} from './contextWindow';
+export type { ContextMessage } from './contextWindow';
+export {
+  DEFAULT_RETRY_POLICY,
+  LLMTimeoutError,
+  ConcurrencyLimiter,
+  getConcurrencyLimiter,
+  getErrorStatus,
+  getRetryAfterMs,
+  isRetryableError,
+  computeBackoffMs,
+  withTimeout,
+  withIdleTimeout,
+  sleep,
+} from './retry';
+export type { RetryPolicy } from './retry';
+export { ResponseCache, getResponseCache } from './responseCache';
+export type { CachedResponse, CacheStats } from './responseCache';
+export { OpenAIProvider } from './openaiProvider';
+export type { OpenAIProviderConfig } from './openaiProvider';
+export { AnthropicProvider, AnthropicStreamError } from './anthropicProvider';
+export type { AnthropicProviderConfig } from './anthropicProvider';
+export { ReplayProvider } from './replayProvider';
+export type { ReplayEntry, ReplayScript } from './replayProvider';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { OpenAIProvider } from './openaiProvider';
+
+function providerReturning(toolArguments: string[]): OpenAIProvider {
+  const provider = new OpenAIProvider({ name: 'openai', model: 'gpt-4o', apiKey: 'test-key' });
+  const client = {
+    chat: {
+      completions: {
+        create: async () => ({
+          choices: [
+            {
+              message: {
+                content: '',
+                tool_calls: toolArguments.map((args, index) => ({
+                  id: `call-${index}`,
+                  type: 'function',
+                  function: { name: 'read_file', arguments: args },
+                })),
+              },
+            },
+          ],
+        }),
+      },
+    },
+  };
+  Object.assign(provider, { client });
+  return provider;
+}
+
+describe('OpenAIProvider tool calls', () => {
+  it('parses tool arguments and reports malformed ones on the call instead of throwing', async () => {
+    const response = await providerReturning([
+      '{"path":"a.ts"}',
+      '',
+      '{"path": "a.ts"',
+      '["a.ts"]',
+    ]).complete({
+      model: 'gpt-4o',
+      temperature: 0,
+      maxTokens: 100,
+      messages: [{ role: 'user', content: 'read a.ts' }],
+    });
+
+    const [valid, empty, truncated, array] = response.toolCalls ?? [];
+    expect(valid).toEqual({ id: 'call-0', name: 'read_file', arguments: { path: 'a.ts' } });
+    expect(empty).toEqual({ id: 'call-1', name: 'read_file', arguments: {} });
+    expect(truncated).toMatchObject({ arguments: {} });
+    expect(truncated.argumentsError).toMatch(/^Tool arguments are not valid JSON: /);
+    expect(array.argumentsError).toBe('Tool arguments must be a JSON object');
+  });
+});
@@ -0,0 +1,216 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { getLogger } from '../utils/logger';
+import { LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMToolCall } from './provider';
+
+const logger = getLogger();
+
+export interface OpenAIProviderConfig {
+  name: 'openai' | 'azure' | 'local';
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  azureApiVersion?: string;
+  azureDeployment?: string;
+}
+
+/**
+ * Tool call with its JSON arguments parsed; malformed arguments are reported on the call
+ * rather than thrown, so the model can correct them
+ */
+function parseToolCall(id: string, name: string, rawArguments: string): LLMToolCall {
+  try {
+    const parsed: unknown = JSON.parse(rawArguments || '{}');
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { id, name, arguments: {}, argumentsError: 'Tool arguments must be a JSON object' };
+    }
+    return { id, name, arguments: parsed as Record<string, unknown> };
+  } catch (error) {
+    return {
+      id,
+      name,
+      arguments: {},
+      argumentsError: `Tool arguments are not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions provider
+ * Covers OpenAI itself, Azure OpenAI deployments and local OpenAI-compatible
+ * servers such as Ollama or vLLM (which only differ in base URL and auth)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  readonly endpoint: string;
+  private config: OpenAIProviderConfig;
+  private client: OpenAI | null = null;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.name = config.name;
+    this.defaultModel = config.model;
+    this.endpoint = OpenAIProvider.resolveEndpoint(config);
+    this.config = config;
+
+    logger.debug('OpenAI-compatible provider initialized', {
+      provider: this.name,
+      model: this.defaultModel,
+    });
+  }
+
+  /**
+   * Base URL requests go to, including the deployment for Azure
+   */
+  private static resolveEndpoint(config: OpenAIProviderConfig): string {
+    switch (config.name) {
+      case 'azure':
+        return `${config.baseURL}/openai/deployments/${config.azureDeployment || config.model}`;
+      case 'local':
+        return config.baseURL || 'http://localhost:11434/v1';
+      default:
+        return config.baseURL || 'https://api.openai.com/v1';
+    }
+  }
+
+  /**
+   * Lazily create the SDK client so offline modes (cassette replay) never need credentials
+   * SDK retries are disabled: BaseAgent retries with backoff and model fallback itself
+   */
+  private getClient(): OpenAI {
+    if (this.client) {
+      return this.client;
+    }
+
+    const config = this.config;
+    switch (config.name) {
+      case 'azure':
+        this.client = new AzureOpenAI({
+          apiKey: config.apiKey,
+          endpoint: config.baseURL,
+          apiVersion: config.azureApiVersion,
+          deployment: config.azureDeployment || config.model,
+          maxRetries: 0,
+        });
+        break;
+      case 'local':
+        this.client = new OpenAI({
+          // Local servers ignore the key, but the SDK refuses to start without one
+          apiKey: config.apiKey || 'local',
+          baseURL: this.endpoint,
+          maxRetries: 0,
+        });
+        break;
+      default:
+        this.client = new OpenAI({
+          apiKey: config.apiKey,
+          baseURL: config.baseURL,
+          maxRetries: 0,
+        });
+    }
+
+    return this.client;
+  }
+
+  /**
+   * Run a chat completion against the configured endpoint
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.getClient().chat.completions.create(
+      { ...this.buildParams(request), stream: false },
+      { signal: request.signal }
+    );
+
+    const message = response.choices[0]?.message;
+    const toolCalls = message?.tool_calls
+      ?.filter((call) => call.type === 'function')
+      .map((call) => parseToolCall(call.id, call.function.name, call.function.arguments));
+
+    return {
+      content: message?.content || '',
+      model: response.model || request.model,
+      toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Run a streaming chat completion
+   * Usage is requested as a final chunk; servers that ignore `stream_options` report none
+   */
+  async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMResponse> {
+    const stream = await this.getClient().chat.completions.create(
+      { ...this.buildParams(request), stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let model = request.model;
+    let usage: LLMResponse['usage'];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.model) {
+        model = chunk.model;
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+
+    return { content, model, usage };
+  }
+
+  private buildParams(request: LLMRequest) {
+    return {
+      model: request.model,
+      messages: request.messages.map((msg) => this.toMessageParam(msg)),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format:
+        request.responseFormat === 'json' ? { type: 'json_object' as const } : undefined,
+      tools: request.tools?.map((tool) => ({
+        type: 'function' as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+    };
+  }
+
+  private toMessageParam(msg: LLMMessage): ChatCompletionMessageParam {
+    if (msg.role === 'tool') {
+      return { role: 'tool', content: msg.content, tool_call_id: msg.toolCallId || '' };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+
+    return { role: msg.role, content: msg.content };
+  }
+}
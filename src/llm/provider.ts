@@ -0,0 +1,96 @@
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /**
+   * Tool calls requested by the model (assistant messages only)
+   */
+  toolCalls?: LLMToolCall[];
+  /**
+   * Id of the tool call this message answers (tool messages only)
+   */
+  toolCallId?: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /**
+   * JSON Schema of the tool arguments
+   */
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /**
+   * Set when the model sent arguments that are not valid JSON; the tool is not run and
+   * the error is returned to the model as the tool result instead
+   */
+  argumentsError?: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  /**
+   * Ask the provider to constrain output to a JSON object where supported
+   */
+  responseFormat?: 'text' | 'json';
+  /**
+   * Tools the model may call instead of answering directly
+   */
+  tools?: ToolDefinition[];
+  /**
+   * Aborts the in-flight HTTP request (per-call timeouts)
+   */
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+  toolCalls?: LLMToolCall[];
+}
+
+/**
+ * Contract implemented by every LLM backend the agents can talk to
+ */
+export interface LLMProvider {
+  /**
+   * Provider identifier (openai, azure, anthropic, local, replay)
+   */
+  readonly name: string;
+
+  /**
+   * Default model used when the caller does not request one
+   */
+  readonly defaultModel: string;
+
+  /**
+   * API endpoint the provider talks to; part of the cache and cassette keys so that
+   * responses from different servers behind the same model name are never mixed up
+   */
+  readonly endpoint?: string;
+
+  /**
+   * Run a single chat completion
+   */
+  complete(request: LLMRequest): Promise<LLMResponse>;
+
+  /**
+   * Run a chat completion, reporting content deltas as they arrive
+   * Optional: callers fall back to `complete` for providers without streaming
+   */
+  stream?(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMResponse>;
+}
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import { getLogger } from '../utils/logger';
+import { LLMProvider, LLMRequest, LLMResponse, LLMToolCall } from './provider';
+
+const logger = getLogger();
+
+export interface ReplayEntry {
+  /**
+   * Optional substring the latest user (or tool result) message must contain for this entry
+   */
+  match?: string;
+  content: string;
+  toolCalls?: LLMToolCall[];
+}
+
+export interface ReplayScript {
+  responses: ReplayEntry[];
+}
+
+/**
+ * Deterministic provider that serves scripted responses from a JSON file
+ * Lets agent logic run offline without an API key, e.g.
+ * { "responses": [{ "match": "generate comprehensive test scenarios", "content": "[...]" }] }
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+  readonly defaultModel: string;
+  private entries: ReplayEntry[];
+  private used = new Set<number>();
+
+  constructor(config: { model: string; replayPath?: string; script?: ReplayScript }) {
+    this.defaultModel = config.model;
+
+    if (config.script) {
+      this.entries = config.script.responses;
+    } else if (config.replayPath && fs.existsSync(config.replayPath)) {
+      const script = JSON.parse(fs.readFileSync(config.replayPath, 'utf-8')) as ReplayScript;
+      this.entries = script.responses || [];
+    } else {
+      throw new Error(`Replay script not found: ${config.replayPath}`);
+    }
+
+    logger.debug('Replay provider initialized', { responses: this.entries.length });
+  }
+
+  /**
+   * Serve the next scripted response matching the latest user message
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const lastUserMessage =
+      [...request.messages].reverse().find((msg) => msg.role === 'user' || msg.role === 'tool')
+        ?.content || '';
+
+    const index = this.entries.findIndex(
+      (entry, i) => !this.used.has(i) && (!entry.match || lastUserMessage.includes(entry.match))
+    );
+
+    if (index === -1) {
+      throw new Error(
+        `Replay provider has no response left for message: ${lastUserMessage.substring(0, 100)}`
+      );
+    }
+
+    this.used.add(index);
+
+    return {
+      content: this.entries[index].content,
+      model: request.model,
+      toolCalls: this.entries[index].toolCalls,
+    };
+  }
+}
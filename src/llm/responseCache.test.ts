@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LLMTarget } from './cassette';
+import { LLMRequest } from './provider';
+import { ResponseCache } from './responseCache';
+
+const openai: LLMTarget = { name: 'openai', endpoint: 'https://api.openai.com/v1' };
+
+const request: LLMRequest = {
+  model: 'gpt-4o',
+  messages: [{ role: 'user', content: 'Write a scenario' }],
+  temperature: 0.2,
+  maxTokens: 100,
+};
+
+describe('ResponseCache', () => {
+  let dir: string;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'));
+    cache = new ResponseCache({ dir, ttlMs: 60_000 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves a stored response and leaves no temporary files behind', () => {
+    cache.set(request, openai, { content: 'Scenario', model: 'gpt-4o' });
+
+    expect(cache.get(request, openai)).toEqual({ content: 'Scenario', model: 'gpt-4o' });
+    expect(fs.readdirSync(dir).filter((file) => !file.endsWith('.json'))).toEqual([]);
+    expect(cache.getStats()).toMatchObject({ hits: 1, writes: 1 });
+  });
+
+  it('treats an unreadable entry as a miss and deletes it', () => {
+    cache.set(request, openai, { content: 'Scenario', model: 'gpt-4o' });
+    const [entry] = fs.readdirSync(dir);
+    fs.writeFileSync(path.join(dir, entry), '{"response": {"content": "Scen');
+
+    expect(cache.get(request, openai)).toBeNull();
+    expect(fs.existsSync(path.join(dir, entry))).toBe(false);
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1 });
+  });
+
+  it('keeps responses from different providers, endpoints and tool schemas apart', () => {
+    cache.set(request, openai, { content: 'Scenario', model: 'gpt-4o' });
+
+    expect(cache.get(request, { name: 'azure', endpoint: openai.endpoint })).toBeNull();
+    expect(cache.get(request, { name: 'openai', endpoint: 'http://proxy.local/v1' })).toBeNull();
+
+    const tool = { name: 'read_file', description: 'Read a file', parameters: { type: 'object' } };
+    cache.set({ ...request, tools: [tool] }, openai, { content: 'With tool', model: 'gpt-4o' });
+    const changedSchema = { ...tool, parameters: { type: 'object', required: ['path'] } };
+    expect(cache.get({ ...request, tools: [changedSchema] }, openai)).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getEnvConfig } from '../utils/env';
+import { getLogger } from '../utils/logger';
+import { Cassette, LLMTarget } from './cassette';
+import { LLMRequest, LLMResponse } from './provider';
+
+const logger = getLogger();
+
+export interface CachedResponse {
+  response: LLMResponse;
+  model: string;
+  cachedAt: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  expired: number;
+  writes: number;
+}
+
+/**
+ * Response Cache - content-addressed on-disk cache of LLM responses
+ * Entries are keyed like cassette entries (provider, endpoint, model, messages, tools and
+ * sampling parameters), one JSON file per request, so rerunning a step with unchanged
+ * inputs never reaches the provider
+ */
+export class ResponseCache {
+  readonly dir: string;
+  private ttlMs: number;
+  private enabled: boolean;
+  private stats: CacheStats = { hits: 0, misses: 0, expired: 0, writes: 0 };
+
+  constructor(options: { dir: string; ttlMs: number; enabled?: boolean }) {
+    this.dir = path.resolve(options.dir);
+    this.ttlMs = options.ttlMs;
+    this.enabled = options.enabled ?? true;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Enable or disable the cache (e.g. --no-cache)
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Get a cached response, or null on a miss or expired entry
+   * Unreadable entries (e.g. truncated by a crash) count as misses and are deleted
+   */
+  get(request: LLMRequest, target: LLMTarget): LLMResponse | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const key = Cassette.hashRequest(request, target);
+    const filePath = this.entryPath(key);
+
+    if (!fs.existsSync(filePath)) {
+      this.stats.misses++;
+      return null;
+    }
+
+    const entry = this.readEntry(filePath);
+    if (!entry) {
+      logger.warn('Discarding unreadable LLM cache entry', { filePath });
+      this.stats.misses++;
+      fs.rmSync(filePath, { force: true });
+      return null;
+    }
+
+    if (Date.now() - Date.parse(entry.cachedAt) > this.ttlMs) {
+      this.stats.expired++;
+      fs.unlinkSync(filePath);
+      return null;
+    }
+
+    this.stats.hits++;
+    logger.info('LLM cache hit', { key: key.substring(0, 12), model: entry.model });
+    return entry.response;
+  }
+
+  /**
+   * Store a response
+   * Written to a temporary file and renamed into place, so readers never see a partial entry
+   */
+  set(request: LLMRequest, target: LLMTarget, response: LLMResponse): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const key = Cassette.hashRequest(request, target);
+    const entry: CachedResponse = {
+      response,
+      model: request.model,
+      cachedAt: new Date().toISOString(),
+    };
+
+    const filePath = this.entryPath(key);
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(entry, null, 2));
+    fs.renameSync(tempPath, filePath);
+    this.stats.writes++;
+  }
+
+  /**
+   * Hit/miss counters since the last reset
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Reset the counters (start of a new run)
+   */
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0, expired: 0, writes: 0 };
+  }
+
+  /**
+   * Delete all cached responses
+   */
+  clear(): void {
+    if (fs.existsSync(this.dir)) {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+    }
+    logger.info('LLM response cache cleared', { dir: this.dir });
+  }
+
+  private readEntry(filePath: string): CachedResponse | null {
+    try {
+      const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CachedResponse;
+      if (!entry?.response || typeof entry.cachedAt !== 'string') {
+        return null;
+      }
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+// Singleton instance
+let cacheInstance: ResponseCache | null = null;
+
+/**
+ * Get the response cache configured by LLM_CACHE / LLM_CACHE_DIR / LLM_CACHE_TTL_HOURS
+ */
+export function getResponseCache(): ResponseCache {
+  if (!cacheInstance) {
+    const { llm } = getEnvConfig();
+    cacheInstance = new ResponseCache({
+      dir: llm.cacheDir,
+      ttlMs: llm.cacheTtlHours * 60 * 60 * 1000,
+      enabled: llm.cache,
+    });
+  }
+  return cacheInstance;
+}
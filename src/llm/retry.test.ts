@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnthropicStreamError } from './anthropicProvider';
+import {
+  computeBackoffMs,
+  ConcurrencyLimiter,
+  getRetryAfterMs,
+  isRetryableError,
+  LLMTimeoutError,
+  withIdleTimeout,
+  withTimeout,
+} from './retry';
+
+const policy = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+describe('isRetryableError', () => {
+  it('retries timeouts, rate limits, conflicts and server errors', () => {
+    expect(isRetryableError(new LLMTimeoutError(1000))).toBe(true);
+    for (const status of [408, 409, 429, 500, 503, 529]) {
+      expect(isRetryableError({ status })).toBe(true);
+    }
+    // axios errors carry the status on the response
+    expect(isRetryableError({ response: { status: 502 } })).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isRetryableError({ status })).toBe(false);
+    }
+  });
+
+  it('retries dropped connections but not unknown errors', () => {
+    expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+    expect(isRetryableError({ name: 'APIConnectionError' })).toBe(true);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+    expect(isRetryableError(undefined)).toBe(false);
+  });
+
+  it('classifies errors reported in the middle of a stream like their HTTP status', () => {
+    expect(
+      isRetryableError(
+        new AnthropicStreamError({ type: 'overloaded_error', message: 'Overloaded' })
+      )
+    ).toBe(true);
+    expect(
+      isRetryableError(new AnthropicStreamError({ type: 'invalid_request_error', message: 'Bad' }))
+    ).toBe(false);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads retry-after-ms, retry-after seconds and HTTP dates', () => {
+    expect(getRetryAfterMs({ headers: { 'retry-after-ms': '250' } })).toBe(250);
+    expect(getRetryAfterMs({ response: { headers: { 'retry-after': '2' } } })).toBe(2000);
+    expect(getRetryAfterMs({ headers: new Headers({ 'retry-after': '3' }) })).toBe(3000);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    expect(getRetryAfterMs({ headers: { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' } })).toBe(
+      5000
+    );
+  });
+
+  it('is undefined without a usable header', () => {
+    expect(getRetryAfterMs({})).toBeUndefined();
+    expect(getRetryAfterMs({ headers: { 'retry-after': 'soon' } })).toBeUndefined();
+  });
+});
+
+describe('computeBackoffMs', () => {
+  it('grows exponentially with jitter between half and the full delay', () => {
+    for (const [attempt, ceiling] of [
+      [0, 1000],
+      [1, 2000],
+      [2, 4000],
+    ]) {
+      const delay = computeBackoffMs(attempt, policy);
+      expect(delay).toBeGreaterThanOrEqual(ceiling / 2);
+      expect(delay).toBeLessThanOrEqual(ceiling);
+    }
+  });
+
+  it('caps the delay at maxDelayMs and honors the server delay up to two minutes', () => {
+    expect(computeBackoffMs(10, policy)).toBeLessThanOrEqual(30000);
+    expect(computeBackoffMs(0, policy, 7000)).toBe(7000);
+    expect(computeBackoffMs(0, policy, 10 * 60 * 1000)).toBe(120000);
+  });
+});
+
+describe('withTimeout', () => {
+  it('rejects with LLMTimeoutError and aborts the call', async () => {
+    let aborted = false;
+    const call = (signal: AbortSignal) =>
+      new Promise<string>((resolve) => {
+        signal.addEventListener('abort', () => {
+          aborted = true;
+        });
+        setTimeout(() => resolve('late'), 1000);
+      });
+
+    await expect(withTimeout(call, 10)).rejects.toBeInstanceOf(LLMTimeoutError);
+    expect(aborted).toBe(true);
+  });
+
+  it('returns the result of a call that finishes in time', async () => {
+    await expect(withTimeout(async () => 'done', 1000)).resolves.toBe('done');
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('never runs more tasks at once than allowed', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+
+    expect(peak).toBe(2);
+    expect(limiter.pending).toBe(0);
+  });
+});
+
+describe('withIdleTimeout', () => {
+  const streamChunks = (count: number, gapMs: number) => (signal: AbortSignal, touch: () => void) =>
+    new Promise<number>((resolve, reject) => {
+      let sent = 0;
+      const timer = setInterval(() => {
+        touch();
+        if (++sent === count) {
+          clearInterval(timer);
+          resolve(sent);
+        }
+      }, gapMs);
+      signal.addEventListener('abort', () => {
+        clearInterval(timer);
+        reject(new Error('aborted'));
+      });
+    });
+
+  it('lets a stream run longer than the timeout while chunks keep arriving', async () => {
+    await expect(withIdleTimeout(streamChunks(8, 10), 50)).resolves.toBe(8);
+  });
+
+  it('times out when the first chunk does not arrive in time', async () => {
+    await expect(withIdleTimeout(streamChunks(3, 200), 20)).rejects.toThrow(
+      'LLM stream sent no data within 20ms'
+    );
+  });
+
+  it('times out when the stream stalls between chunks', async () => {
+    const stalling = (_signal: AbortSignal, touch: () => void) =>
+      new Promise<string>((resolve) => {
+        touch();
+        setTimeout(() => resolve('late'), 500);
+      });
+
+    const error = await withIdleTimeout(stalling, 20).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(LLMTimeoutError);
+    expect((error as Error).message).toBe('LLM stream stalled: no data for 20ms');
+  });
+});
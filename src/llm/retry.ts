@@ -0,0 +1,256 @@
+import { getEnvConfig } from '../utils/env';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Upper bound for server-requested delays, so a bogus retry-after cannot stall a run
+ */
+const MAX_RETRY_AFTER_MS = 120000;
+
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429]);
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+]);
+
+/**
+ * Thrown when an LLM call does not finish within the configured timeout
+ */
+export class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number, message = `LLM call timed out after ${timeoutMs}ms`) {
+    super(message);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+interface ErrorLike {
+  name?: string;
+  code?: string;
+  status?: number;
+  headers?: unknown;
+  response?: { status?: number; headers?: unknown };
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  // Fetch-style Headers and axios' AxiosHeaders both expose get()
+  const getter = (headers as { get?: (key: string) => unknown }).get;
+  const value =
+    typeof getter === 'function'
+      ? getter.call(headers, name)
+      : (headers as Record<string, unknown>)[name];
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+/**
+ * HTTP status of a provider error (OpenAI SDK errors and axios errors)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const err = error as ErrorLike | undefined;
+  return err?.status ?? err?.response?.status;
+}
+
+/**
+ * Delay requested by the server via `retry-after-ms` or `retry-after` (seconds or HTTP date)
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const err = error as ErrorLike | undefined;
+  const headers = err?.headers ?? err?.response?.headers;
+
+  const retryAfterMs = readHeader(headers, 'retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  if (!isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether a failed call is worth retrying: timeouts, rate limits, server errors
+ * and dropped connections. Client errors (bad request, auth) are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) {
+    return true;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS_CODES.has(status) || status >= 500;
+  }
+
+  const err = error as ErrorLike | undefined;
+  return (
+    err?.name === 'APIConnectionError' ||
+    err?.name === 'APIConnectionTimeoutError' ||
+    (!!err?.code && NETWORK_ERROR_CODES.has(err.code))
+  );
+}
+
+/**
+ * Delay before the given retry (0-based): the server's retry-after when present,
+ * otherwise exponential backoff with jitter
+ */
+export function computeBackoffMs(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a call with a timeout, aborting it through the provided signal when it fires
+ * @throws {LLMTimeoutError}
+ */
+export async function withTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new LLMTimeoutError(timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a streamed call that times out when no data arrives for `idleMs`: before the first
+ * chunk, or between two chunks. The call reports each chunk by calling `touch`, so a long
+ * but steadily streaming response is never cut off
+ * @throws {LLMTimeoutError}
+ */
+export async function withIdleTimeout<T>(
+  fn: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  idleMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  let received = false;
+  let rejectTimeout: (error: LLMTimeoutError) => void = () => undefined;
+
+  const arm = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      rejectTimeout(
+        new LLMTimeoutError(
+          idleMs,
+          received
+            ? `LLM stream stalled: no data for ${idleMs}ms`
+            : `LLM stream sent no data within ${idleMs}ms`
+        )
+      );
+      controller.abort();
+    }, idleMs);
+  };
+
+  const timeout = new Promise<never>((_, reject) => {
+    rejectTimeout = reject;
+  });
+  const touch = () => {
+    received = true;
+    arm();
+  };
+
+  arm();
+  try {
+    return await Promise.race([fn(controller.signal, touch), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Concurrency Limiter - caps in-flight LLM calls across all agents
+ */
+export class ConcurrencyLimiter {
+  private maxConcurrency: number;
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(maxConcurrency: number) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.maxConcurrency) {
+      // The finishing task hands its slot over directly, so `active` is not incremented here
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  /**
+   * Number of tasks waiting for a slot
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+}
+
+// Singleton instance
+let limiterInstance: ConcurrencyLimiter | null = null;
+
+/**
+ * Get the ConcurrencyLimiter singleton, sized from LLM_MAX_CONCURRENCY
+ */
+export function getConcurrencyLimiter(): ConcurrencyLimiter {
+  if (!limiterInstance) {
+    limiterInstance = new ConcurrencyLimiter(getEnvConfig().llm.maxConcurrency);
+  }
+  return limiterInstance;
+}
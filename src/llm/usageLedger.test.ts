@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetExceededError, formatUsageMarkdown, UsageLedger } from './usageLedger';
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+describe('UsageLedger', () => {
+  it('aggregates calls by agent, phase and model', () => {
+    const ledger = new UsageLedger();
+    ledger.setPhase('Scenario Design');
+    ledger.record('QA Agent', 'gpt-4o', usage(1000, 500));
+    ledger.setPhase('Implementation');
+    ledger.record('SDET Agent', 'gpt-4o', usage(2000, 1000));
+    ledger.recordRetry('SDET Agent', 'gpt-4o');
+
+    const summary = ledger.getSummary();
+    expect(summary.total).toMatchObject({ calls: 2, totalTokens: 4500, retries: 1 });
+    expect(summary.total.costUsd).toBeCloseTo(0.0225);
+    expect(Object.keys(summary.byPhase)).toEqual(['Scenario Design', 'Implementation']);
+    expect(summary.byAgent['SDET Agent']).toMatchObject({ calls: 1, retries: 1 });
+  });
+
+  it('prices dated model ids by their longest known prefix and unknown models at 0', () => {
+    const ledger = new UsageLedger({ prices: { 'local-model': { prompt: 1, completion: 1 } } });
+
+    expect(ledger.calculateCost('gpt-4o-mini-2024-07-18', usage(1_000_000, 0))).toBeCloseTo(0.15);
+    expect(ledger.calculateCost('local-model', usage(500_000, 500_000))).toBeCloseTo(1);
+    expect(ledger.calculateCost('mystery', usage(1000, 1000))).toBe(0);
+  });
+
+  it('throws once the token or cost budget is exceeded', () => {
+    const tokens = new UsageLedger({ budgetTokens: 1000 });
+    tokens.record('QA Agent', 'gpt-4o', usage(600, 300));
+    expect(() => tokens.record('QA Agent', 'gpt-4o', usage(100, 100))).toThrow(BudgetExceededError);
+
+    const cost = new UsageLedger({ budgetUsd: 0.01 });
+    expect(() => cost.record('QA Agent', 'gpt-4o', usage(0, 2000))).toThrow(
+      'LLM cost budget exceeded: $0.0200 > $0.01'
+    );
+  });
+
+  it('carries the usage of a resumed run over, against the current budget', () => {
+    const first = new UsageLedger({ budgetTokens: 5000 });
+    first.setPhase('Implementation');
+    first.record('SDET Agent', 'gpt-4o', usage(3000, 1000));
+    const saved = first.getSummary();
+
+    const resumed = new UsageLedger({ budgetTokens: 4500 });
+    resumed.reset(saved);
+    expect(resumed.getSummary()).toMatchObject({
+      total: { totalTokens: 4000 },
+      budgetTokens: 4500,
+    });
+
+    resumed.setPhase('Execution');
+    expect(() => resumed.record('SDET Agent', 'gpt-4o', usage(400, 200))).toThrow(
+      'LLM token budget exceeded: 4600 > 4500 tokens'
+    );
+    expect(Object.keys(resumed.getSummary().byPhase)).toEqual(['Implementation', 'Execution']);
+
+    resumed.reset();
+    expect(resumed.getSummary().total.calls).toBe(0);
+  });
+});
+
+describe('formatUsageMarkdown', () => {
+  it('lists the totals, the budget and one row per phase', () => {
+    const ledger = new UsageLedger({ budgetUsd: 5 });
+    ledger.setPhase('Scenario Design');
+    ledger.record('QA Agent', 'gpt-4o', usage(1000, 500));
+
+    const md = formatUsageMarkdown(ledger.getSummary());
+    expect(md).toContain('- **Cost:** $0.0075 of $5.00 budget');
+    expect(md).toContain('| Scenario Design | 1 | 1500 | $0.0075 | 0 |');
+  });
+});
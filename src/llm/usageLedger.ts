@@ -0,0 +1,264 @@
+import * as fs from 'fs';
+import { getEnvConfig } from '../utils/env';
+import { getLogger } from '../utils/logger';
+import { LLMUsage } from './provider';
+
+const logger = getLogger();
+
+/**
+ * Price per one million tokens in USD
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /**
+   * Failed calls that were retried (including switches to a fallback model)
+   */
+  retries: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+  byPhase: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  budgetUsd?: number;
+  budgetTokens?: number;
+}
+
+/**
+ * Default prices, overridable via LLM_PRICE_TABLE (JSON file with the same shape)
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'claude-sonnet-4-5': { prompt: 3, completion: 15 },
+  'claude-haiku-4-5': { prompt: 1, completion: 5 },
+};
+
+/**
+ * Thrown when a run exceeds its configured token or cost budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, retries: 0 };
+}
+
+/**
+ * Usage Ledger - aggregates token usage and cost for a run and enforces the budget
+ */
+export class UsageLedger {
+  private prices: PriceTable;
+  private budgetUsd?: number;
+  private budgetTokens?: number;
+  private phase = 'Unscoped';
+  private summary: UsageSummary;
+  private unpricedModels = new Set<string>();
+
+  constructor(options: { prices?: PriceTable; budgetUsd?: number; budgetTokens?: number } = {}) {
+    this.prices = { ...DEFAULT_PRICE_TABLE, ...options.prices };
+    this.budgetUsd = options.budgetUsd;
+    this.budgetTokens = options.budgetTokens;
+    this.summary = this.createSummary();
+  }
+
+  /**
+   * Set the phase subsequent calls are attributed to
+   */
+  setPhase(phase: string): void {
+    this.phase = phase;
+  }
+
+  /**
+   * Record the usage of a single LLM call
+   * @throws {BudgetExceededError} if the call pushed the run over budget
+   */
+  record(agent: string, model: string, usage: LLMUsage): void {
+    const costUsd = this.calculateCost(model, usage);
+
+    for (const totals of this.buckets(agent, model)) {
+      totals.calls++;
+      totals.promptTokens += usage.promptTokens;
+      totals.completionTokens += usage.completionTokens;
+      totals.totalTokens += usage.totalTokens;
+      totals.costUsd += costUsd;
+    }
+
+    logger.debug('LLM usage recorded', {
+      agent,
+      model,
+      phase: this.phase,
+      tokens: usage.totalTokens,
+      costUsd: costUsd.toFixed(4),
+    });
+
+    this.assertWithinBudget();
+  }
+
+  /**
+   * Record a retried LLM call
+   */
+  recordRetry(agent: string, model: string): void {
+    for (const totals of this.buckets(agent, model)) {
+      totals.retries++;
+    }
+  }
+
+  /**
+   * Throw if the run is already over its budget
+   * @throws {BudgetExceededError}
+   */
+  assertWithinBudget(): void {
+    const { total } = this.summary;
+
+    if (this.budgetTokens !== undefined && total.totalTokens > this.budgetTokens) {
+      throw new BudgetExceededError(
+        `LLM token budget exceeded: ${total.totalTokens} > ${this.budgetTokens} tokens`
+      );
+    }
+
+    if (this.budgetUsd !== undefined && total.costUsd > this.budgetUsd) {
+      throw new BudgetExceededError(
+        `LLM cost budget exceeded: $${total.costUsd.toFixed(4)} > $${this.budgetUsd.toFixed(2)}`
+      );
+    }
+  }
+
+  /**
+   * Calculate the cost of a call, matching the longest price-table prefix of the model name
+   * (providers often return dated model ids such as gpt-4o-2024-08-06)
+   */
+  calculateCost(model: string, usage: LLMUsage): number {
+    const key = Object.keys(this.prices)
+      .filter((name) => model === name || model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+
+    if (!key) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        logger.warn(`No price configured for model ${model}, cost will be reported as 0`);
+      }
+      return 0;
+    }
+
+    const price = this.prices[key];
+    return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+  }
+
+  /**
+   * Get a snapshot of the aggregated usage
+   */
+  getSummary(): UsageSummary {
+    return JSON.parse(JSON.stringify(this.summary)) as UsageSummary;
+  }
+
+  /**
+   * Clear all recorded usage (start of a new run)
+   * @param carriedOver - Usage of the earlier phases when a run is resumed; the budget
+   *   stays the one configured now
+   */
+  reset(carriedOver?: UsageSummary): void {
+    this.phase = 'Unscoped';
+    this.summary = carriedOver
+      ? {
+          ...(JSON.parse(JSON.stringify(carriedOver)) as UsageSummary),
+          budgetUsd: this.budgetUsd,
+          budgetTokens: this.budgetTokens,
+        }
+      : this.createSummary();
+  }
+
+  private createSummary(): UsageSummary {
+    return {
+      total: emptyTotals(),
+      byAgent: {},
+      byPhase: {},
+      byModel: {},
+      budgetUsd: this.budgetUsd,
+      budgetTokens: this.budgetTokens,
+    };
+  }
+
+  private buckets(agent: string, model: string): UsageTotals[] {
+    return [
+      this.summary.total,
+      this.bucket(this.summary.byAgent, agent),
+      this.bucket(this.summary.byPhase, this.phase),
+      this.bucket(this.summary.byModel, model),
+    ];
+  }
+
+  private bucket(group: Record<string, UsageTotals>, key: string): UsageTotals {
+    if (!group[key]) {
+      group[key] = emptyTotals();
+    }
+    return group[key];
+  }
+}
+
+/**
+ * Format a usage summary as a markdown section (reports and PR bodies)
+ */
+export function formatUsageMarkdown(summary: UsageSummary, heading: string = '### 💰 LLM Cost'): string {
+  const { total } = summary;
+  let md = `${heading}\n\n`;
+  md += `- **LLM Calls:** ${total.calls}\n`;
+  md += `- **Tokens:** ${total.totalTokens} (${total.promptTokens} prompt / ${total.completionTokens} completion)\n`;
+  md += `- **Cost:** $${total.costUsd.toFixed(4)}`;
+  if (summary.budgetUsd !== undefined) {
+    md += ` of $${summary.budgetUsd.toFixed(2)} budget`;
+  }
+  md += `\n`;
+  md += `- **Retries:** ${total.retries}\n\n`;
+
+  md += `| Phase | Calls | Tokens | Cost | Retries |\n`;
+  md += `|-------|-------|--------|------|---------|\n`;
+  for (const [phase, totals] of Object.entries(summary.byPhase)) {
+    md += `| ${phase} | ${totals.calls} | ${totals.totalTokens} | $${totals.costUsd.toFixed(4)} | ${totals.retries} |\n`;
+  }
+  md += `\n`;
+
+  return md;
+}
+
+// Singleton instance
+let ledgerInstance: UsageLedger | null = null;
+
+/**
+ * Get the usage ledger singleton, configured from the `llm` env section
+ */
+export function getUsageLedger(): UsageLedger {
+  if (!ledgerInstance) {
+    const config = getEnvConfig();
+    let prices: PriceTable | undefined;
+
+    if (config.llm.priceTablePath) {
+      prices = JSON.parse(fs.readFileSync(config.llm.priceTablePath, 'utf-8')) as PriceTable;
+    }
+
+    ledgerInstance = new UsageLedger({
+      prices,
+      budgetUsd: config.llm.budgetUsd,
+      budgetTokens: config.llm.budgetTokens,
+    });
+  }
+  return ledgerInstance;
+}
@@ -3,6 +3,7 @@ import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
 import { getLogger } from '../utils/logger';
 import { BaseMCPClient } from './baseClient';
 import { getEnvConfig } from '../utils/env';
+import { readPlaywrightReport, TestCaseResult } from '../utils/scenarioResults';
 
 const logger = getLogger();
 
@@ -15,6 +16,10 @@ export interface PlaywrightTestResult {
   duration: number;
   failures?: TestFailure[];
   reportPath?: string;
+  /**
+   * Per-test results from the JSON report the run wrote, used to map results to scenarios
+   */
+  tests?: TestCaseResult[];
 }
 
 export interface TestFailure {
@@ -178,6 +183,8 @@ export class PlaywrightClient {
   async run(options: RunTestOptions = {}): Promise<PlaywrightTestResult> {
     logger.info('Running Playwright tests via MCP', { options });
 
+    const startTime = Date.now();
+
     try {
       const result = await this.callTool<string>('playwright_run_tests', {
         testPath: options.testPath,
@@ -207,6 +214,7 @@ export class PlaywrightClient {
         duration: parsed.duration || 0,
         failures: parsed.failures,
         reportPath: parsed.reportPath,
+        tests: this.readTestCases(options, startTime),
       };
     } catch (error) {
       logger.error('Test execution failed', { error });
@@ -214,6 +222,17 @@ export class PlaywrightClient {
     }
   }
 
+  /**
+   * Per-test results written by this run's JSON reporter
+   * The server runs the project's config, which includes one unless a reporter override replaces it
+   */
+  private readTestCases(options: RunTestOptions, startTime: number): TestCaseResult[] | undefined {
+    if (options.reporter && !options.reporter.includes('json')) {
+      return undefined;
+    }
+    return readPlaywrightReport(undefined, startTime);
+  }
+
   /**
    * Generate test code using Playwright Codegen
    */
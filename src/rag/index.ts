@@ -166,6 +166,13 @@ export class RAG {
     return this.vectorStore.count();
   }
 
+  /**
+   * Get the sources of all indexed documents
+   */
+  async getIndexedSources(): Promise<string[]> {
+    return this.vectorStore.getSources();
+  }
+
   /**
    * Clear all indexed documents
    */
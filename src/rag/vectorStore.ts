@@ -1,5 +1,5 @@
-import { ChromaClient, Collection, OpenAIEmbeddingFunction } from 'chromadb';
-import { getEnvConfig } from '../utils/env';
+import { ChromaClient, Collection, IncludeEnum, OpenAIEmbeddingFunction } from 'chromadb';
+import { getEmbeddingApiKey, getEnvConfig } from '../utils/env';
 import { getLogger } from '../utils/logger';
 
 const logger = getLogger();
@@ -33,7 +33,7 @@ export interface SearchResult {
 export class VectorStore {
   private client: ChromaClient;
   private collection: Collection | null = null;
-  private embeddingFunction: OpenAIEmbeddingFunction;
+  private embeddingFunction: OpenAIEmbeddingFunction | null = null;
   private collectionName: string;
 
   constructor() {
@@ -46,12 +46,6 @@ export class VectorStore {
       path: `http://${config.chroma.host}:${config.chroma.port}`,
     });
 
-    // Initialize OpenAI embedding function
-    this.embeddingFunction = new OpenAIEmbeddingFunction({
-      openai_api_key: config.openai.apiKey,
-      openai_model: config.openai.embeddingModel,
-    });
-
     logger.info('VectorStore initialized', {
       host: config.chroma.host,
       port: config.chroma.port,
@@ -59,22 +53,40 @@ export class VectorStore {
     });
   }
 
+  /**
+   * OpenAI embedding function, created on first use so that runs without RAG need no OpenAI key
+   * @throws {Error} if no OpenAI key is configured
+   */
+  private getEmbeddingFunction(): OpenAIEmbeddingFunction {
+    if (!this.embeddingFunction) {
+      const config = getEnvConfig();
+      this.embeddingFunction = new OpenAIEmbeddingFunction({
+        openai_api_key: getEmbeddingApiKey(config),
+        openai_model: config.openai.embeddingModel,
+      });
+    }
+    return this.embeddingFunction;
+  }
+
   /**
    * Initialize or get the collection
+   * @throws {Error} if no OpenAI key is configured for embeddings
    */
   async initialize(): Promise<void> {
+    const embeddingFunction = this.getEmbeddingFunction();
+
     try {
       // Try to get existing collection
       this.collection = await this.client.getCollection({
         name: this.collectionName,
-        embeddingFunction: this.embeddingFunction,
+        embeddingFunction,
       });
       logger.info(`Using existing collection: ${this.collectionName}`);
     } catch (error) {
       // Collection doesn't exist, create it
       this.collection = await this.client.createCollection({
         name: this.collectionName,
-        embeddingFunction: this.embeddingFunction,
+        embeddingFunction,
         metadata: { description: 'Agentic Playwright requirements and documentation' },
       });
       logger.info(`Created new collection: ${this.collectionName}`);
@@ -180,7 +192,7 @@ export class VectorStore {
     await this.client.deleteCollection({ name: this.collectionName });
     this.collection = await this.client.createCollection({
       name: this.collectionName,
-      embeddingFunction: this.embeddingFunction,
+      embeddingFunction: this.getEmbeddingFunction(),
     });
 
     logger.info('Cleared all documents from vector store');
@@ -239,6 +251,25 @@ export class VectorStore {
     return documents;
   }
 
+  /**
+   * Get the distinct sources (issue keys, page ids, file names) of all indexed documents
+   */
+  async getSources(): Promise<string[]> {
+    if (!this.collection) {
+      await this.initialize();
+    }
+
+    const results = await this.collection!.get({ include: [IncludeEnum.Metadatas] });
+
+    const sources = new Set<string>();
+    for (const metadata of results.metadatas ?? []) {
+      if (typeof metadata?.source === 'string') {
+        sources.add(metadata.source);
+      }
+    }
+    return [...sources];
+  }
+
   /**
    * Update document metadata
    */
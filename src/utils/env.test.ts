@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getEmbeddingApiKey, validateEnvironment } from './env';
+
+describe('validateEnvironment', () => {
+  afterEach(() => {
+    delete process.env.LLM_CONTEXT_WINDOWS;
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_MODEL;
+  });
+
+  it('reads per-model context windows from LLM_CONTEXT_WINDOWS', () => {
+    process.env.LLM_CONTEXT_WINDOWS = '{"llama3.1": 32768}';
+
+    expect(validateEnvironment().llm.contextWindows).toEqual({ 'llama3.1': 32768 });
+  });
+
+  it('reports LLM_CONTEXT_WINDOWS that is not JSON or not a map of token counts', () => {
+    process.env.LLM_CONTEXT_WINDOWS = '{llama3.1: 32768}';
+    expect(() => validateEnvironment()).toThrow(
+      /Environment validation failed:\n {2}- llm\.contextWindows: LLM_CONTEXT_WINDOWS is not valid JSON/
+    );
+
+    process.env.LLM_CONTEXT_WINDOWS = '{"llama3.1": "32k"}';
+    expect(() => validateEnvironment()).toThrow(
+      /- llm\.contextWindows\.llama3\.1: Expected number/
+    );
+  });
+
+  it('requires LLM_MODEL for the local provider', () => {
+    process.env.LLM_PROVIDER = 'local';
+    expect(() => validateEnvironment()).toThrow(
+      /- llm\.model: LLM_MODEL is required when LLM_PROVIDER is local/
+    );
+
+    process.env.LLM_MODEL = 'llama3.1';
+    expect(validateEnvironment().llm.model).toBe('llama3.1');
+  });
+});
+
+describe('getEmbeddingApiKey', () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_MODEL;
+    process.env.OPENAI_API_KEY = 'test-key';
+  });
+
+  it('returns the OpenAI key whatever the LLM provider is', () => {
+    process.env.LLM_PROVIDER = 'local';
+    process.env.LLM_MODEL = 'llama3.1';
+
+    expect(getEmbeddingApiKey(validateEnvironment())).toBe('test-key');
+  });
+
+  it('fails when embeddings are used without an OpenAI key', () => {
+    delete process.env.OPENAI_API_KEY;
+    process.env.LLM_PROVIDER = 'local';
+    process.env.LLM_MODEL = 'llama3.1';
+
+    expect(() => getEmbeddingApiKey(validateEnvironment())).toThrow(
+      /OPENAI_API_KEY is required for embeddings .*also when LLM_PROVIDER is local/
+    );
+  });
+});
@@ -7,11 +7,38 @@ dotenv.config();
 
 // OpenAI Configuration Schema
 const openAIConfigSchema = z.object({
-  apiKey: z.string().min(1, 'OPENAI_API_KEY is required'),
+  apiKey: z.string().optional(),
   model: z.string().default('gpt-4o'),
   embeddingModel: z.string().default('text-embedding-3-small'),
 });
 
+// LLM Provider Configuration Schema
+const llmConfigSchema = z.object({
+  provider: z.enum(['openai', 'azure', 'anthropic', 'local', 'replay']).default('openai'),
+  model: z.string().optional(),
+  apiKey: z.string().optional(),
+  baseURL: z.string().url().optional(),
+  azureApiVersion: z.string().default('2024-10-21'),
+  azureDeployment: z.string().optional(),
+  replayPath: z.string().default('config/llm-replay.json'),
+  cassetteMode: z.enum(['off', 'record', 'replay']).default('off'),
+  cassettePath: z.string().default('config/llm-cassette.json'),
+  structuredRetries: z.number().int().min(0).default(2),
+  priceTablePath: z.string().optional(),
+  budgetUsd: z.number().positive().optional(),
+  budgetTokens: z.number().int().positive().optional(),
+  contextStrategy: z.enum(['none', 'drop-oldest', 'summarize']).default('drop-oldest'),
+  contextWindows: z.record(z.number().int().positive()).default({}),
+  stream: z.boolean().default(true),
+  maxRetries: z.number().int().min(0).default(3),
+  timeoutMs: z.number().int().positive().default(300000),
+  maxConcurrency: z.number().int().positive().default(4),
+  fallbackModels: z.array(z.string()).default([]),
+  cache: z.boolean().default(true),
+  cacheDir: z.string().default('.cache/llm'),
+  cacheTtlHours: z.number().positive().default(24),
+});
+
 // Jira Configuration Schema
 const jiraConfigSchema = z.object({
   baseUrl: z.string().url().optional(),
@@ -74,6 +101,28 @@ const featureFlagsSchema = z.object({
   enableA11yTests: z.boolean().default(true),
   enableVisualRegression: z.boolean().default(false),
   enablePerformanceTests: z.boolean().default(false),
+  enableAppExploration: z.boolean().default(true),
+});
+
+// Prompt Template Configuration Schema
+const promptsConfigSchema = z.object({
+  overrideDirs: z.array(z.string()).default([]),
+});
+
+// QA Agent Configuration Schema
+const qaConfigSchema = z.object({
+  similarityThreshold: z.number().min(0).max(1).default(0.85),
+});
+
+// SDET Agent Configuration Schema
+const sdetConfigSchema = z.object({
+  repairAttempts: z.number().int().min(0).default(3),
+  compileAttempts: z.number().int().min(0).default(2),
+});
+
+// Quality Gate Configuration Schema
+const qualityGatesConfigSchema = z.object({
+  policyPath: z.string().default('config/quality-gates.json'),
 });
 
 // Logging Configuration Schema
@@ -85,6 +134,7 @@ const loggingConfigSchema = z.object({
 // Complete Environment Configuration Schema
 const envConfigSchema = z.object({
   openai: openAIConfigSchema,
+  llm: llmConfigSchema,
   jira: jiraConfigSchema,
   confluence: confluenceConfigSchema,
   github: githubConfigSchema,
@@ -94,12 +144,72 @@ const envConfigSchema = z.object({
   playwrightMcp: playwrightMcpConfigSchema,
   mcp: mcpConfigSchema,
   featureFlags: featureFlagsSchema,
+  prompts: promptsConfigSchema,
+  qa: qaConfigSchema,
+  sdet: sdetConfigSchema,
+  qualityGates: qualityGatesConfigSchema,
   logging: loggingConfigSchema,
   nodeEnv: z.enum(['development', 'production', 'test']).default('development'),
+}).superRefine((config, ctx) => {
+  // Replaying a cassette never reaches the provider, so no credentials are needed
+  if (config.llm.cassetteMode === 'replay') {
+    return;
+  }
+  if (config.llm.provider === 'openai' && !config.openai.apiKey && !config.llm.apiKey) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['openai', 'apiKey'],
+      message: 'OPENAI_API_KEY is required when LLM_PROVIDER is openai',
+    });
+  }
+  if ((config.llm.provider === 'azure' || config.llm.provider === 'anthropic') && !config.llm.apiKey) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['llm', 'apiKey'],
+      message: `LLM_API_KEY is required when LLM_PROVIDER is ${config.llm.provider}`,
+    });
+  }
+  if (config.llm.provider === 'local' && !config.llm.model) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['llm', 'model'],
+      message: 'LLM_MODEL is required when LLM_PROVIDER is local',
+    });
+  }
+  if (config.llm.provider === 'azure' && !config.llm.baseURL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['llm', 'baseURL'],
+      message: 'LLM_BASE_URL (Azure endpoint) is required when LLM_PROVIDER is azure',
+    });
+  }
 });
 
 export type EnvConfig = z.infer<typeof envConfigSchema>;
 export type TestEnvType = z.infer<typeof testEnvConfigSchema>['env'];
+export type LLMProviderType = z.infer<typeof llmConfigSchema>['provider'];
+
+/**
+ * Parse a JSON-valued environment variable, leaving the shape to the config schema
+ * @throws {z.ZodError} if the variable is set but is not valid JSON
+ */
+function parseJsonVariable(name: string, configPath: string[]): unknown {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new z.ZodError([
+      {
+        code: z.ZodIssueCode.custom,
+        path: configPath,
+        message: `${name} is not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+      },
+    ]);
+  }
+}
 
 /**
  * Parse and validate environment variables
@@ -112,6 +222,37 @@ function parseEnvironment(): EnvConfig {
       model: process.env.OPENAI_MODEL || 'gpt-4o',
       embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
     },
+    llm: {
+      provider: (process.env.LLM_PROVIDER as LLMProviderType) || 'openai',
+      model: process.env.LLM_MODEL,
+      apiKey: process.env.LLM_API_KEY,
+      baseURL: process.env.LLM_BASE_URL,
+      azureApiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+      azureDeployment: process.env.AZURE_OPENAI_DEPLOYMENT,
+      replayPath: process.env.LLM_REPLAY_PATH || 'config/llm-replay.json',
+      cassetteMode: (process.env.LLM_CASSETTE_MODE as 'off' | 'record' | 'replay') || 'off',
+      cassettePath: process.env.LLM_CASSETTE_PATH || 'config/llm-cassette.json',
+      structuredRetries: parseInt(process.env.LLM_STRUCTURED_RETRIES || '2', 10),
+      priceTablePath: process.env.LLM_PRICE_TABLE,
+      budgetUsd: process.env.LLM_BUDGET_USD ? parseFloat(process.env.LLM_BUDGET_USD) : undefined,
+      budgetTokens: process.env.LLM_BUDGET_TOKENS
+        ? parseInt(process.env.LLM_BUDGET_TOKENS, 10)
+        : undefined,
+      contextStrategy:
+        (process.env.LLM_CONTEXT_STRATEGY as 'none' | 'drop-oldest' | 'summarize') ||
+        'drop-oldest',
+      contextWindows: parseJsonVariable('LLM_CONTEXT_WINDOWS', ['llm', 'contextWindows']) ?? {},
+      stream: process.env.LLM_STREAM !== 'false',
+      maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '3', 10),
+      timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '300000', 10),
+      maxConcurrency: parseInt(process.env.LLM_MAX_CONCURRENCY || '4', 10),
+      fallbackModels: process.env.LLM_FALLBACK_MODELS
+        ? process.env.LLM_FALLBACK_MODELS.split(',').map((model) => model.trim()).filter(Boolean)
+        : [],
+      cache: process.env.LLM_CACHE !== 'false',
+      cacheDir: process.env.LLM_CACHE_DIR || '.cache/llm',
+      cacheTtlHours: parseFloat(process.env.LLM_CACHE_TTL_HOURS || '24'),
+    },
     jira: {
       baseUrl: process.env.JIRA_BASE_URL,
       email: process.env.JIRA_EMAIL,
@@ -157,6 +298,22 @@ function parseEnvironment(): EnvConfig {
       enableA11yTests: process.env.ENABLE_A11Y_TESTS === 'true',
       enableVisualRegression: process.env.ENABLE_VISUAL_REGRESSION === 'true',
       enablePerformanceTests: process.env.ENABLE_PERFORMANCE_TESTS === 'true',
+      enableAppExploration: process.env.ENABLE_APP_EXPLORATION !== 'false',
+    },
+    prompts: {
+      overrideDirs: process.env.PROMPT_OVERRIDE_DIRS
+        ? process.env.PROMPT_OVERRIDE_DIRS.split(',').map((dir) => dir.trim()).filter(Boolean)
+        : [],
+    },
+    qa: {
+      similarityThreshold: parseFloat(process.env.SCENARIO_SIMILARITY_THRESHOLD || '0.85'),
+    },
+    sdet: {
+      repairAttempts: parseInt(process.env.SDET_REPAIR_ATTEMPTS || '3', 10),
+      compileAttempts: parseInt(process.env.SDET_COMPILE_ATTEMPTS || '2', 10),
+    },
+    qualityGates: {
+      policyPath: process.env.QUALITY_GATE_POLICY || 'config/quality-gates.json',
     },
     logging: {
       level: (process.env.LOG_LEVEL as 'error' | 'warn' | 'info' | 'debug') || 'info',
@@ -224,6 +381,22 @@ export function getEnvConfig(): EnvConfig {
   return cachedConfig;
 }
 
+/**
+ * OpenAI key for embeddings (RAG indexing and retrieval, scenario merging), which use
+ * OpenAI whatever LLM_PROVIDER is; LLM_API_KEY counts when the provider is openai
+ * @throws {Error} if no key is configured
+ */
+export function getEmbeddingApiKey(config: EnvConfig): string {
+  const apiKey = config.openai.apiKey || (config.llm.provider === 'openai' ? config.llm.apiKey : undefined);
+  if (!apiKey) {
+    throw new Error(
+      `OPENAI_API_KEY is required for embeddings (${config.openai.embeddingModel}), ` +
+        `also when LLM_PROVIDER is ${config.llm.provider}`
+    );
+  }
+  return apiKey;
+}
+
 /**
  * Check if Jira integration is configured
  */
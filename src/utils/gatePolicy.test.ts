@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_GATE_POLICY,
+  loadGatePlugins,
+  loadGatePolicy,
+  resolveGatePolicy,
+} from './gatePolicy';
+
+describe('gate policy', () => {
+  let dir: string;
+  let policyPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gate-policy-'));
+    policyPath = path.join(dir, 'quality-gates.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writePolicy = (policy: unknown) => fs.writeFileSync(policyPath, JSON.stringify(policy));
+
+  it('uses the default policy when there is no policy file', () => {
+    expect(loadGatePolicy(policyPath)).toBe(DEFAULT_GATE_POLICY);
+  });
+
+  it('resolves plugin paths against the policy file directory', () => {
+    writePolicy({
+      plugins: ['./gates/a11y.js'],
+      environments: { prod: { plugins: ['../shared/perf.js'] } },
+    });
+
+    const policy = loadGatePolicy(policyPath);
+    expect(policy.plugins).toEqual([path.join(dir, 'gates', 'a11y.js')]);
+    expect(policy.environments.prod?.plugins).toEqual([path.resolve(dir, '../shared/perf.js')]);
+  });
+
+  it('reports every invalid setting with its path', () => {
+    writePolicy({ gates: { 'test-pass-rate': { severity: 'fatal', treshold: 90 } } });
+
+    expect(() => loadGatePolicy(policyPath)).toThrow(
+      /Invalid quality gate policy .*\n {2}- gates\.test-pass-rate\.severity: .*\n {2}- gates\.test-pass-rate: Unrecognized key\(s\) in object: 'treshold'/
+    );
+  });
+
+  it('merges environment overrides field by field and options key by key', () => {
+    writePolicy({
+      gates: {
+        'test-pass-rate': { threshold: 90, severity: 'block' },
+        'no-secrets': { options: { exclude: ['tests/fixtures'], extra: true } },
+      },
+      plugins: ['./a11y.js'],
+      environments: {
+        dev: {
+          gates: {
+            'test-pass-rate': { severity: 'warn' },
+            'no-secrets': { options: { exclude: [] } },
+            documentation: { enabled: false },
+          },
+          plugins: ['./a11y.js', './perf.js'],
+        },
+      },
+    });
+    const policy = loadGatePolicy(policyPath);
+
+    expect(resolveGatePolicy(policy, 'dev')).toEqual({
+      gates: {
+        'test-pass-rate': { threshold: 90, severity: 'warn', options: undefined },
+        'no-secrets': { options: { exclude: [], extra: true } },
+        documentation: { enabled: false, options: undefined },
+      },
+      plugins: [path.join(dir, 'a11y.js'), path.join(dir, 'perf.js')],
+    });
+    expect(resolveGatePolicy(policy, 'staging').gates['test-pass-rate']).toEqual({
+      threshold: 90,
+      severity: 'block',
+    });
+  });
+
+  it('loads gates exported by plugin modules and rejects modules without one', async () => {
+    const pluginPath = path.join(dir, 'a11y.js');
+    fs.writeFileSync(
+      pluginPath,
+      "module.exports = [{ id: 'a11y', name: 'Accessibility', run: async () => ({ passed: true, message: 'ok' }) }];"
+    );
+    const invalidPath = path.join(dir, 'invalid.js');
+    fs.writeFileSync(invalidPath, "module.exports = { id: 'perf' };");
+
+    const gates = await loadGatePlugins([pluginPath]);
+    expect(gates.map((gate) => gate.id)).toEqual(['a11y']);
+    await expect(loadGatePlugins([invalidPath])).rejects.toThrow(
+      `Quality gate plugin ${invalidPath} must export a gate ({ id, name, run }) or an array of gates`
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { getLogger } from './logger';
+import type { Gate } from './qualityGates';
+
+const logger = getLogger();
+
+const gateSettingsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    /**
+     * block fails the validation; warn only reports the gate
+     */
+    severity: z.enum(['block', 'warn']).optional(),
+    threshold: z.number().optional(),
+    options: z.record(z.unknown()).optional(),
+  })
+  .strict();
+
+const policyLayerSchema = z
+  .object({
+    gates: z.record(gateSettingsSchema).default({}),
+    /**
+     * Gate modules, relative to the policy file
+     */
+    plugins: z.array(z.string()).default([]),
+  })
+  .strict();
+
+const gatePolicySchema = policyLayerSchema
+  .extend({
+    /**
+     * Overrides applied on top of the base policy for one test environment
+     */
+    environments: z
+      .object({
+        local: policyLayerSchema.partial(),
+        dev: policyLayerSchema.partial(),
+        staging: policyLayerSchema.partial(),
+        prod: policyLayerSchema.partial(),
+      })
+      .partial()
+      .default({}),
+  })
+  .strict();
+
+export type GateSettings = z.infer<typeof gateSettingsSchema>;
+export type GateSeverity = NonNullable<GateSettings['severity']>;
+export type GatePolicy = z.infer<typeof gatePolicySchema>;
+
+/**
+ * Policy for one environment, with plugin paths made absolute
+ */
+export interface ResolvedGatePolicy {
+  gates: Record<string, GateSettings>;
+  plugins: string[];
+}
+
+/**
+ * Policy used when no policy file exists: every gate enabled with its defaults
+ */
+export const DEFAULT_GATE_POLICY: GatePolicy = { gates: {}, plugins: [], environments: {} };
+
+/**
+ * Load a quality gate policy file; a missing file yields the default policy
+ * Plugin paths are resolved against the file's directory
+ * @throws {Error} if the file is not a valid policy
+ */
+export function loadGatePolicy(policyPath: string): GatePolicy {
+  if (!fs.existsSync(policyPath)) {
+    logger.debug('No quality gate policy file, using defaults', { policyPath });
+    return DEFAULT_GATE_POLICY;
+  }
+
+  const result = gatePolicySchema.safeParse(JSON.parse(fs.readFileSync(policyPath, 'utf-8')));
+  if (!result.success) {
+    const issues = result.error.errors.map((err) => `  - ${err.path.join('.')}: ${err.message}`);
+    throw new Error(`Invalid quality gate policy ${policyPath}:\n${issues.join('\n')}`);
+  }
+
+  const baseDir = path.dirname(path.resolve(policyPath));
+  const resolvePlugins = (plugins: string[] | undefined) =>
+    plugins?.map((plugin) => path.resolve(baseDir, plugin));
+
+  const policy = result.data;
+  return {
+    ...policy,
+    plugins: resolvePlugins(policy.plugins)!,
+    environments: Object.fromEntries(
+      Object.entries(policy.environments).map(([env, layer]) => [
+        env,
+        { ...layer, plugins: resolvePlugins(layer.plugins) },
+      ])
+    ),
+  };
+}
+
+/**
+ * Apply an environment's overrides to the base policy
+ * Gate settings merge field by field (options key by key); plugins add up
+ */
+export function resolveGatePolicy(policy: GatePolicy, env: string): ResolvedGatePolicy {
+  const override = policy.environments[env as keyof GatePolicy['environments']] ?? {};
+  const gates: Record<string, GateSettings> = { ...policy.gates };
+
+  for (const [id, settings] of Object.entries(override.gates ?? {})) {
+    const base = gates[id] ?? {};
+    gates[id] = {
+      ...base,
+      ...settings,
+      options: base.options || settings.options ? { ...base.options, ...settings.options } : undefined,
+    };
+  }
+
+  return {
+    gates,
+    plugins: [...new Set([...policy.plugins, ...(override.plugins ?? [])])],
+  };
+}
+
+function isGate(value: unknown): value is Gate {
+  const gate = value as Partial<Gate> | null;
+  return (
+    typeof gate === 'object' &&
+    gate !== null &&
+    typeof gate.id === 'string' &&
+    typeof gate.name === 'string' &&
+    typeof gate.run === 'function'
+  );
+}
+
+/**
+ * Load custom gates; a plugin module exports a gate or an array of gates,
+ * as its default export or as the module itself
+ * @throws {Error} if a module cannot be loaded or exports no gate
+ */
+export async function loadGatePlugins(modulePaths: string[]): Promise<Gate[]> {
+  const gates: Gate[] = [];
+
+  for (const modulePath of modulePaths) {
+    const loaded = (await import(modulePath)) as { default?: unknown };
+    const exported = loaded.default ?? loaded;
+    const candidates = Array.isArray(exported) ? exported : [exported];
+
+    if (candidates.length === 0 || !candidates.every(isGate)) {
+      throw new Error(
+        `Quality gate plugin ${modulePath} must export a gate ({ id, name, run }) or an array of gates`
+      );
+    }
+
+    logger.debug('Loaded quality gate plugin', {
+      modulePath,
+      gates: candidates.map((gate) => gate.id),
+    });
+    gates.push(...candidates);
+  }
+
+  return gates;
+}
@@ -1,76 +1,245 @@
 import { getLogger } from './logger';
+import { getEnvConfig, TestEnvType } from './env';
 import { TestRunResult } from './testRunner';
+import { mapResultsToScenarios, ScenarioResultMapping } from './scenarioResults';
+import {
+  GatePolicy,
+  GateSeverity,
+  loadGatePlugins,
+  loadGatePolicy,
+  resolveGatePolicy,
+} from './gatePolicy';
+import { lintSpecFiles, SPEC_LINT_RULES, SpecLintRule } from './specLint';
 import { TestScenario } from '../agents/qaAgent';
+import { resolveScenarios, ScenarioSource } from '../agents/scenarioArtifact';
 import * as fs from 'fs';
 import * as path from 'path';
 
 const logger = getLogger();
 
 export interface QualityGateResult {
+  /**
+   * False when a gate with block severity failed; failing warn gates do not count
+   */
   passed: boolean;
   gates: GateResult[];
   summary: string;
 }
 
 export interface GateResult {
+  id: string;
   name: string;
+  severity: GateSeverity;
   passed: boolean;
   message: string;
   details?: Record<string, unknown>;
 }
 
+export type GateOutcome = Pick<GateResult, 'passed' | 'message' | 'details'>;
+
+/**
+ * Test results the gates check, from the test runner or the SDET Agent's Playwright client
+ */
+export type GateTestResults = Pick<
+  TestRunResult,
+  'success' | 'passed' | 'failed' | 'skipped' | 'total' | 'duration' | 'tests'
+>;
+
+/**
+ * What a gate gets to check, along with its settings from the policy
+ */
+export interface GateContext {
+  scenarios: TestScenario[];
+  testResults: GateTestResults;
+  mapping: ScenarioResultMapping;
+  env: TestEnvType;
+  /**
+   * Consecutive passing reruns from the SDET stability check; undefined when it did not run
+   */
+  stableRuns?: number;
+  /**
+   * Page objects and specs generated in this run, checked by spec-lint instead of its default paths
+   */
+  generatedFiles?: string[];
+  /**
+   * Threshold from the policy; undefined means the gate's own default
+   */
+  threshold?: number;
+  options: Record<string, unknown>;
+}
+
+/**
+ * A quality gate. Custom gates are registered with `registerGate` or listed as
+ * plugins in the policy file, and are configured there by id like built-in ones
+ */
+export interface Gate {
+  /**
+   * Key of the gate in the policy file
+   */
+  id: string;
+  name: string;
+  /**
+   * Defaults to true
+   */
+  enabledByDefault?: boolean;
+  /**
+   * Defaults to block
+   */
+  defaultSeverity?: GateSeverity;
+  run(context: GateContext): Promise<GateOutcome> | GateOutcome;
+}
+
+export interface QualityGateOptions {
+  /**
+   * Overrides the policy threshold of the stable-runs gate
+   */
+  requireStableRuns?: number;
+  /**
+   * Result of the stability check, see GateContext
+   */
+  stableRuns?: number;
+  /**
+   * Files generated in this run, see GateContext
+   */
+  generatedFiles?: string[];
+  /**
+   * Overrides the policy threshold of the p0-coverage gate
+   */
+  minP0Coverage?: number;
+  /**
+   * Overrides the policy threshold of the smoke-coverage gate
+   */
+  minSmokeCoverage?: number;
+  /**
+   * Policy to apply instead of the QUALITY_GATE_POLICY file
+   */
+  policy?: GatePolicy;
+  /**
+   * Environment whose policy overrides apply; defaults to TEST_ENV
+   */
+  env?: TestEnvType;
+}
+
+/**
+ * Read a string list option, e.g. `"requiredDocs": ["README.md"]`
+ */
+function stringArrayOption(options: Record<string, unknown>, key: string): string[] | undefined {
+  const value = options[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    throw new Error(`Option ${key} must be an array of strings`);
+  }
+  return value;
+}
+
 /**
  * Quality Gates Validator
  */
 export class QualityGates {
+  private customGates: Gate[] = [];
+
+  /**
+   * Register a custom gate; it replaces any gate with the same id
+   */
+  registerGate(gate: Gate): void {
+    this.customGates = [...this.customGates.filter((g) => g.id !== gate.id), gate];
+  }
+
   /**
-   * Validate all quality gates
+   * Validate all quality gates enabled by the policy
+   * @param source - Scenarios, or the path of a scenarios artifact
+   * @throws {Error} if the policy file is invalid or a gate plugin cannot be loaded
    */
   async validate(
-    scenarios: TestScenario[],
-    testResults: TestRunResult,
-    options: {
-      requireStableRuns?: number;
-      minP0Coverage?: number;
-      minSmokeCoverage?: number;
-    } = {}
+    source: ScenarioSource,
+    testResults: GateTestResults,
+    options: QualityGateOptions = {}
   ): Promise<QualityGateResult> {
     logger.info('Running quality gate validation');
 
-    const {
-      requireStableRuns: _requireStableRuns = 2,
-      minP0Coverage = 100,
-      minSmokeCoverage = 100,
-    } = options;
+    const scenarios = resolveScenarios(source);
+    const { requireStableRuns, minP0Coverage, minSmokeCoverage } = options;
 
-    const gates: GateResult[] = [];
+    const config = getEnvConfig();
+    const env = options.env ?? config.testEnv.env;
+    const policy = resolveGatePolicy(
+      options.policy ?? loadGatePolicy(config.qualityGates.policyPath),
+      env
+    );
+    const thresholdOverrides: Record<string, number | undefined> = {
+      'p0-coverage': minP0Coverage,
+      'smoke-coverage': minSmokeCoverage,
+      'stable-runs': requireStableRuns,
+    };
 
-    // Gate 1: All tests passing
-    gates.push(await this.validateAllTestsPassing(testResults));
+    // Later gates replace earlier ones with the same id, so a team can swap out a built-in gate
+    const available = new Map<string, Gate>();
+    const plugins = await loadGatePlugins(policy.plugins);
+    for (const gate of [...this.getBuiltInGates(), ...this.customGates, ...plugins]) {
+      available.set(gate.id, gate);
+    }
 
-    // Gate 2: P0/Smoke coverage
-    gates.push(await this.validateP0Coverage(scenarios, testResults, minP0Coverage));
-    gates.push(await this.validateSmokeCoverage(scenarios, testResults, minSmokeCoverage));
+    const unknownIds = Object.keys(policy.gates).filter((id) => !available.has(id));
+    if (unknownIds.length > 0) {
+      logger.warn('Quality gate policy configures unknown gates', { ids: unknownIds });
+    }
 
-    // Gate 3: No hard-coded secrets
-    gates.push(await this.validateNoSecrets());
+    const mapping = mapResultsToScenarios(scenarios, testResults.tests ?? []);
+    const gates: GateResult[] = [];
 
-    // Gate 4: Documentation updated
-    gates.push(await this.validateDocumentation());
+    for (const gate of available.values()) {
+      const settings = policy.gates[gate.id] ?? {};
+      if (!(settings.enabled ?? gate.enabledByDefault ?? true)) {
+        logger.debug('Quality gate disabled', { gate: gate.id });
+        continue;
+      }
+
+      let outcome: GateOutcome;
+      try {
+        outcome = await gate.run({
+          scenarios,
+          testResults,
+          mapping,
+          env,
+          stableRuns: options.stableRuns,
+          generatedFiles: options.generatedFiles,
+          threshold: thresholdOverrides[gate.id] ?? settings.threshold,
+          options: settings.options ?? {},
+        });
+      } catch (error) {
+        outcome = {
+          passed: false,
+          message: `Gate could not run: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
 
-    // Gate 5: A11y checks executed (if enabled)
-    gates.push(await this.validateA11yChecks());
+      gates.push({
+        id: gate.id,
+        name: gate.name,
+        severity: settings.severity ?? gate.defaultSeverity ?? 'block',
+        passed: outcome.passed,
+        message: outcome.message,
+        details: outcome.details,
+      });
+    }
 
-    const allPassed = gates.every((gate) => gate.passed);
+    const failedGates = gates.filter((g) => !g.passed);
+    const blockingGates = failedGates.filter((g) => g.severity === 'block');
+    const allPassed = blockingGates.length === 0;
 
-    const summary = allPassed
-      ? '✓ All quality gates passed'
-      : `✗ ${gates.filter((g) => !g.passed).length} quality gate(s) failed`;
+    const summary = !allPassed
+      ? `✗ ${blockingGates.length} quality gate(s) failed`
+      : failedGates.length > 0
+        ? `✓ All blocking quality gates passed (${failedGates.length} warning(s))`
+        : '✓ All quality gates passed';
 
     logger.info('Quality gate validation complete', {
       passed: allPassed,
       totalGates: gates.length,
-      failedGates: gates.filter((g) => !g.passed).length,
+      failedGates: blockingGates.length,
+      warnings: failedGates.length - blockingGates.length,
     });
 
     return {
@@ -80,14 +249,95 @@ export class QualityGates {
     };
   }
 
+  /**
+   * Built-in gates, in the order they run; the last three are opt-in
+   */
+  private getBuiltInGates(): Gate[] {
+    return [
+      {
+        id: 'all-tests-passing',
+        name: 'All Tests Passing',
+        run: (ctx) => this.validateAllTestsPassing(ctx.testResults),
+      },
+      {
+        id: 'stable-runs',
+        name: 'Stable Runs',
+        run: (ctx) => this.validateStableRuns(ctx.stableRuns, ctx.threshold ?? 2),
+      },
+      {
+        id: 'p0-coverage',
+        name: 'P0 Scenario Coverage',
+        run: (ctx) => this.validateP0Coverage(ctx.scenarios, ctx.mapping, ctx.threshold ?? 100),
+      },
+      {
+        id: 'smoke-coverage',
+        name: 'Smoke Test Coverage',
+        run: (ctx) => this.validateSmokeCoverage(ctx.scenarios, ctx.mapping, ctx.threshold ?? 100),
+      },
+      {
+        id: 'no-secrets',
+        name: 'No Hard-coded Secrets',
+        // Fixtures hold made-up test accounts
+        run: (ctx) =>
+          this.validateNoSecrets(stringArrayOption(ctx.options, 'exclude') ?? ['tests/fixtures']),
+      },
+      {
+        id: 'documentation',
+        name: 'Documentation Complete',
+        run: (ctx) =>
+          this.validateDocumentation(
+            stringArrayOption(ctx.options, 'requiredDocs') ?? ['README.md']
+          ),
+      },
+      {
+        id: 'a11y',
+        name: 'Accessibility Checks',
+        run: () => this.validateA11yChecks(),
+      },
+      {
+        id: 'spec-lint',
+        name: 'Spec Lint',
+        run: (ctx) =>
+          this.validateSpecLint(
+            stringArrayOption(ctx.options, 'paths') ??
+              (ctx.generatedFiles?.length ? ctx.generatedFiles : ['tests/e2e', 'src/pages']),
+            // The base page object is framework code, not generated
+            stringArrayOption(ctx.options, 'exclude') ?? ['src/pages/basePage.ts'],
+            (stringArrayOption(ctx.options, 'disabledRules') ?? []) as SpecLintRule[]
+          ),
+      },
+      {
+        id: 'max-test-duration',
+        name: 'Max Test Duration',
+        enabledByDefault: false,
+        run: (ctx) => this.validateMaxTestDuration(ctx.testResults, ctx.threshold ?? 60000),
+      },
+      {
+        id: 'no-test-only',
+        name: 'No Focused Tests',
+        enabledByDefault: false,
+        run: () => this.validateNoFocusedTests(),
+      },
+      {
+        id: 'required-tags',
+        name: 'Required Tags',
+        enabledByDefault: false,
+        run: (ctx) =>
+          this.validateRequiredTags(
+            ctx.testResults,
+            stringArrayOption(ctx.options, 'anyOf') ?? ['@p0', '@p1', '@p2']
+          ),
+      },
+    ];
+  }
+
   /**
    * Gate: All tests passing
    */
-  private async validateAllTestsPassing(testResults: TestRunResult): Promise<GateResult> {
+  private async validateAllTestsPassing(testResults: GateTestResults): Promise<GateOutcome> {
     const passed = testResults.failed === 0 && testResults.total > 0;
 
     return {
-      name: 'All Tests Passing',
       passed,
       message: passed
         ? `All ${testResults.passed} tests passed`
@@ -102,52 +352,90 @@ export class QualityGates {
   }
 
   /**
-   * Gate: P0 coverage
+   * Gate: The tests passed on enough consecutive reruns; skipped when stability was not checked
    */
-  private async validateP0Coverage(
-    scenarios: TestScenario[],
-    testResults: TestRunResult,
-    minCoverage: number
-  ): Promise<GateResult> {
-    const p0Scenarios = scenarios.filter((s) => s.priority === 'p0');
-    const coverage = p0Scenarios.length > 0 ? (testResults.passed / p0Scenarios.length) * 100 : 0;
-    const passed = coverage >= minCoverage;
+  private validateStableRuns(stableRuns: number | undefined, required: number): GateOutcome {
+    if (stableRuns === undefined) {
+      return { passed: true, message: 'Stability was not checked in this run' };
+    }
 
+    const passed = stableRuns >= required;
     return {
-      name: 'P0 Scenario Coverage',
       passed,
       message: passed
-        ? `P0 coverage: ${coverage.toFixed(1)}% (${testResults.passed}/${p0Scenarios.length})`
-        : `P0 coverage below ${minCoverage}%: ${coverage.toFixed(1)}%`,
-      details: {
-        p0Scenarios: p0Scenarios.length,
-        coverage: coverage.toFixed(1),
-        required: minCoverage,
-      },
+        ? `Tests passed on ${stableRuns} consecutive rerun(s)`
+        : `Tests passed on only ${stableRuns} of ${required} required consecutive rerun(s)`,
+      details: { stableRuns, required },
     };
   }
 
+  /**
+   * Gate: P0 coverage
+   */
+  private async validateP0Coverage(
+    scenarios: TestScenario[],
+    mapping: ScenarioResultMapping,
+    minCoverage: number
+  ): Promise<GateOutcome> {
+    return this.validateScenarioCoverage(
+      'P0',
+      scenarios.filter((s) => s.priority === 'p0'),
+      mapping,
+      minCoverage
+    );
+  }
+
   /**
    * Gate: Smoke test coverage
    */
   private async validateSmokeCoverage(
     scenarios: TestScenario[],
-    testResults: TestRunResult,
+    mapping: ScenarioResultMapping,
+    minCoverage: number
+  ): Promise<GateOutcome> {
+    return this.validateScenarioCoverage(
+      'Smoke',
+      scenarios.filter((s) => s.tags.includes('@smoke')),
+      mapping,
+      minCoverage
+    );
+  }
+
+  /**
+   * Share of the selected scenarios whose linked tests passed
+   * Only tests carrying a selected scenario's id count, so passing tests of other
+   * scenarios cannot make up for a missing or failing one
+   */
+  private validateScenarioCoverage(
+    label: string,
+    selected: TestScenario[],
+    mapping: ScenarioResultMapping,
     minCoverage: number
-  ): Promise<GateResult> {
-    const smokeScenarios = scenarios.filter((s) => s.tags.includes('@smoke'));
-    const coverage =
-      smokeScenarios.length > 0 ? (testResults.passed / smokeScenarios.length) * 100 : 0;
+  ): GateOutcome {
+    // Runs filtered by priority or tag often have none; there is nothing to cover then
+    if (selected.length === 0) {
+      return { passed: true, message: `No ${label} scenarios in scope` };
+    }
+
+    const statuses = selected.map((s) => ({ id: s.id, status: mapping.results.get(s.id)?.status }));
+    const passing = statuses.filter((s) => s.status === 'passed').length;
+    const failing = statuses.filter((s) => s.status === 'failed').map((s) => s.id);
+    const notCovered = statuses
+      .filter((s) => s.status !== 'passed' && s.status !== 'failed')
+      .map((s) => s.id);
+    const coverage = (passing / selected.length) * 100;
     const passed = coverage >= minCoverage;
 
     return {
-      name: 'Smoke Test Coverage',
       passed,
       message: passed
-        ? `Smoke coverage: ${coverage.toFixed(1)}% (${testResults.passed}/${smokeScenarios.length})`
-        : `Smoke coverage below ${minCoverage}%: ${coverage.toFixed(1)}%`,
+        ? `${label} coverage: ${coverage.toFixed(1)}% (${passing}/${selected.length})`
+        : `${label} coverage below ${minCoverage}%: ${coverage.toFixed(1)}% (${passing}/${selected.length})`,
       details: {
-        smokeScenarios: smokeScenarios.length,
+        scenarios: selected.length,
+        passing,
+        failing,
+        notCovered,
         coverage: coverage.toFixed(1),
         required: minCoverage,
       },
@@ -156,8 +444,9 @@ export class QualityGates {
 
   /**
    * Gate: No hard-coded secrets
+   * @param exclude - Files and directories not to scan
    */
-  private async validateNoSecrets(): Promise<GateResult> {
+  private async validateNoSecrets(exclude: string[]): Promise<GateOutcome> {
     const secretPatterns = [
       /['"]?api[_-]?key['"]?\s*[:=]\s*['"][^'"]+['"]/gi,
       /['"]?secret['"]?\s*[:=]\s*['"][^'"]+['"]/gi,
@@ -167,7 +456,7 @@ export class QualityGates {
     ];
 
     const violations: string[] = [];
-    const filesToCheck = this.getFilesToCheck();
+    const filesToCheck = this.getFilesToCheck(exclude);
 
     for (const file of filesToCheck) {
       const content = fs.readFileSync(file, 'utf-8');
@@ -182,7 +471,6 @@ export class QualityGates {
     const passed = violations.length === 0;
 
     return {
-      name: 'No Hard-coded Secrets',
       passed,
       message: passed
         ? 'No hard-coded secrets found'
@@ -194,8 +482,7 @@ export class QualityGates {
   /**
    * Gate: Documentation updated
    */
-  private async validateDocumentation(): Promise<GateResult> {
-    const requiredDocs = ['README.md', 'README_test.md'];
+  private async validateDocumentation(requiredDocs: string[]): Promise<GateOutcome> {
     const missingDocs: string[] = [];
 
     for (const doc of requiredDocs) {
@@ -208,7 +495,6 @@ export class QualityGates {
     const passed = missingDocs.length === 0;
 
     return {
-      name: 'Documentation Complete',
       passed,
       message: passed ? 'All required documentation exists' : `Missing: ${missingDocs.join(', ')}`,
       details: missingDocs.length > 0 ? { missing: missingDocs } : undefined,
@@ -218,13 +504,11 @@ export class QualityGates {
   /**
    * Gate: A11y checks executed
    */
-  private async validateA11yChecks(): Promise<GateResult> {
-    const { getEnvConfig } = await import('./env');
+  private async validateA11yChecks(): Promise<GateOutcome> {
     const config = getEnvConfig();
 
     if (!config.featureFlags.enableA11yTests) {
       return {
-        name: 'Accessibility Checks',
         passed: true,
         message: 'A11y tests disabled (skipped)',
       };
@@ -235,18 +519,125 @@ export class QualityGates {
     const hasA11yTests = this.hasA11yTests(testsDir);
 
     return {
-      name: 'Accessibility Checks',
       passed: hasA11yTests,
       message: hasA11yTests ? 'A11y tests found' : 'No a11y tests found',
     };
   }
 
+  /**
+   * Gate: Generated specs and page objects follow the SDET rules (no sleeps, semantic
+   * locators, assertions and priority tags in every test, URLs relative to baseURL)
+   */
+  private async validateSpecLint(
+    paths: string[],
+    exclude: string[],
+    disabledRules: SpecLintRule[]
+  ): Promise<GateOutcome> {
+    const unknownRules = disabledRules.filter((rule) => !SPEC_LINT_RULES.includes(rule));
+    if (unknownRules.length > 0) {
+      throw new Error(`Unknown spec lint rule(s): ${unknownRules.join(', ')}`);
+    }
+
+    const violations = lintSpecFiles(paths, exclude).filter(
+      (violation) => !disabledRules.includes(violation.rule)
+    );
+    const passed = violations.length === 0;
+    const files = new Set(violations.map((violation) => violation.file));
+
+    return {
+      passed,
+      message: passed
+        ? 'No spec lint issues found'
+        : `Found ${violations.length} spec lint issue(s) in ${files.size} file(s)`,
+      details: passed ? undefined : { violations },
+    };
+  }
+
+  /**
+   * Gate: No test slower than the limit (ms), retries included
+   */
+  private async validateMaxTestDuration(
+    testResults: GateTestResults,
+    maxDuration: number
+  ): Promise<GateOutcome> {
+    if (!testResults.tests) {
+      return { passed: false, message: 'No per-test results to check durations against' };
+    }
+
+    const slowTests = testResults.tests
+      .filter((test) => test.duration > maxDuration)
+      .map((test) => ({ title: test.title, project: test.projectName, duration: test.duration }));
+    const passed = slowTests.length === 0;
+
+    return {
+      passed,
+      message: passed
+        ? `All tests finished within ${maxDuration}ms`
+        : `${slowTests.length} test(s) took longer than ${maxDuration}ms`,
+      details: passed ? undefined : { maxDuration, slowTests },
+    };
+  }
+
+  /**
+   * Gate: No test.only / describe.only left in test files
+   */
+  private async validateNoFocusedTests(): Promise<GateOutcome> {
+    const files: string[] = [];
+    const testsDir = path.join(process.cwd(), 'tests');
+    if (fs.existsSync(testsDir)) {
+      this.collectFiles(testsDir, files, ['.ts', '.js']);
+    }
+
+    const focused = files.filter((file) =>
+      /\b(?:test|it|describe)(?:\.describe)?\.only\s*\(/.test(fs.readFileSync(file, 'utf-8'))
+    );
+    const passed = focused.length === 0;
+
+    return {
+      passed,
+      message: passed ? 'No focused tests found' : `Found .only in ${focused.length} file(s)`,
+      details: passed ? undefined : { files: focused },
+    };
+  }
+
+  /**
+   * Gate: Every test carries at least one of the given tags
+   */
+  private async validateRequiredTags(
+    testResults: GateTestResults,
+    anyOf: string[]
+  ): Promise<GateOutcome> {
+    if (!testResults.tests) {
+      return { passed: false, message: 'No per-test results to check tags against' };
+    }
+
+    const required = new Set(anyOf.map((tag) => (tag.startsWith('@') ? tag : `@${tag}`)));
+    const untagged = [
+      ...new Set(
+        testResults.tests
+          .filter((test) => !test.tags.some((tag) => required.has(tag)))
+          .map((test) => test.title)
+      ),
+    ];
+    const passed = untagged.length === 0;
+
+    return {
+      passed,
+      message: passed
+        ? `All tests tagged with one of ${[...required].join(', ')}`
+        : `${untagged.length} test(s) missing one of ${[...required].join(', ')}`,
+      details: passed ? undefined : { required: [...required], tests: untagged },
+    };
+  }
+
   /**
    * Get files to check for secrets
+   * Unit tests (`*.test.ts`) are skipped: they only run locally, with dummy credentials
    */
-  private getFilesToCheck(): string[] {
+  private getFilesToCheck(exclude: string[]): string[] {
     const files: string[] = [];
     const dirsToCheck = ['src', 'tests'];
+    const excluded = exclude.map((entry) => path.resolve(entry));
 
     for (const dir of dirsToCheck) {
       const dirPath = path.join(process.cwd(), dir);
@@ -255,7 +646,11 @@ export class QualityGates {
       }
     }
 
-    return files;
+    return files.filter(
+      (file) =>
+        !/\.test\.[jt]s$/.test(file) &&
+        !excluded.some((entry) => file === entry || file.startsWith(entry + path.sep))
+    );
   }
 
   /**
@@ -1,8 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { getLogger } from './logger';
-import { TestScenario } from '../agents/qaAgent';
+import { resolveScenarios, ScenarioSource } from '../agents/scenarioArtifact';
 import { TestRunResult } from './testRunner';
+import {
+  mapResultsToScenarios,
+  ScenarioResultMapping,
+  ScenarioStatus,
+  TestCaseResult,
+} from './scenarioResults';
+import { formatFailureDigest, readTestTrace, TraceFailureDigest } from './traceReader';
+import type { FailureClassification } from '../agents/failureClassifier';
 import { Citation } from '../rag/retriever';
 
 const logger = getLogger();
@@ -23,9 +31,34 @@ export interface ScenarioCoverage {
   title: string;
   priority: string;
   tags: string[];
-  status: 'passed' | 'failed' | 'skipped' | 'not-implemented';
+  status: ScenarioStatus;
   duration?: number;
   error?: string;
+  /**
+   * Trace digest of the first failed test linked to a failed scenario (without the DOM snapshot)
+   */
+  failureDigest?: TraceFailureDigest;
+  /**
+   * Likely cause of the failure of a failed scenario, when the SDET Agent classified it
+   */
+  classification?: FailureClassification;
+  /**
+   * For failures classified as product bugs: what to put in the bug report
+   */
+  suggestedBug?: SuggestedBugReport;
+}
+
+export interface SuggestedBugReport {
+  title: string;
+  /**
+   * Behavior the scenario expects (its Then steps)
+   */
+  expected: string[];
+  observed: string;
+  /**
+   * Requirement sources the scenario was derived from
+   */
+  requirements: string[];
 }
 
 /**
@@ -34,21 +67,45 @@ export interface ScenarioCoverage {
 export class ReportGenerator {
   /**
    * Generate coverage report
+   * @param source - Scenarios, or the path of a scenarios artifact
    */
   generateCoverageReport(
     featureName: string,
-    scenarios: TestScenario[],
+    source: ScenarioSource,
     testResults: TestRunResult
   ): CoverageReport {
     logger.info('Generating coverage report', { featureName });
 
-    const scenarioCoverage: ScenarioCoverage[] = scenarios.map((scenario) => ({
-      id: scenario.id,
-      title: scenario.title,
-      priority: scenario.priority,
-      tags: scenario.tags,
-      status: this.determineScenarioStatus(scenario, testResults),
-    }));
+    const scenarios = resolveScenarios(source);
+    const mapping = mapResultsToScenarios(scenarios, testResults.tests ?? []);
+
+    const scenarioCoverage: ScenarioCoverage[] = scenarios.map((scenario) => {
+      const result = mapping.results.get(scenario.id);
+      const classification =
+        result?.status === 'failed'
+          ? result.tests.find((test) => test.status === 'failed' && test.classification)?.classification
+          : undefined;
+      return {
+        id: scenario.id,
+        title: scenario.title,
+        priority: scenario.priority,
+        tags: scenario.tags,
+        status: this.determineScenarioStatus(scenario.id, mapping),
+        duration: result?.tests.length ? result.duration : undefined,
+        error: result?.error,
+        failureDigest: result?.status === 'failed' ? this.readFailureDigest(result.tests) : undefined,
+        classification,
+        suggestedBug:
+          classification?.kind === 'product-bug'
+            ? {
+                title: `${scenario.title}: ${classification.category.replace(/-/g, ' ')}`,
+                expected: scenario.then,
+                observed: classification.reason,
+                requirements: scenario.citations,
+              }
+            : undefined,
+      };
+    });
 
     const passed = scenarioCoverage.filter((s) => s.status === 'passed').length;
     const failed = scenarioCoverage.filter((s) => s.status === 'failed').length;
@@ -100,6 +157,8 @@ export class ReportGenerator {
 
     md += `\n`;
 
+    md += this.generateFailureAnalysis(coverageReport);
+
     // Citations
     if (citations && citations.length > 0) {
       md += `## Requirements Traceability\n\n`;
@@ -132,6 +191,43 @@ export class ReportGenerator {
     return md;
   }
 
+  /**
+   * Failure analysis section: for each failed scenario, the likely cause, the trace digest and,
+   * for product bugs, a suggested bug report citing the requirement
+   * Empty when no failed scenario was classified or traced
+   */
+  generateFailureAnalysis(coverageReport: CoverageReport, heading = '## Failure Analysis'): string {
+    const analyzed = coverageReport.scenarios.filter((s) => s.failureDigest || s.classification);
+    if (analyzed.length === 0) {
+      return '';
+    }
+
+    let md = `${heading}\n\n`;
+    for (const scenario of analyzed) {
+      md += `**${scenario.id}: ${scenario.title}**\n\n`;
+
+      if (scenario.classification) {
+        const { category, kind, reason } = scenario.classification;
+        md += `- **Likely cause:** ${category} (${kind}) - ${reason}\n\n`;
+      }
+
+      if (scenario.failureDigest) {
+        md += `\`\`\`\n${formatFailureDigest(scenario.failureDigest, false)}\n\`\`\`\n\n`;
+        md += `Trace: \`${scenario.failureDigest.tracePath}\`\n\n`;
+      }
+
+      if (scenario.suggestedBug) {
+        const bug = scenario.suggestedBug;
+        md += `Suggested bug report:\n\n`;
+        md += `> **${bug.title}**\n>\n`;
+        md += `> Expected: ${bug.expected.join('; ')}\n>\n`;
+        md += `> Observed: ${bug.observed}\n>\n`;
+        md += `> Requirement: ${bug.requirements.length > 0 ? bug.requirements.join(', ') : 'not cited'}\n\n`;
+      }
+    }
+    return md;
+  }
+
   /**
    * Generate HTML report summary (for PR comments)
    */
@@ -193,21 +289,20 @@ export class ReportGenerator {
   }
 
   /**
-   * Determine scenario status based on test results
+   * Determine scenario status from the tests linked to it by scenario id
    */
-  private determineScenarioStatus(
-    _scenario: TestScenario,
-    testResults: TestRunResult
-  ): 'passed' | 'failed' | 'skipped' | 'not-implemented' {
-    // This is a simplified implementation
-    // In a real scenario, you'd match test results to scenario IDs
-    if (testResults.failed > 0) {
-      return 'failed';
-    }
-    if (testResults.passed > 0) {
-      return 'passed';
+  private readFailureDigest(tests: TestCaseResult[]): TraceFailureDigest | undefined {
+    for (const test of tests.filter((t) => t.status === 'failed')) {
+      const digest = readTestTrace(test);
+      if (digest) {
+        return { ...digest, domSnapshot: undefined };
+      }
     }
-    return 'not-implemented';
+    return undefined;
+  }
+
+  private determineScenarioStatus(scenarioId: string, mapping: ScenarioResultMapping): ScenarioStatus {
+    return mapping.results.get(scenarioId)?.status ?? 'not-implemented';
   }
 
   /**
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { TestScenario } from '../agents/qaAgent';
+import { extractScenarioId, mapResultsToScenarios, TestCaseResult } from './scenarioResults';
+
+function scenario(id: string): TestScenario {
+  return {
+    id,
+    title: id,
+    priority: 'p1',
+    tags: [],
+    given: ['a'],
+    when: ['b'],
+    then: ['c'],
+    citations: [],
+  };
+}
+
+function test(
+  scenarioId: string | undefined,
+  status: TestCaseResult['status'],
+  projectName = 'chromium'
+): TestCaseResult {
+  return {
+    title: `${scenarioId ?? 'untracked'} test`,
+    file: 'tests/e2e/login.spec.ts',
+    projectName,
+    scenarioId,
+    tags: [],
+    status,
+    duration: 10,
+    error: status === 'failed' ? 'expected visible' : undefined,
+  };
+}
+
+describe('extractScenarioId', () => {
+  it('prefers the scenario annotation over the title prefix', () => {
+    expect(extractScenarioId('AC-001: Sign in')).toBe('AC-001');
+    expect(extractScenarioId('[AC-002] Sign out')).toBe('AC-002');
+    expect(
+      extractScenarioId('AC-001: Sign in', [{ type: 'scenario', description: 'AC-009' }])
+    ).toBe('AC-009');
+    expect(extractScenarioId('Sign in without an id')).toBeUndefined();
+  });
+});
+
+describe('mapResultsToScenarios', () => {
+  it('combines the tests of each scenario across projects', () => {
+    const mapping = mapResultsToScenarios(
+      [scenario('AC-001'), scenario('AC-002'), scenario('AC-003'), scenario('AC-004')],
+      [
+        test('AC-001', 'passed'),
+        test('AC-001', 'passed', 'firefox'),
+        test('AC-002', 'passed'),
+        test('AC-002', 'failed', 'firefox'),
+        test('AC-003', 'skipped'),
+      ]
+    );
+
+    expect(mapping.results.get('AC-001')).toMatchObject({ status: 'passed', duration: 20 });
+    expect(mapping.results.get('AC-002')).toMatchObject({
+      status: 'failed',
+      error: 'expected visible',
+    });
+    expect(mapping.results.get('AC-003')?.status).toBe('skipped');
+    expect(mapping.results.get('AC-004')).toMatchObject({ status: 'not-implemented', tests: [] });
+  });
+
+  it('matches ids case-insensitively and keeps tests of unknown scenarios apart', () => {
+    const mapping = mapResultsToScenarios(
+      [scenario('AC-001')],
+      [test('ac-001', 'passed'), test('AC-999', 'passed'), test(undefined, 'passed')]
+    );
+
+    expect(mapping.results.get('AC-001')?.status).toBe('passed');
+    expect(mapping.unlinked.map((t) => t.scenarioId)).toEqual(['AC-999', undefined]);
+  });
+});
@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLogger } from './logger';
+import type { TestScenario } from '../agents/qaAgent';
+import type { FailureClassification } from '../agents/failureClassifier';
+
+const logger = getLogger();
+
+/**
+ * Output file of the JSON reporter configured in playwright.config.ts
+ */
+export const PLAYWRIGHT_JSON_REPORT = 'test-results/results.json';
+
+/**
+ * Annotation type linking a test to the scenario it implements:
+ * `test('AC-001: ...', { annotation: { type: 'scenario', description: 'AC-001' } }, ...)`
+ */
+export const SCENARIO_ANNOTATION = 'scenario';
+
+/**
+ * Outcome of one test in one Playwright project
+ */
+export interface TestCaseResult {
+  title: string;
+  file: string;
+  projectName?: string;
+  /**
+   * Scenario id from the scenario annotation, or else the title prefix
+   */
+  scenarioId?: string;
+  /**
+   * Tags from the title and the tag option, with the leading @
+   */
+  tags: string[];
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  error?: string;
+  stack?: string;
+  /**
+   * Files and inline data Playwright attached to the last attempt (trace, screenshot, error context)
+   */
+  attachments?: TestAttachment[];
+  /**
+   * Likely cause of a failure, set by the SDET Agent after a run
+   */
+  classification?: FailureClassification;
+}
+
+export interface TestAttachment {
+  name: string;
+  contentType: string;
+  path?: string;
+  /**
+   * Base64 content of attachments stored inline
+   */
+  body?: string;
+}
+
+export type ScenarioStatus = 'passed' | 'failed' | 'skipped' | 'not-implemented';
+
+/**
+ * Combined outcome of the tests linked to a scenario
+ */
+export interface ScenarioResult {
+  scenarioId: string;
+  status: ScenarioStatus;
+  tests: TestCaseResult[];
+  duration: number;
+  error?: string;
+}
+
+export interface ScenarioResultMapping {
+  /**
+   * Keyed by scenario id; every scenario has an entry, not-implemented when no test links to it
+   */
+  results: Map<string, ScenarioResult>;
+  /**
+   * Tests that carry no scenario id, or one that is not in the plan
+   */
+  unlinked: TestCaseResult[];
+}
+
+/**
+ * Subset of the Playwright JSON reporter format this module reads
+ */
+interface JSONReportSuite {
+  title: string;
+  file?: string;
+  specs?: Array<{
+    title: string;
+    file?: string;
+    tags?: string[];
+    tests?: Array<{
+      projectName?: string;
+      expectedStatus?: string;
+      status?: 'expected' | 'unexpected' | 'flaky' | 'skipped';
+      annotations?: Array<{ type: string; description?: string }>;
+      results?: Array<{
+        duration?: number;
+        error?: { message?: string; stack?: string };
+        attachments?: TestAttachment[];
+      }>;
+    }>;
+  }>;
+  suites?: JSONReportSuite[];
+}
+
+/**
+ * Scenario id at the start of a test title, e.g. "AC-001: ..." or "[AC-001] ..."
+ */
+const TITLE_ID_PATTERN = /^\s*\[?([A-Za-z][\w.-]*?-\d+)\]?(?=[\s:\]]|$)/;
+
+export function extractScenarioId(
+  title: string,
+  annotations: Array<{ type: string; description?: string }> = []
+): string | undefined {
+  const annotation = annotations.find((a) => a.type === SCENARIO_ANNOTATION && a.description?.trim());
+  if (annotation) {
+    return annotation.description!.trim();
+  }
+  return TITLE_ID_PATTERN.exec(title)?.[1];
+}
+
+/**
+ * Tags in a test title, plus those the reporter lists (which it may store without the @)
+ */
+export function extractTags(title: string, reportedTags: string[] = []): string[] {
+  const tags = [...(title.match(/@[\w-]+/g) ?? []), ...reportedTags];
+  return [...new Set(tags.map((tag) => (tag.startsWith('@') ? tag : `@${tag}`)))];
+}
+
+/**
+ * Flatten a Playwright JSON report into one result per test and project
+ */
+export function parsePlaywrightReport(report: {
+  config?: { rootDir?: string };
+  suites?: JSONReportSuite[];
+}): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  // Spec files are reported relative to the test directory; make them relative to the project
+  const rootDir = report.config?.rootDir;
+  const resolveFile = (file: string): string =>
+    rootDir && file
+      ? path.relative(process.cwd(), path.resolve(rootDir, file)).split(path.sep).join('/')
+      : file;
+
+  const visit = (suite: JSONReportSuite): void => {
+    for (const spec of suite.specs ?? []) {
+      for (const test of spec.tests ?? []) {
+        const results = test.results ?? [];
+        const lastResult = results[results.length - 1];
+        const failed = test.status === 'unexpected';
+        cases.push({
+          title: spec.title,
+          file: resolveFile(spec.file ?? suite.file ?? ''),
+          projectName: test.projectName || undefined,
+          scenarioId: extractScenarioId(spec.title, test.annotations),
+          tags: extractTags(spec.title, spec.tags),
+          // Flaky tests passed on retry; tests expected to be skipped report as expected
+          status:
+            test.status === 'skipped' || test.expectedStatus === 'skipped'
+              ? 'skipped'
+              : failed
+                ? 'failed'
+                : 'passed',
+          duration: results.reduce((sum, result) => sum + (result.duration ?? 0), 0),
+          error: failed ? lastResult?.error?.message : undefined,
+          stack: failed ? lastResult?.error?.stack : undefined,
+          attachments: lastResult?.attachments?.length ? lastResult.attachments : undefined,
+        });
+      }
+    }
+    for (const child of suite.suites ?? []) {
+      visit(child);
+    }
+  };
+
+  for (const suite of report.suites ?? []) {
+    visit(suite);
+  }
+  return cases;
+}
+
+/**
+ * Read per-test results from the JSON report
+ * @param since - Ignore a report last written before this time (ms since epoch), so a
+ *   run that did not produce one is not credited with an older run's results
+ * @returns undefined when there is no usable report
+ */
+export function readPlaywrightReport(
+  reportPath: string = path.join(process.cwd(), PLAYWRIGHT_JSON_REPORT),
+  since?: number
+): TestCaseResult[] | undefined {
+  if (!fs.existsSync(reportPath)) {
+    logger.warn('No Playwright JSON report found', { reportPath });
+    return undefined;
+  }
+  if (since !== undefined && fs.statSync(reportPath).mtimeMs < since) {
+    logger.warn('Playwright JSON report predates this test run, ignoring it', { reportPath });
+    return undefined;
+  }
+
+  try {
+    return parsePlaywrightReport(JSON.parse(fs.readFileSync(reportPath, 'utf-8')));
+  } catch (error) {
+    logger.error('Failed to parse Playwright JSON report', { reportPath, error });
+    return undefined;
+  }
+}
+
+/**
+ * Link test results to scenarios by id
+ * A scenario fails if any linked test failed (in any project), passes if the rest passed,
+ * and is skipped only when every linked test was skipped
+ */
+export function mapResultsToScenarios(
+  scenarios: TestScenario[],
+  tests: TestCaseResult[]
+): ScenarioResultMapping {
+  const byId = new Map(scenarios.map((scenario) => [scenario.id.toLowerCase(), scenario.id]));
+  const linked = new Map<string, TestCaseResult[]>();
+  const unlinked: TestCaseResult[] = [];
+
+  for (const test of tests) {
+    const scenarioId = test.scenarioId && byId.get(test.scenarioId.toLowerCase());
+    if (scenarioId) {
+      linked.set(scenarioId, [...(linked.get(scenarioId) ?? []), test]);
+    } else {
+      unlinked.push(test);
+    }
+  }
+
+  const results = new Map<string, ScenarioResult>();
+  for (const scenario of scenarios) {
+    const scenarioTests = linked.get(scenario.id) ?? [];
+    const failure = scenarioTests.find((test) => test.status === 'failed');
+    results.set(scenario.id, {
+      scenarioId: scenario.id,
+      status: failure
+        ? 'failed'
+        : scenarioTests.some((test) => test.status === 'passed')
+          ? 'passed'
+          : scenarioTests.length > 0
+            ? 'skipped'
+            : 'not-implemented',
+      tests: scenarioTests,
+      duration: scenarioTests.reduce((sum, test) => sum + test.duration, 0),
+      error: failure?.error,
+    });
+  }
+
+  if (unlinked.length > 0) {
+    logger.warn(`${unlinked.length} test(s) are not linked to a scenario in the plan`, {
+      titles: [...new Set(unlinked.map((test) => test.title))].slice(0, 10),
+    });
+  }
+
+  return { results, unlinked };
+}
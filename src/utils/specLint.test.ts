@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { lintSource, lintSpecFiles, SpecLintRule } from './specLint';
+
+const rules = (fileName: string, content: string): SpecLintRule[] =>
+  lintSource(fileName, content).map((violation) => violation.rule);
+
+describe('lintSource', () => {
+  it('accepts a spec that follows the rules', () => {
+    const spec = `
+      test.describe('Login @p0', () => {
+        test('AC-001: logs in', async ({ page }) => {
+          await page.goto('/login');
+          await page.getByRole('button', { name: 'Sign in' }).click();
+          await expect(page.getByText('Welcome')).toBeVisible();
+        });
+      });
+    `;
+
+    expect(lintSource('login.spec.ts', spec)).toEqual([]);
+  });
+
+  it('reports fixed sleeps, element handles and raw selectors with their line', () => {
+    const pageObject = [
+      'export class LoginPage {',
+      '  async submit() {',
+      '    await this.page.waitForTimeout(500);',
+      "    await this.page.$('#submit');",
+      "    await this.page.click('.btn-primary');",
+      "    await this.page.locator('role=button').click();",
+      '  }',
+      '}',
+    ].join('\n');
+
+    expect(lintSource('loginPage.ts', pageObject)).toEqual([
+      expect.objectContaining({ rule: 'no-wait-for-timeout', line: 3 }),
+      expect.objectContaining({ rule: 'no-element-handle', line: 4 }),
+      expect.objectContaining({ rule: 'no-raw-selector', line: 5 }),
+    ]);
+  });
+
+  it('reports focused tests, hard-coded URLs and tests without assertions or priority tags', () => {
+    const spec = `
+      test.only('AC-002: opens the app', async ({ page }) => {
+        await page.goto('https://staging.example.com/login');
+      });
+    `;
+
+    expect(rules('app.spec.ts', spec)).toEqual([
+      'no-focused-test',
+      'require-expect',
+      'require-priority-tag',
+      'no-hard-coded-url',
+    ]);
+  });
+
+  it('takes priority tags from the details argument and accepts assertion helpers', () => {
+    const spec = `
+      test('AC-003: shows an error', { tag: ['@smoke', '@p1'] }, async ({ page }) => {
+        await loginPage.expectError('Invalid password');
+      });
+    `;
+
+    expect(rules('error.spec.ts', spec)).toEqual([]);
+  });
+
+  it('checks assertions and tags in specs only', () => {
+    expect(rules('helpers.ts', "test('helper', () => {});")).toEqual([]);
+  });
+});
+
+describe('lintSpecFiles', () => {
+  it('lints directories recursively, skipping excluded paths', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-lint-'));
+    try {
+      fs.mkdirSync(path.join(dir, 'pages'));
+      fs.writeFileSync(path.join(dir, 'pages', 'basePage.ts'), 'page.waitForTimeout(1);\n');
+      fs.writeFileSync(path.join(dir, 'pages', 'cartPage.ts'), 'page.waitForTimeout(1);\n');
+      fs.writeFileSync(path.join(dir, 'notes.md'), 'page.waitForTimeout(1);\n');
+
+      const violations = lintSpecFiles([dir], [path.join(dir, 'pages', 'basePage.ts')]);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].file).toMatch(/cartPage\.ts$/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export type SpecLintRule =
+  | 'no-wait-for-timeout'
+  | 'no-element-handle'
+  | 'no-raw-selector'
+  | 'no-focused-test'
+  | 'require-expect'
+  | 'no-hard-coded-url'
+  | 'require-priority-tag';
+
+export const SPEC_LINT_RULES: SpecLintRule[] = [
+  'no-wait-for-timeout',
+  'no-element-handle',
+  'no-raw-selector',
+  'no-focused-test',
+  'require-expect',
+  'no-hard-coded-url',
+  'require-priority-tag',
+];
+
+export interface SpecLintViolation {
+  file: string;
+  line: number;
+  rule: SpecLintRule;
+  message: string;
+}
+
+/**
+ * page.$ and friends return element handles, which do not auto-wait
+ */
+const ELEMENT_HANDLE_METHODS = new Set(['$', '$$', '$eval', '$$eval']);
+
+/**
+ * Page methods that take a selector string as their first argument
+ */
+const SELECTOR_METHODS = new Set([
+  'click',
+  'dblclick',
+  'fill',
+  'type',
+  'press',
+  'check',
+  'uncheck',
+  'hover',
+  'focus',
+  'selectOption',
+  'setInputFiles',
+  'waitForSelector',
+  'isVisible',
+  'isHidden',
+  'textContent',
+  'innerText',
+  'inputValue',
+  'getAttribute',
+]);
+
+/**
+ * Selector engines that address elements the way users perceive them
+ */
+const SEMANTIC_SELECTOR = /^(?:role|text|internal:[\w-]+)=/;
+
+const PRIORITY_TAG = /@p[0-2]\b/i;
+
+const TEST_FUNCTIONS = new Set(['test', 'it']);
+const TEST_MODIFIERS = new Set(['only', 'skip', 'fixme', 'fail', 'slow']);
+
+/**
+ * Dotted name of a callee, e.g. `test.describe.only`; undefined for anything else
+ */
+function calleeName(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (expression.kind === ts.SyntaxKind.ThisKeyword) {
+    return 'this';
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    const owner = calleeName(expression.expression);
+    return owner === undefined ? undefined : `${owner}.${expression.name.text}`;
+  }
+  return undefined;
+}
+
+function stringValue(node: ts.Node | undefined): string | undefined {
+  if (node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+    return node.text;
+  }
+  if (node && ts.isTemplateExpression(node)) {
+    return node.head.text + node.templateSpans.map((span) => span.literal.text).join('');
+  }
+  return undefined;
+}
+
+/**
+ * `test('title', fn)`, `test('title', details, fn)` and modifiers such as `test.skip('title', fn)`
+ */
+function isTestCall(call: ts.CallExpression): boolean {
+  const name = calleeName(call.expression);
+  if (!name) {
+    return false;
+  }
+  const [base, modifier, ...rest] = name.split('.');
+  return (
+    TEST_FUNCTIONS.has(base) &&
+    rest.length === 0 &&
+    (modifier === undefined || TEST_MODIFIERS.has(modifier)) &&
+    stringValue(call.arguments[0]) !== undefined &&
+    call.arguments.length >= 2
+  );
+}
+
+function isDescribeCall(call: ts.CallExpression): boolean {
+  const name = calleeName(call.expression);
+  return !!name && /^(?:test\.)?describe(?:\.\w+)?$/.test(name) && call.arguments.length >= 2;
+}
+
+/**
+ * Tags declared with the details argument: `{ tag: '@p0' }` or `{ tag: ['@smoke', '@p0'] }`
+ */
+function detailTags(details: ts.Expression | undefined): string {
+  if (!details || !ts.isObjectLiteralExpression(details)) {
+    return '';
+  }
+  const tag = details.properties.find(
+    (property): property is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(property) && property.name.getText() === 'tag'
+  )?.initializer;
+  if (tag && ts.isArrayLiteralExpression(tag)) {
+    return tag.elements.map((element) => stringValue(element) ?? '').join(' ');
+  }
+  return stringValue(tag) ?? '';
+}
+
+/**
+ * Whether a test body asserts anything: expect(...), or a helper such as
+ * `loginPage.expectError()` or `verifyCheckout()`
+ */
+function hasAssertion(body: ts.Node): boolean {
+  let found = false;
+  const visit = (node: ts.Node): void => {
+    if (found) {
+      return;
+    }
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const name = ts.isIdentifier(callee)
+        ? callee.text
+        : ts.isPropertyAccessExpression(callee)
+          ? callee.name.text
+          : '';
+      if (/^(?:expect|assert|verify)/i.test(name)) {
+        found = true;
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(body);
+  return found;
+}
+
+/**
+ * Lint one spec or page object source
+ * Specs (`*.spec.ts`) are also checked for assertions and priority tags on every test
+ */
+export function lintSource(fileName: string, content: string): SpecLintViolation[] {
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+  const isSpec = /\.(?:spec|test)\.[jt]s$/.test(fileName);
+  const violations: SpecLintViolation[] = [];
+
+  const report = (node: ts.Node, rule: SpecLintRule, message: string): void => {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+    violations.push({ file: fileName, line: line + 1, rule, message });
+  };
+
+  // Titles of the enclosing describe blocks, whose tags apply to the tests inside
+  const describeTitles: string[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      const name = calleeName(node.expression);
+      const method = ts.isPropertyAccessExpression(node.expression)
+        ? node.expression.name.text
+        : undefined;
+      const receiver = ts.isPropertyAccessExpression(node.expression)
+        ? calleeName(node.expression.expression)
+        : undefined;
+      const isPage = receiver === 'page' || receiver === 'this.page';
+
+      if (method === 'waitForTimeout') {
+        report(node, 'no-wait-for-timeout', 'waitForTimeout is a fixed sleep; wait on a locator or expect() instead');
+      }
+
+      if (method && ELEMENT_HANDLE_METHODS.has(method) && isPage) {
+        report(node, 'no-element-handle', `${receiver}.${method} returns element handles; use a locator`);
+      }
+
+      if (method === 'locator' || (method && isPage && SELECTOR_METHODS.has(method))) {
+        const selector = stringValue(node.arguments[0]);
+        if (selector !== undefined && !SEMANTIC_SELECTOR.test(selector.trim())) {
+          const kind = /^(?:xpath=|\/\/|\.\.|\()/.test(selector.trim()) ? 'XPath' : 'CSS';
+          report(
+            node,
+            'no-raw-selector',
+            `${kind} selector '${selector}'; use getByRole, getByLabel, getByText or getByTestId`
+          );
+        }
+      }
+
+      if (name && /^(?:test|it|describe|test\.describe)(?:\.\w+)*\.only$/.test(name)) {
+        report(node, 'no-focused-test', `${name} skips every other test in the run`);
+      }
+
+      if (isSpec && isDescribeCall(node)) {
+        describeTitles.push(`${stringValue(node.arguments[0]) ?? ''} ${detailTags(node.arguments[1])}`);
+        ts.forEachChild(node, visit);
+        describeTitles.pop();
+        return;
+      }
+
+      if (isSpec && isTestCall(node)) {
+        const title = stringValue(node.arguments[0])!;
+        const body = node.arguments[node.arguments.length - 1];
+        const details = node.arguments.length > 2 ? node.arguments[1] : undefined;
+
+        if ((ts.isArrowFunction(body) || ts.isFunctionExpression(body)) && !hasAssertion(body.body)) {
+          report(node, 'require-expect', `Test '${title}' has no expect() assertion`);
+        }
+
+        const tags = [title, detailTags(details), ...describeTitles].join(' ');
+        if (!PRIORITY_TAG.test(tags)) {
+          report(node, 'require-priority-tag', `Test '${title}' has no priority tag (@p0, @p1 or @p2)`);
+        }
+      }
+    }
+
+    const text = stringValue(node);
+    if (
+      text !== undefined &&
+      /^https?:\/\//i.test(text.trim()) &&
+      !(node.parent && ts.isImportDeclaration(node.parent))
+    ) {
+      report(node, 'no-hard-coded-url', `Hard-coded URL '${text}'; navigate with a path relative to baseURL`);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return violations;
+}
+
+/**
+ * Lint files and directories (recursively, .ts and .js files only)
+ * Paths in the violations are relative to the working directory
+ */
+export function lintSpecFiles(paths: string[], exclude: string[] = []): SpecLintViolation[] {
+  const excluded = new Set(exclude.map((entry) => path.resolve(entry)));
+  const files: string[] = [];
+
+  const collect = (target: string): void => {
+    if (excluded.has(target) || !fs.existsSync(target)) {
+      return;
+    }
+    if (fs.statSync(target).isDirectory()) {
+      for (const entry of fs.readdirSync(target)) {
+        collect(path.join(target, entry));
+      }
+    } else if (/\.[jt]s$/.test(target) && !target.endsWith('.d.ts')) {
+      files.push(target);
+    }
+  };
+
+  for (const target of paths) {
+    collect(path.resolve(target));
+  }
+
+  return files.flatMap((file) =>
+    lintSource(
+      path.relative(process.cwd(), file).split(path.sep).join('/'),
+      fs.readFileSync(file, 'utf-8')
+    )
+  );
+}
@@ -3,6 +3,7 @@ import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 import { getLogger } from './logger';
+import { PLAYWRIGHT_JSON_REPORT, readPlaywrightReport, TestCaseResult } from './scenarioResults';
 
 const execAsync = promisify(exec);
 const logger = getLogger();
@@ -33,6 +34,11 @@ export interface TestRunResult {
   stderr: string;
   reportPath?: string;
   tracePaths?: string[];
+  /**
+   * Per-test results from the JSON report, used to map results to scenarios
+   * Not set when a reporter override kept the JSON report from being written
+   */
+  tests?: TestCaseResult[];
 }
 
 /**
@@ -66,6 +72,8 @@ export class TestRunner {
 
       const duration = Date.now() - startTime;
       const result = this.parseOutput(stdout, stderr, 0, duration);
+      result.tests = this.readTestCases(options, startTime);
+      this.addReportTraces(result);
 
       logger.info('Test run completed', {
         passed: result.passed,
@@ -83,6 +91,8 @@ export class TestRunner {
         execError.code || 1,
         duration
       );
+      result.tests = this.readTestCases(options, startTime);
+      this.addReportTraces(result);
 
       logger.warn('Test run completed with failures', {
         passed: result.passed,
@@ -147,6 +157,26 @@ export class TestRunner {
     return args;
   }
 
+  /**
+   * Per-test results written by this run's JSON reporter
+   */
+  private readTestCases(options: TestRunOptions, startTime: number): TestCaseResult[] | undefined {
+    if (options.reporter && !options.reporter.includes('json')) {
+      return undefined;
+    }
+    return readPlaywrightReport(path.join(this.projectRoot, PLAYWRIGHT_JSON_REPORT), startTime);
+  }
+
+  /**
+   * Add the trace attachments of the JSON report to the paths found in the output
+   */
+  private addReportTraces(result: TestRunResult): void {
+    const fromReport = (result.tests ?? []).flatMap((test) =>
+      (test.attachments ?? []).filter((a) => a.name === 'trace' && a.path).map((a) => a.path!)
+    );
+    result.tracePaths = [...new Set([...(result.tracePaths ?? []), ...fromReport])];
+  }
+
   /**
    * Parse test output
    */
@@ -178,13 +208,8 @@ export class TestRunner {
       reportPath = reportMatch[1];
     }
 
-    // Find trace paths
-    const tracePaths: string[] = [];
-    const traceRegex = /trace\.zip/g;
-    let match;
-    while ((match = traceRegex.exec(stdout)) !== null) {
-      tracePaths.push(match[0]);
-    }
+    // Find trace paths (the list reporter prints them under each failure)
+    const tracePaths = [...new Set(stdout.match(/[^\s'"]*trace\.zip/g) ?? [])];
 
     return {
       success: exitCode === 0 && failed === 0,
@@ -236,7 +261,7 @@ export class TestRunner {
    * Get last test results from JSON reporter
    */
   async getLastResults(): Promise<TestRunResult | null> {
-    const resultsPath = path.join(this.projectRoot, 'test-results', 'results.json');
+    const resultsPath = path.join(this.projectRoot, PLAYWRIGHT_JSON_REPORT);
 
     if (!fs.existsSync(resultsPath)) {
       logger.warn('No test results file found');
@@ -250,7 +275,7 @@ export class TestRunner {
       // Parse Playwright JSON reporter format
       const stats = data.stats || {};
 
-      return {
+      const result: TestRunResult = {
         success: stats.failures === 0,
         passed: stats.expected || 0,
         failed: stats.unexpected || 0,
@@ -260,7 +285,10 @@ export class TestRunner {
         exitCode: stats.failures > 0 ? 1 : 0,
         stdout: '',
         stderr: '',
+        tests: readPlaywrightReport(resultsPath),
       };
+      this.addReportTraces(result);
+      return result;
     } catch (error) {
       logger.error('Failed to parse test results', { error });
       return null;
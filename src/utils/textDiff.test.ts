@@ -0,0 +1,61 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createUnifiedDiff } from './textDiff';
+
+describe('createUnifiedDiff', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  const gitApply = (diff: string) => {
+    fs.writeFileSync('change.diff', diff);
+    execFileSync('git', ['apply', 'change.diff'], { stdio: 'pipe' });
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'text-diff-'));
+    process.chdir(dir);
+    fs.mkdirSync('tests');
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is empty when nothing changed', () => {
+    expect(createUnifiedDiff('tests/a.ts', 'same\n', 'same\n')).toBe('');
+  });
+
+  it('writes hunks that git apply accepts for edited files', () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', '');
+    fs.writeFileSync('tests/a.ts', before);
+
+    const diff = createUnifiedDiff('tests/a.ts', before, after);
+    expect(diff).toContain('--- a/tests/a.ts\n+++ b/tests/a.ts\n@@ -1,5 +1,5 @@\n');
+
+    gitApply(diff);
+    expect(fs.readFileSync('tests/a.ts', 'utf-8')).toBe(after);
+  });
+
+  it('diffs new files against /dev/null so git apply creates them', () => {
+    const diff = createUnifiedDiff('tests/new.spec.ts', null, 'one\ntwo\n');
+    expect(diff).toBe('--- /dev/null\n+++ b/tests/new.spec.ts\n@@ -0,0 +1,2 @@\n+one\n+two\n');
+
+    gitApply(diff);
+    expect(fs.readFileSync('tests/new.spec.ts', 'utf-8')).toBe('one\ntwo\n');
+  });
+
+  it('diffs deleted files against /dev/null so git apply removes them', () => {
+    fs.writeFileSync('tests/old.spec.ts', 'one\n');
+
+    const diff = createUnifiedDiff('tests/old.spec.ts', 'one\n', null);
+    expect(diff).toBe('--- a/tests/old.spec.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-one\n');
+
+    gitApply(diff);
+    expect(fs.existsSync('tests/old.spec.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Line-based unified diffs for logging changes to generated files
+ */
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string };
+
+/**
+ * Edit script from a longest-common-subsequence table; fine for source files of a few
+ * thousand lines, which is all this is used for
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const n = before.length;
+  const m = after.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      lines.push({ kind: ' ', text: before[i++] });
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ kind: '-', text: before[i++] });
+    } else {
+      lines.push({ kind: '+', text: after[j++] });
+    }
+  }
+  while (i < n) {
+    lines.push({ kind: '-', text: before[i++] });
+  }
+  while (j < m) {
+    lines.push({ kind: '+', text: after[j++] });
+  }
+
+  return lines;
+}
+
+function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+  const lines = content.split('\n');
+  return content.endsWith('\n') ? lines.slice(0, -1) : lines;
+}
+
+/**
+ * Unified diff of two versions of a file, in the form `git apply` accepts; empty string
+ * when they are the same
+ * @param before - Previous content, or null when the file is created
+ * @param after - New content, or null when the file is deleted
+ */
+export function createUnifiedDiff(
+  fileName: string,
+  before: string | null,
+  after: string | null,
+  context = 3
+): string {
+  if (before === after) {
+    return '';
+  }
+
+  const lines = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  const changed = lines.map((line, index) => (line.kind !== ' ' ? index : -1)).filter((index) => index >= 0);
+
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  let diff = `--- ${before === null ? '/dev/null' : `a/${fileName}`}\n`;
+  diff += `+++ ${after === null ? '/dev/null' : `b/${fileName}`}\n`;
+  for (const [start, end] of hunks) {
+    const oldStart = lines.slice(0, start).filter((line) => line.kind !== '+').length;
+    const newStart = lines.slice(0, start).filter((line) => line.kind !== '-').length;
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.kind !== '+').length;
+    const newCount = hunk.filter((line) => line.kind !== '-').length;
+
+    diff += `@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@\n`;
+    diff += hunk.map((line) => `${line.kind}${line.text}\n`).join('');
+  }
+
+  return diff;
+}
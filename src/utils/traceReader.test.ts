@@ -0,0 +1,95 @@
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { formatFailureDigest, readTestTrace, readTrace } from './traceReader';
+import type { TestCaseResult } from './scenarioResults';
+
+// A failed login: the click on a disabled button times out after POST /api/session returned 500
+const tracePath = path.join(__dirname, '__fixtures__', 'failed-login-trace.zip');
+
+describe('readTrace', () => {
+  it('extracts the failing action with its locator, error and log', () => {
+    expect(readTrace(tracePath).failingAction).toEqual({
+      name: 'locator.click',
+      locator: 'internal:role=button[name="Sign in"i]',
+      error: 'Timeout 5000ms exceeded.\n=== logs ===',
+      log: ["waiting for getByRole('button', { name: 'Sign in' })", '  element is not enabled'],
+    });
+  });
+
+  it('collects console errors, uncaught page errors and failed requests', () => {
+    const digest = readTrace(tracePath);
+
+    expect(digest.consoleErrors).toEqual([
+      'Failed to load resource: the server responded with a status of 500',
+      'Uncaught TypeError: session is undefined',
+    ]);
+    expect(digest.networkFailures).toEqual([
+      { method: 'POST', url: 'http://localhost:3000/api/session', status: 500 },
+      {
+        method: 'GET',
+        url: 'http://localhost:3000/analytics.js',
+        failure: 'net::ERR_BLOCKED_BY_CLIENT',
+      },
+    ]);
+  });
+
+  it('renders the DOM after the failing action, resolving references to earlier snapshots', () => {
+    expect(readTrace(tracePath).domSnapshot).toBe(
+      '<form id="login"><input name="email" type="email">' +
+        '<button type="submit" disabled>Sign in</button></form>' +
+        '<p role="alert">Login failed</p>'
+    );
+  });
+
+  it('rejects files that are not zip archives', () => {
+    expect(() => readTrace(__filename)).toThrow('Not a zip archive');
+  });
+});
+
+describe('readTestTrace', () => {
+  const test: TestCaseResult = {
+    title: 'LOGIN-001 signs in',
+    file: 'login.spec.ts',
+    tags: [],
+    status: 'failed',
+    duration: 5000,
+  };
+
+  it('reads the trace attachment and skips tests without a readable one', () => {
+    const traced = {
+      ...test,
+      attachments: [{ name: 'trace', contentType: 'application/zip', path: tracePath }],
+    };
+    expect(readTestTrace(traced)?.failingAction?.name).toBe('locator.click');
+
+    expect(readTestTrace(test)).toBeUndefined();
+    const broken = {
+      ...test,
+      attachments: [{ name: 'trace', contentType: 'application/zip', path: __filename }],
+    };
+    expect(readTestTrace(broken)).toBeUndefined();
+  });
+});
+
+describe('formatFailureDigest', () => {
+  it('formats one section per finding and can leave out the DOM', () => {
+    const digest = readTrace(tracePath);
+
+    expect(formatFailureDigest(digest, false)).toBe(
+      [
+        'Failing action: locator.click on internal:role=button[name="Sign in"i]',
+        'Error: Timeout 5000ms exceeded.',
+        'Action log:',
+        "  waiting for getByRole('button', { name: 'Sign in' })",
+        '  element is not enabled',
+        'Console errors:',
+        '  Failed to load resource: the server responded with a status of 500',
+        '  Uncaught TypeError: session is undefined',
+        'Failed requests:',
+        '  POST http://localhost:3000/api/session 500',
+        '  GET http://localhost:3000/analytics.js (net::ERR_BLOCKED_BY_CLIENT)',
+      ].join('\n')
+    );
+    expect(formatFailureDigest(digest)).toContain('DOM at failure:\n<form id="login">');
+  });
+});
@@ -0,0 +1,407 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { getLogger } from './logger';
+import type { TestCaseResult } from './scenarioResults';
+
+const logger = getLogger();
+
+/**
+ * What went wrong in a traced test, compact enough to hand to a model or paste into a report
+ */
+export interface TraceFailureDigest {
+  tracePath: string;
+  failingAction?: {
+    name: string;
+    /**
+     * Selector the action used, in Playwright's internal notation (e.g. internal:role=button[name="Save"i])
+     */
+    locator?: string;
+    error?: string;
+    /**
+     * Last lines of the action log ("waiting for getByRole(...)", "element is not visible", ...)
+     */
+    log: string[];
+  };
+  consoleErrors: string[];
+  networkFailures: Array<{ method: string; url: string; status?: number; failure?: string }>;
+  /**
+   * Simplified HTML of the page when the action failed
+   */
+  domSnapshot?: string;
+}
+
+/**
+ * Limits that keep digests small
+ */
+const MAX_LOG_LINES = 8;
+const MAX_ENTRIES = 10;
+const MAX_SNAPSHOT_LENGTH = 6000;
+
+/**
+ * Attributes worth keeping in a DOM snapshot: the ones locators are built from
+ */
+const SNAPSHOT_ATTRIBUTES = new Set([
+  'id',
+  'name',
+  'role',
+  'type',
+  'href',
+  'placeholder',
+  'alt',
+  'title',
+  'value',
+  'for',
+  'data-testid',
+  'disabled',
+  'checked',
+  'hidden',
+]);
+
+/**
+ * Snapshot nodes are `text`, `[tagName, attributes, ...children]`, or `[[snapshotsAgo, nodeIndex]]`
+ * referring to an unchanged subtree of an earlier snapshot of the same frame
+ */
+type SnapshotNode = string | [[number, number]] | [string, Record<string, string>?, ...SnapshotNode[]];
+
+interface FrameSnapshot {
+  callId?: string;
+  snapshotName?: string;
+  frameId?: string;
+  isMainFrame?: boolean;
+  html: SnapshotNode;
+}
+
+interface SerializedError {
+  message?: string;
+  error?: { message?: string };
+}
+
+/**
+ * Subset of the trace event format (trace.trace entries) this reader uses
+ */
+interface TraceEvent {
+  type: string;
+  callId?: string;
+  title?: string;
+  apiName?: string;
+  class?: string;
+  method?: string;
+  params?: { selector?: string; error?: SerializedError };
+  error?: SerializedError;
+  message?: string;
+  messageType?: string;
+  text?: string;
+  snapshot?: FrameSnapshot;
+}
+
+/**
+ * Subset of the network entries (trace.network), HAR-like
+ */
+interface ResourceEvent {
+  snapshot?: {
+    request?: { method?: string; url?: string };
+    response?: { status?: number; _failureText?: string };
+    _failureText?: string;
+  };
+}
+
+const SKIPPED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'LINK', 'META', 'svg', 'SVG']);
+const VOID_ELEMENTS = new Set(['input', 'img', 'br', 'hr', 'area', 'col', 'embed', 'source', 'track', 'wbr']);
+
+/**
+ * Read every entry of a zip archive (stored or deflated, as Playwright writes them)
+ */
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+
+  // End of central directory record, searched from the end past any archive comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(`Zip64 entries are not supported (${name})`);
+    }
+
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, zlib.inflateRawSync(data));
+    } else {
+      logger.debug('Skipping zip entry with unsupported compression', { name, method });
+    }
+  }
+
+  return entries;
+}
+
+function parseEvents<T>(content: Buffer | undefined): T[] {
+  if (!content) {
+    return [];
+  }
+  return content
+    .toString('utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as T];
+      } catch {
+        return [];
+      }
+    });
+}
+
+function isReference(node: SnapshotNode): node is [[number, number]] {
+  return Array.isArray(node) && Array.isArray(node[0]);
+}
+
+/**
+ * Nodes of a snapshot in post-order, which is how references index them
+ */
+function flattenSnapshot(root: SnapshotNode): SnapshotNode[] {
+  const nodes: SnapshotNode[] = [];
+  const visit = (node: SnapshotNode): void => {
+    if (typeof node === 'string') {
+      nodes.push(node);
+    } else if (!isReference(node)) {
+      for (const child of node.slice(2) as SnapshotNode[]) {
+        visit(child);
+      }
+      nodes.push(node);
+    }
+  };
+  visit(root);
+  return nodes;
+}
+
+/**
+ * Render one frame snapshot as simplified HTML: scripts, styles and most attributes dropped,
+ * whitespace collapsed
+ */
+function renderSnapshot(frameSnapshots: SnapshotNode[], index: number): string {
+  const flattened = new Map<number, SnapshotNode[]>();
+  const nodesOf = (snapshotIndex: number) => {
+    if (!flattened.has(snapshotIndex)) {
+      flattened.set(snapshotIndex, flattenSnapshot(frameSnapshots[snapshotIndex]));
+    }
+    return flattened.get(snapshotIndex)!;
+  };
+
+  const render = (node: SnapshotNode, snapshotIndex: number): string => {
+    if (typeof node === 'string') {
+      return node.replace(/\s+/g, ' ');
+    }
+    if (isReference(node)) {
+      const [snapshotsAgo, nodeIndex] = node[0];
+      const referenced = snapshotIndex - snapshotsAgo;
+      const target = referenced >= 0 ? nodesOf(referenced)[nodeIndex] : undefined;
+      return target === undefined ? '' : render(target, referenced);
+    }
+
+    const [tag, attributes = {}, ...children] = node as [string, Record<string, string>?, ...SnapshotNode[]];
+    const inner = children.map((child) => render(child, snapshotIndex)).join('');
+    if (SKIPPED_ELEMENTS.has(tag)) {
+      return '';
+    }
+    if (tag === 'HTML' || tag === 'HEAD' || tag === 'BODY' || tag.startsWith('#')) {
+      return inner;
+    }
+
+    const name = tag.toLowerCase();
+    const attrs = Object.entries(attributes)
+      .filter(([key]) => SNAPSHOT_ATTRIBUTES.has(key) || key.startsWith('aria-'))
+      .map(([key, value]) => (value === '' ? ` ${key}` : ` ${key}="${value}"`))
+      .join('');
+    return VOID_ELEMENTS.has(name) ? `<${name}${attrs}>` : `<${name}${attrs}>${inner}</${name}>`;
+  };
+
+  const html = render(frameSnapshots[index], index).replace(/\s+/g, ' ').trim();
+  return html.length > MAX_SNAPSHOT_LENGTH ? `${html.slice(0, MAX_SNAPSHOT_LENGTH)}…` : html;
+}
+
+/**
+ * Unpack a Playwright trace.zip and extract the failing action, its locator and log,
+ * console errors, failed network requests and the page's DOM when the action failed
+ * @throws {Error} if the file is missing or not a zip archive
+ */
+export function readTrace(tracePath: string): TraceFailureDigest {
+  const entries = readZipEntries(fs.readFileSync(tracePath));
+  const digest: TraceFailureDigest = { tracePath, consoleErrors: [], networkFailures: [] };
+
+  // One .trace/.network pair per browser context
+  const events = [...entries.keys()]
+    .filter((name) => name.endsWith('.trace'))
+    .flatMap((name) => parseEvents<TraceEvent>(entries.get(name)));
+  const resources = [...entries.keys()]
+    .filter((name) => name.endsWith('.network'))
+    .flatMap((name) => parseEvents<ResourceEvent>(entries.get(name)));
+
+  const befores = new Map<string, TraceEvent>();
+  const afters = new Map<string, TraceEvent>();
+  const logs = new Map<string, string[]>();
+  const snapshotsByFrame = new Map<string, FrameSnapshot[]>();
+
+  for (const event of events) {
+    const callId = event.callId ?? '';
+    switch (event.type) {
+      case 'before':
+        befores.set(callId, event);
+        break;
+      case 'after':
+        afters.set(callId, event);
+        break;
+      case 'log':
+        logs.set(callId, [...(logs.get(callId) ?? []), event.message ?? '']);
+        break;
+      case 'console':
+        if (event.messageType === 'error') {
+          digest.consoleErrors.push(String(event.text ?? ''));
+        }
+        break;
+      case 'event':
+        if (event.method === 'pageError') {
+          const error = event.params?.error;
+          digest.consoleErrors.push(`Uncaught ${error?.error?.message ?? error?.message ?? 'error'}`);
+        }
+        break;
+      case 'frame-snapshot':
+        if (event.snapshot) {
+          const frameId = event.snapshot.frameId ?? '';
+          snapshotsByFrame.set(frameId, [...(snapshotsByFrame.get(frameId) ?? []), event.snapshot]);
+        }
+        break;
+    }
+  }
+
+  // The action that threw, or else the last one that never finished (killed by the test timeout)
+  const failedCallId =
+    [...afters.values()].reverse().find((after) => after.error)?.callId ??
+    [...befores.keys()].reverse().find((callId) => !afters.has(callId));
+  const failed = failedCallId ? befores.get(failedCallId) : undefined;
+
+  if (failed) {
+    const after = afters.get(failedCallId!);
+    digest.failingAction = {
+      name: failed.title ?? failed.apiName ?? `${failed.class}.${failed.method}`,
+      locator: failed.params?.selector,
+      error: after?.error?.error?.message ?? after?.error?.message,
+      log: (logs.get(failedCallId!) ?? []).slice(-MAX_LOG_LINES),
+    };
+  }
+
+  for (const resource of resources) {
+    const snapshot = resource.snapshot ?? {};
+    const status = snapshot.response?.status;
+    const failure = snapshot._failureText ?? snapshot.response?._failureText;
+    if (failure || (typeof status === 'number' && (status >= 400 || status === -1))) {
+      digest.networkFailures.push({
+        method: snapshot.request?.method ?? 'GET',
+        url: snapshot.request?.url ?? '',
+        status: typeof status === 'number' && status > 0 ? status : undefined,
+        failure,
+      });
+    }
+  }
+
+  // DOM after (or before) the failing action; otherwise the last snapshot of the main frame
+  const allSnapshots = [...snapshotsByFrame.values()].flat();
+  const mainFrame = allSnapshots.filter((s) => s.isMainFrame !== false);
+  const pick =
+    mainFrame.filter((s) => s.callId === failedCallId && s.snapshotName?.startsWith('after')).pop() ??
+    mainFrame.filter((s) => s.callId === failedCallId).pop() ??
+    mainFrame.pop();
+  if (pick) {
+    const frameSnapshots = snapshotsByFrame.get(pick.frameId ?? '')!;
+    digest.domSnapshot = renderSnapshot(
+      frameSnapshots.map((s) => s.html),
+      frameSnapshots.indexOf(pick)
+    );
+  }
+
+  digest.consoleErrors = [...new Set(digest.consoleErrors)].slice(-MAX_ENTRIES);
+  digest.networkFailures = digest.networkFailures.slice(-MAX_ENTRIES);
+  return digest;
+}
+
+/**
+ * Trace of a failed test from its report attachments, read into a digest
+ * Returns undefined when the test has no readable trace
+ */
+export function readTestTrace(test: TestCaseResult): TraceFailureDigest | undefined {
+  const trace = test.attachments?.find((a) => a.name === 'trace' && a.path);
+  if (!trace?.path || !fs.existsSync(trace.path)) {
+    return undefined;
+  }
+  try {
+    return readTrace(trace.path);
+  } catch (error) {
+    logger.warn('Could not read trace', { tracePath: trace.path, error });
+    return undefined;
+  }
+}
+
+/**
+ * Plain-text digest, one section per finding
+ * @param includeSnapshot - The DOM is the largest part; reports can leave it out
+ */
+export function formatFailureDigest(digest: TraceFailureDigest, includeSnapshot = true): string {
+  const lines: string[] = [];
+
+  if (digest.failingAction) {
+    const action = digest.failingAction;
+    lines.push(`Failing action: ${action.name}${action.locator ? ` on ${action.locator}` : ''}`);
+    if (action.error) {
+      lines.push(`Error: ${action.error.split('\n')[0]}`);
+    }
+    if (action.log.length > 0) {
+      lines.push('Action log:', ...action.log.map((line) => `  ${line.trim()}`));
+    }
+  }
+  if (digest.consoleErrors.length > 0) {
+    lines.push('Console errors:', ...digest.consoleErrors.map((error) => `  ${error}`));
+  }
+  if (digest.networkFailures.length > 0) {
+    lines.push(
+      'Failed requests:',
+      ...digest.networkFailures.map(
+        (request) =>
+          `  ${[request.method, request.url, request.status, request.failure && `(${request.failure})`]
+            .filter(Boolean)
+            .join(' ')}`
+      )
+    );
+  }
+  if (includeSnapshot && digest.domSnapshot) {
+    lines.push('DOM at failure:', digest.domSnapshot);
+  }
+
+  return lines.join('\n');
+}
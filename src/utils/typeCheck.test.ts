@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { formatDiagnostics, typeCheckFiles } from './typeCheck';
+
+describe('typeCheckFiles', () => {
+  const originalCwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'type-check-')));
+    process.chdir(dir);
+    fs.writeFileSync(
+      'tsconfig.json',
+      JSON.stringify({
+        compilerOptions: { strict: true, lib: ['es2020'], types: [], noUnusedLocals: true },
+      })
+    );
+    fs.mkdirSync('tests');
+    fs.writeFileSync('tests/helpers.ts', "export const total: number = 'not checked';\n");
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports errors in the given files only, with paths relative to the working directory', () => {
+    fs.writeFileSync(
+      'tests/cart.spec.ts',
+      "import { total } from './helpers';\nconst unused = 1;\nconst label: string = total;\n"
+    );
+
+    const diagnostics = typeCheckFiles(['tests/cart.spec.ts']);
+    expect(diagnostics).toEqual([
+      {
+        file: 'tests/cart.spec.ts',
+        line: 3,
+        column: 7,
+        code: 2322,
+        message: "Type 'number' is not assignable to type 'string'.",
+      },
+    ]);
+    expect(formatDiagnostics(diagnostics)).toBe(
+      "tests/cart.spec.ts(3,7): error TS2322: Type 'number' is not assignable to type 'string'."
+    );
+  });
+
+  it('returns nothing for files that compile', () => {
+    fs.writeFileSync(
+      'tests/cart.spec.ts',
+      "import { total } from './helpers';\nexport const count = total + 1;\n"
+    );
+
+    expect(typeCheckFiles(['tests/cart.spec.ts'])).toEqual([]);
+    expect(typeCheckFiles([])).toEqual([]);
+  });
+
+  it('fails on an unreadable tsconfig', () => {
+    fs.writeFileSync('tsconfig.json', '{ "compilerOptions": ');
+
+    expect(() => typeCheckFiles(['tests/helpers.ts'])).toThrow(
+      /Invalid TypeScript config .*tsconfig\.json/
+    );
+  });
+});
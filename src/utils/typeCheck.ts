@@ -0,0 +1,88 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export interface TypeCheckDiagnostic {
+  /**
+   * Path relative to the working directory
+   */
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+/**
+ * Compiler options from the project's tsconfig.json (defaults when there is none)
+ * Unused declarations are left to the linter: they do not stop a spec from running
+ */
+function loadCompilerOptions(tsconfigPath?: string): ts.CompilerOptions {
+  const configPath = tsconfigPath ?? ts.findConfigFile(process.cwd(), ts.sys.fileExists);
+  let options: ts.CompilerOptions = { strict: true, esModuleInterop: true, skipLibCheck: true };
+
+  if (configPath) {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      throw new Error(
+        `Invalid TypeScript config ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`
+      );
+    }
+    options = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath)).options;
+  }
+
+  return {
+    ...options,
+    noEmit: true,
+    noUnusedLocals: false,
+    noUnusedParameters: false,
+    incremental: false,
+    composite: false,
+    declaration: false,
+    declarationMap: false,
+  };
+}
+
+/**
+ * Type-check files in-process with the project's compiler options
+ * Only diagnostics in the given files are returned; the files they import are compiled but
+ * not reported on
+ * @throws {Error} if the tsconfig.json cannot be read
+ */
+export function typeCheckFiles(files: string[], tsconfigPath?: string): TypeCheckDiagnostic[] {
+  if (files.length === 0) {
+    return [];
+  }
+
+  const roots = files.map((file) => path.resolve(file));
+  const program = ts.createProgram(roots, loadCompilerOptions(tsconfigPath));
+  const checked = new Set(roots.map((file) => path.normalize(file)));
+
+  return ts
+    .getPreEmitDiagnostics(program)
+    .filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error)
+    .filter((diagnostic) => !diagnostic.file || checked.has(path.normalize(diagnostic.file.fileName)))
+    .map((diagnostic) => {
+      const position =
+        diagnostic.file && diagnostic.start !== undefined
+          ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+          : { line: 0, character: 0 };
+      return {
+        file: diagnostic.file
+          ? path.relative(process.cwd(), diagnostic.file.fileName).split(path.sep).join('/')
+          : '',
+        line: position.line + 1,
+        column: position.character + 1,
+        code: diagnostic.code,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      };
+    });
+}
+
+/**
+ * One line per diagnostic, in tsc's format
+ */
+export function formatDiagnostics(diagnostics: TypeCheckDiagnostic[]): string {
+  return diagnostics
+    .map((d) => `${d.file ? `${d.file}(${d.line},${d.column}): ` : ''}error TS${d.code}: ${d.message}`)
+    .join('\n');
+}
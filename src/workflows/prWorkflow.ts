@@ -2,18 +2,24 @@ import { getGitHubClient } from '../mcp/githubClient';
 import { getQualityGates, QualityGateResult } from '../utils/qualityGates';
 import { getReportGenerator } from '../utils/reportGenerator';
 import { getLogger } from '../utils/logger';
-import { TestScenario } from '../agents/qaAgent';
+import { resolveScenarios, ScenarioSource } from '../agents/scenarioArtifact';
+import { selectReviewedScenarios } from '../agents/scenarioReview';
 import { TestRunResult } from '../utils/testRunner';
 import { Citation } from '../rag/retriever';
+import { formatUsageMarkdown, UsageSummary } from '../llm';
 
 const logger = getLogger();
 
 export interface PRWorkflowInput {
   featureName: string;
   branchName: string;
-  scenarios: TestScenario[];
+  /**
+   * Scenarios, or the path of the scenarios artifact written by the QA Agent
+   */
+  scenarios: ScenarioSource;
   testResults: TestRunResult;
   citations?: Citation[];
+  usage?: UsageSummary;
 }
 
 export interface PRWorkflowOutput {
@@ -36,16 +42,19 @@ export class PRWorkflow {
   async execute(input: PRWorkflowInput): Promise<PRWorkflowOutput> {
     logger.info('Starting PR workflow', { featureName: input.featureName });
 
+    // Rejected scenarios were never implemented, so they must not count against coverage
+    const scenarios = selectReviewedScenarios(resolveScenarios(input.scenarios));
+
     // Step 1: Run quality gates
     const qualityGateResult = await this.qualityGates.validate(
-      input.scenarios,
+      scenarios,
       input.testResults
     );
 
     if (!qualityGateResult.passed) {
       throw new Error(
         `Quality gates failed:\n${qualityGateResult.gates
-          .filter((g) => !g.passed)
+          .filter((g) => !g.passed && g.severity === 'block')
           .map((g) => `  - ${g.name}: ${g.message}`)
           .join('\n')}`
       );
@@ -56,7 +65,7 @@ export class PRWorkflow {
     // Step 2: Generate coverage report
     const coverageReport = this.reportGenerator.generateCoverageReport(
       input.featureName,
-      input.scenarios,
+      scenarios,
       input.testResults
     );
 
@@ -66,7 +75,8 @@ export class PRWorkflow {
       coverageReport,
       input.testResults,
       input.citations,
-      qualityGateResult
+      qualityGateResult,
+      input.usage
     );
 
     // Step 4: Create PR
@@ -94,7 +104,8 @@ export class PRWorkflow {
     coverageReport: ReturnType<typeof this.reportGenerator.generateCoverageReport>,
     testResults: TestRunResult,
     citations?: Citation[],
-    qualityGates?: QualityGateResult
+    qualityGates?: QualityGateResult,
+    usage?: UsageSummary
   ): Promise<string> {
     let body = `## 🎭 ${featureName} - E2E Test Coverage\n\n`;
 
@@ -112,7 +123,7 @@ export class PRWorkflow {
     if (qualityGates) {
       body += `### ✓ Quality Gates\n\n`;
       for (const gate of qualityGates.gates) {
-        const icon = gate.passed ? '✅' : '❌';
+        const icon = gate.passed ? '✅' : gate.severity === 'warn' ? '⚠️' : '❌';
         body += `${icon} **${gate.name}:** ${gate.message}\n`;
       }
       body += `\n`;
@@ -131,6 +142,9 @@ export class PRWorkflow {
 
     body += `\n</details>\n\n`;
 
+    // Failure analysis from traces
+    body += this.reportGenerator.generateFailureAnalysis(coverageReport, '### 🔍 Failure Analysis');
+
     // How to Run
     body += `### 🚀 How to Run\n\n`;
     body += `\`\`\`bash\n`;
@@ -159,6 +173,11 @@ export class PRWorkflow {
       body += `\n`;
     }
 
+    // LLM Cost
+    if (usage) {
+      body += formatUsageMarkdown(usage);
+    }
+
     // Footer
     body += `---\n\n`;
     body += `🤖 _This PR was automatically generated by the Agentic Playwright framework._\n`;
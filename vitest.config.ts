@@ -0,0 +1,20 @@
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Vitest Configuration
+ * Unit tests live next to the modules they cover; ./tests belongs to Playwright
+ */
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+
+    /* Enough configuration for the agents to load without a .env file */
+    env: {
+      OPENAI_API_KEY: 'test-key',
+      LOG_LEVEL: 'error',
+      // Agents under test get a fake provider; cached responses would leak between tests
+      LLM_CACHE: 'false',
+    },
+  },
+});